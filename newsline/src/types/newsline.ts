@@ -1 +1,2 @@
-export type TokenSymbol = "BTC" | "ETH" | "SOL";
+// 代币标签，不再限定为固定的几种
+export type TokenSymbol = string;
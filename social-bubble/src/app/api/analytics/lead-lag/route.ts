@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+
+import { getLeadLag } from "@/lib/analytics/lead-lag";
+import { leadLagRequestSchema } from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseJsonBody } from "@/lib/api/validate";
+
+/**
+ * POST /api/analytics/lead-lag
+ *
+ * 对 user_ids 中的每个 KOL，计算窗口内每日平均情绪与代币日收益率（日线收盘价）在
+ * -max_lag ~ max_lag 天滞后下的互相关，返回相关系数绝对值最大的滞后及各滞后的相关系数。
+ * lag > 0 表示情绪领先价格，结果按最佳相关系数的绝对值降序。
+ */
+export async function POST(req: NextRequest) {
+  const parsed = await parseJsonBody(req, leadLagRequestSchema);
+  if (!parsed.success) return parsed.response;
+
+  try {
+    return ok(await getLeadLag(parsed.data));
+  } catch (error: any) {
+    console.error("计算领先滞后关系失败:", error.message);
+    return failWith(error, "Query failed");
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from "next/server";
+
+import { graphEgoRequestSchema } from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseJsonBody } from "@/lib/api/validate";
+import { getEgoGraph } from "@/lib/graph/ego";
+
+/**
+ * POST /api/graph/ego
+ *
+ * 返回以 user_id 为中心、展开 depth（1 或 2）跳的邻域图，邻居可以不在当前采样的气泡中。
+ * 每跳按与上一层的互动强度保留最强的邻居，节点总数不超过 max_nodes。
+ */
+export async function POST(req: NextRequest) {
+  const parsed = await parseJsonBody(req, graphEgoRequestSchema);
+  if (!parsed.success) return parsed.response;
+
+  try {
+    return ok(await getEgoGraph(parsed.data));
+  } catch (error: any) {
+    console.error("查询邻域图失败:", error.message);
+    return failWith(error, "Query failed");
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+
+import { graphPathRequestSchema } from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseJsonBody } from "@/lib/api/validate";
+import { getInfluencePaths } from "@/lib/graph/path";
+
+/**
+ * POST /api/graph/path
+ *
+ * 在完整的互动表上查找 source_id 与 target_id 之间不超过 max_hops 跳的影响路径，
+ * 按代价（跳数优先，其次各跳互动强度）升序返回至多 max_paths 条不共享中间节点的路径。
+ * 两者不连通时 paths 为空。
+ */
+export async function POST(req: NextRequest) {
+  const parsed = await parseJsonBody(req, graphPathRequestSchema);
+  if (!parsed.success) return parsed.response;
+
+  try {
+    return ok(await getInfluencePaths(parsed.data));
+  } catch (error: any) {
+    console.error("查询影响路径失败:", error.message);
+    return failWith(error, "Query failed");
+  }
+}
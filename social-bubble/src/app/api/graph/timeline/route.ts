@@ -0,0 +1,130 @@
+import { NextRequest } from "next/server";
+
+import {
+  GraphLinkRaw,
+  GraphNodeRaw,
+  GraphNodeState,
+  GraphTimeline,
+  GraphTimelineFrame,
+} from "@/types/graph";
+import {
+  graphTimelineRequestSchema,
+  TIMELINE_STEP_MS,
+} from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseJsonBody } from "@/lib/api/validate";
+import { queryClickhouse } from "@/lib/clickhouse/query";
+import { computeCentrality } from "@/lib/graph/centrality";
+import { detectCommunities } from "@/lib/graph/community";
+import {
+  buildGraphNodesSQL,
+  buildTimelineLinksSQL,
+  buildTimelineNodeStatesSQL,
+  buildTimelineSteps,
+} from "@/lib/graph/queries";
+import { rankGraphNodes } from "@/lib/graph/ranking";
+import { toGraphLinks, toGraphNodes } from "@/lib/graph/transform";
+
+interface NodeStateRaw {
+  step_time: string | number;
+  author_id: string | number;
+  score_metrics: number;
+  opacity: number;
+}
+
+/**
+ * POST /api/graph/timeline
+ *
+ * 返回 [start, end] 区间内按 step 采样的一组图谱快照。节点集合在整个区间内保持稳定：
+ * 以 end 为参考时间、窗口覆盖整个区间进行一次采样，再逐个快照计算情绪、透明度和连线。
+ */
+export async function POST(req: NextRequest) {
+  const parsed = await parseJsonBody(req, graphTimelineRequestSchema);
+  if (!parsed.success) return parsed.response;
+  const { start, end, step, ...params } = parsed.data;
+
+  try {
+    const steps = buildTimelineSteps(start, end, step);
+    const rangeDays = Math.ceil((end - start) / TIMELINE_STEP_MS.day);
+
+    const nodesSql = buildGraphNodesSQL({
+      ...params,
+      filter_time: end,
+      ttl: params.ttl + rangeDays,
+    });
+    const nodes = toGraphNodes(await queryClickhouse<GraphNodeRaw>(nodesSql));
+    // 区间内没有数据时仍按时间点返回空快照，便于前端按节奏播放
+    if (nodes.length === 0) {
+      return ok<GraphTimeline>({
+        nodes,
+        frames: steps.map((time) => ({ time, nodes: [], links: [] })),
+      });
+    }
+
+    const timelineParams = {
+      token: params.token,
+      ttl: params.ttl,
+      steps,
+      userIds: nodes.map((node) => node.id),
+      weights: params.weights,
+      interaction_types: params.interaction_types,
+      min_link_strength: params.min_link_strength,
+    };
+    const statesSql = buildTimelineNodeStatesSQL(timelineParams);
+    const linksSql = buildTimelineLinksSQL(timelineParams);
+    const [rawStates, rawLinks] = await Promise.all([
+      queryClickhouse<NodeStateRaw>(statesSql),
+      queryClickhouse<GraphLinkRaw & { step_time: string | number }>(linksSql),
+    ]);
+
+    // 以 step_time 分组，便于逐帧组装
+    const statesByStep = new Map<number, Map<string, NodeStateRaw>>();
+    rawStates.forEach((row) => {
+      const time = Number(row.step_time);
+      if (!statesByStep.has(time)) statesByStep.set(time, new Map());
+      statesByStep.get(time)!.set(row.author_id.toString(), row);
+    });
+    const linksByStep = new Map<number, GraphLinkRaw[]>();
+    rawLinks.forEach((row) => {
+      const time = Number(row.step_time);
+      if (!linksByStep.has(time)) linksByStep.set(time, []);
+      linksByStep.get(time)!.push(row);
+    });
+
+    const addedIds = new Set(params.add_user_list);
+    const frames: GraphTimelineFrame[] = steps.map((time) => {
+      const states = statesByStep.get(time);
+      const frameNodes: GraphNodeState[] = nodes.map((node) => {
+        const state = states?.get(node.id);
+        if (state) {
+          return {
+            id: node.id,
+            score_metrics: Number(state.score_metrics),
+            opacity: Number(state.opacity),
+          };
+        }
+        // 该时间点窗口内没有记录：手动加入的用户保持可见，其余节点隐去
+        return {
+          id: node.id,
+          score_metrics: 0,
+          opacity: addedIds.has(node.id) ? 1 : 0,
+        };
+      });
+      return {
+        time,
+        nodes: frameNodes,
+        links: toGraphLinks(linksByStep.get(time) ?? []),
+      };
+    });
+
+    // 以区间终点的连线为准排名、划分社区和计算中心性
+    const lastLinks = frames[frames.length - 1].links;
+    rankGraphNodes(nodes, lastLinks, params);
+    detectCommunities(nodes, lastLinks);
+    computeCentrality(nodes, lastLinks);
+    return ok<GraphTimeline>({ nodes, frames });
+  } catch (error: any) {
+    console.error("查询时间序列失败:", error.message);
+    return failWith(error, "Query failed");
+  }
+}
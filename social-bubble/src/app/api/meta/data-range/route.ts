@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+
+import type { DataCoverage } from "@/types/token";
+import { coverageRequestSchema } from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseSearchParams } from "@/lib/api/validate";
+import { getTokens } from "@/lib/tokens";
+
+/**
+ * GET /api/meta/data-range
+ *
+ * 返回各代币在 user_graph_detail_score 中的最早、最新记录时间，前端据此确定时间轴和 K 线的边界。
+ * 接受参数：
+ *   - token （可选） 只返回该代币，不存在时返回空数组
+ */
+export async function GET(req: NextRequest) {
+  const parsed = parseSearchParams(req, coverageRequestSchema);
+  if (!parsed.success) return parsed.response;
+  const { token } = parsed.data;
+
+  try {
+    const coverage: DataCoverage[] = (await getTokens())
+      .filter((item) => !token || item.symbol === token)
+      .map((item) => ({
+        symbol: item.symbol,
+        min: item.first_seen,
+        max: item.last_seen,
+      }));
+    return ok(coverage);
+  } catch (error: any) {
+    console.error("Fetch coverage failed:", error);
+    return failWith(error, "Query failed");
+  }
+}
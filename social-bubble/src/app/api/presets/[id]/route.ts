@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+
+import {
+  PRESET_KEY_HEADER,
+  presetInputSchema,
+  presetKeySchema,
+} from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseHeader, parseJsonBody } from "@/lib/api/validate";
+import { getPresetStore, presetOwner } from "@/lib/presets/store";
+
+interface PresetRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/presets/[id]
+ *
+ * 以请求体整体覆盖指定预设，不存在或不属于 X-Preset-Key 时返回 404
+ */
+export async function PUT(req: NextRequest, { params }: PresetRouteContext) {
+  const { id } = await params;
+  const key = parseHeader(req, PRESET_KEY_HEADER, presetKeySchema);
+  if (!key.success) return key.response;
+  const parsed = await parseJsonBody(req, presetInputSchema);
+  if (!parsed.success) return parsed.response;
+
+  try {
+    return ok(
+      await getPresetStore().update(presetOwner(key.data), id, parsed.data),
+    );
+  } catch (error: any) {
+    console.error("Update preset failed:", error);
+    return failWith(error, "Failed to save preset");
+  }
+}
+
+/**
+ * DELETE /api/presets/[id]
+ *
+ * 只能删除 X-Preset-Key 名下的预设，否则返回 404
+ */
+export async function DELETE(req: NextRequest, { params }: PresetRouteContext) {
+  const { id } = await params;
+  const key = parseHeader(req, PRESET_KEY_HEADER, presetKeySchema);
+  if (!key.success) return key.response;
+
+  try {
+    await getPresetStore().remove(presetOwner(key.data), id);
+    return ok(null);
+  } catch (error: any) {
+    console.error("Delete preset failed:", error);
+    return failWith(error, "Failed to delete preset");
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+
+import {
+  PRESET_KEY_HEADER,
+  presetImportSchema,
+  presetKeySchema,
+} from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseHeader, parseJsonBody } from "@/lib/api/validate";
+import { getPresetStore, presetOwner } from "@/lib/presets/store";
+
+/**
+ * POST /api/presets/import
+ *
+ * 将预设数组（即导出的 JSON 文件内容）导入 X-Preset-Key 名下，与其中已有预设同名时覆盖，
+ * 返回导入后的预设
+ */
+export async function POST(req: NextRequest) {
+  const key = parseHeader(req, PRESET_KEY_HEADER, presetKeySchema);
+  if (!key.success) return key.response;
+  const parsed = await parseJsonBody(req, presetImportSchema);
+  if (!parsed.success) return parsed.response;
+
+  try {
+    return ok(
+      await getPresetStore().import(presetOwner(key.data), parsed.data),
+    );
+  } catch (error: any) {
+    console.error("Import presets failed:", error);
+    return failWith(error, "Failed to import presets");
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+
+import {
+  PRESET_KEY_HEADER,
+  presetInputSchema,
+  presetKeySchema,
+} from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseHeader, parseJsonBody } from "@/lib/api/validate";
+import { getPresetStore, presetOwner } from "@/lib/presets/store";
+
+/**
+ * GET /api/presets
+ *
+ * 返回 X-Preset-Key 名下已保存的筛选预设
+ */
+export async function GET(req: NextRequest) {
+  const key = parseHeader(req, PRESET_KEY_HEADER, presetKeySchema);
+  if (!key.success) return key.response;
+
+  try {
+    return ok(await getPresetStore().list(presetOwner(key.data)));
+  } catch (error: any) {
+    console.error("Fetch presets failed:", error);
+    return failWith(error, "Failed to load presets");
+  }
+}
+
+/**
+ * POST /api/presets
+ *
+ * 在 X-Preset-Key 名下新建预设，返回保存后的预设
+ */
+export async function POST(req: NextRequest) {
+  const key = parseHeader(req, PRESET_KEY_HEADER, presetKeySchema);
+  if (!key.success) return key.response;
+  const parsed = await parseJsonBody(req, presetInputSchema);
+  if (!parsed.success) return parsed.response;
+
+  try {
+    return ok(
+      await getPresetStore().create(presetOwner(key.data), parsed.data),
+    );
+  } catch (error: any) {
+    console.error("Create preset failed:", error);
+    return failWith(error, "Failed to save preset");
+  }
+}
@@ -0,0 +1,559 @@
+import { promises as fs } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+
+import { NextRequest } from "next/server";
+import { getClickhouseClient } from "@/http/server/clickhouse-http";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { PRESET_KEY_HEADER } from "@/lib/api/contracts";
+import { fileCandleProvider } from "@/lib/candles/file-provider";
+import { getCandleProvider, setCandleProvider } from "@/lib/candles/provider";
+import {
+  getQueryBackend,
+  setQueryBackend,
+  type QueryBackend,
+} from "@/lib/clickhouse/backend";
+import { fixtureQueryBackend } from "@/lib/clickhouse/fixture";
+import {
+  FIXTURE_END,
+  FIXTURE_TOKENS,
+  getFixtureDataset,
+} from "@/lib/clickhouse/fixture/dataset";
+import { httpQueryBackend } from "@/lib/clickhouse/http-backend";
+import type { ClickhouseQuery } from "@/lib/clickhouse/query";
+import { POST as postLeadLag } from "@/app/api/analytics/lead-lag/route";
+import { POST as postEgo } from "@/app/api/graph/ego/route";
+import { POST as postPath } from "@/app/api/graph/path/route";
+import { POST as postGraph } from "@/app/api/graph/route";
+import { POST as postTimeline } from "@/app/api/graph/timeline/route";
+import { GET as getCandles } from "@/app/api/market/candles/route";
+import { GET as getDataRange } from "@/app/api/meta/data-range/route";
+import {
+  DELETE as deletePreset,
+  PUT as putPreset,
+} from "@/app/api/presets/[id]/route";
+import { POST as importPresets } from "@/app/api/presets/import/route";
+import { GET as getPresets, POST as postPreset } from "@/app/api/presets/route";
+import { GET as getTokens } from "@/app/api/tokens/route";
+import { POST as postTweet } from "@/app/api/tweet/route";
+import { GET as getUser } from "@/app/api/user/route";
+import { GET as getUserSearch } from "@/app/api/user/search/route";
+import { GET as getSentimentSeries } from "@/app/api/user/sentiment-series/route";
+
+// 设置 CK_HOST 时 SQL 发往真实的 ClickHouse，否则交给 fixture 实现
+const target: QueryBackend = process.env.CK_HOST
+  ? httpQueryBackend
+  : fixtureQueryBackend;
+
+// 记录路由发出的每条查询，用于校验 SQL 占位符与参数；issued 保留全部查询供最后交给真实客户端序列化
+const recorded: ClickhouseQuery[] = [];
+const issued: ClickhouseQuery[] = [];
+const previousBackend = getQueryBackend();
+setQueryBackend({
+  query<T>(query: ClickhouseQuery) {
+    recorded.push(query);
+    issued.push(query);
+    return target.query<T>(query);
+  },
+});
+
+afterAll(() => setQueryBackend(previousBackend));
+beforeEach(() => {
+  recorded.length = 0;
+});
+
+const BASE_URL = "http://localhost/api";
+const TOKEN = "BTC";
+const DAY_MS = 86400000;
+
+const { users, scores } = getFixtureDataset();
+// 当前代币窗口内发过评论的 KOL，图中的节点只能来自这些作者
+const commenterIds = new Set(
+  scores
+    .filter((row) => row.label === TOKEN && row.active_type === "comment")
+    .map((row) => row.author_id),
+);
+const [userA, userB] = Array.from(commenterIds);
+
+const get = (path: string, params: Record<string, string>) =>
+  new NextRequest(`${BASE_URL}${path}?${new URLSearchParams(params)}`);
+
+const post = (path: string, body: unknown) =>
+  new NextRequest(`${BASE_URL}${path}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * SQL 中的每个 {name:Type} 占位符都有对应的参数；多余的参数会被 ClickHouse 忽略
+ */
+function expectParamsForPlaceholders() {
+  recorded.forEach(({ name, query, params }) => {
+    Array.from(query.matchAll(/\{(\w+):([^}]+)\}/g)).forEach(
+      ([placeholder, key, type]) => {
+        expect(params, `${name}: ${placeholder}`).toHaveProperty(key);
+        if (!type.startsWith("Nullable(")) {
+          expect(params[key] ?? null, `${name}: ${placeholder}`).not.toBeNull();
+        }
+      },
+    );
+  });
+}
+
+async function expectOk(response: Response) {
+  const body = await response.json();
+  expect(response.status, JSON.stringify(body)).toBe(200);
+  expect(body.code).toBe(0);
+  expectParamsForPlaceholders();
+  return body.data;
+}
+
+describe("graph routes", () => {
+  it("POST /api/graph", async () => {
+    const data = await expectOk(
+      await postGraph(
+        post("/graph", {
+          token: TOKEN,
+          filter_time: FIXTURE_END,
+          rank_by: "centrality",
+        }),
+      ),
+    );
+    expect(recorded.map((query) => query.name)).toEqual([
+      "graph.nodes",
+      "graph.links",
+    ]);
+
+    const nodeIds = new Set<string>(
+      data.nodes.map((node: { id: string }) => node.id),
+    );
+    expect(nodeIds.size).toBeGreaterThan(0);
+    nodeIds.forEach((id) => expect(commenterIds).toContain(id));
+    data.links.forEach((link: { source: string; target: string }) => {
+      expect(nodeIds).toContain(link.source);
+      expect(nodeIds).toContain(link.target);
+    });
+    // 名次从 1 开始连续编号
+    expect(
+      data.nodes
+        .map((node: { rank: number }) => node.rank)
+        .sort((a: number, b: number) => a - b),
+    ).toEqual(Array.from(nodeIds, (_, index) => index + 1));
+  });
+
+  it("POST /api/graph/timeline", async () => {
+    const start = FIXTURE_END - 7 * DAY_MS;
+    const data = await expectOk(
+      await postTimeline(
+        post("/graph/timeline", {
+          token: TOKEN,
+          start,
+          end: FIXTURE_END,
+          step: "day",
+        }),
+      ),
+    );
+    const times = data.frames.map((frame: { time: number }) => frame.time);
+    expect(times.length).toBeGreaterThan(1);
+    times.forEach((time: number, index: number) => {
+      expect(time).toBeGreaterThanOrEqual(start);
+      expect(time).toBeLessThanOrEqual(FIXTURE_END);
+      if (index > 0) expect(time).toBeGreaterThan(times[index - 1]);
+    });
+    // 每一帧的节点状态与稳定的节点集合一一对应
+    data.frames.forEach((frame: { nodes: unknown[] }) =>
+      expect(frame.nodes).toHaveLength(data.nodes.length),
+    );
+  });
+
+  it("POST /api/graph/ego", async () => {
+    const data = await expectOk(
+      await postEgo(
+        post("/graph/ego", {
+          token: TOKEN,
+          filter_time: FIXTURE_END,
+          user_id: userA,
+          depth: 2,
+          max_nodes: 5,
+        }),
+      ),
+    );
+    // 每一跳查询一次邻居，最后取节点与节点间的连线
+    expect(recorded.map((query) => query.name)).toEqual([
+      "graph.egoLinks",
+      "graph.egoLinks",
+      "graph.egoNodes",
+      "graph.links",
+    ]);
+
+    const nodeIds = new Set<string>(
+      data.nodes.map((node: { id: string }) => node.id),
+    );
+    expect(data.center).toBe(userA);
+    expect(nodeIds).toContain(userA);
+    expect(nodeIds.size).toBeGreaterThan(1);
+    expect(nodeIds.size).toBeLessThanOrEqual(5);
+    data.links.forEach((link: { source: string; target: string }) => {
+      expect(nodeIds).toContain(link.source);
+      expect(nodeIds).toContain(link.target);
+    });
+  });
+
+  it("POST /api/graph/path", async () => {
+    const data = await expectOk(
+      await postPath(
+        post("/graph/path", {
+          token: TOKEN,
+          filter_time: FIXTURE_END,
+          source_id: userA,
+          target_id: userB,
+          max_hops: 4,
+        }),
+      ),
+    );
+    expect(data.source).toBe(userA);
+    expect(data.target).toBe(userB);
+    expect(data.paths.length).toBeGreaterThan(0);
+
+    const nodeIds = new Set<string>(
+      data.nodes.map((node: { id: string }) => node.id),
+    );
+    // 备选路径按代价升序，首尾为起点与终点，途经节点都在返回的节点中
+    data.paths.forEach(
+      (path: { node_ids: string[]; cost: number }, index: number) => {
+        expect(path.node_ids[0]).toBe(userA);
+        expect(path.node_ids[path.node_ids.length - 1]).toBe(userB);
+        expect(path.node_ids.length).toBeLessThanOrEqual(5);
+        path.node_ids.forEach((id) => expect(nodeIds).toContain(id));
+        if (index > 0) {
+          expect(path.cost).toBeGreaterThanOrEqual(data.paths[index - 1].cost);
+        }
+      },
+    );
+  });
+});
+
+describe("user routes", () => {
+  it("GET /api/user", async () => {
+    const data = await expectOk(
+      await getUser(get("/user", { id: users[0].id })),
+    );
+    expect(String(data.id)).toBe(users[0].id);
+    expect(data.username).toBe(users[0].username);
+  });
+
+  it("GET /api/user/search", async () => {
+    const keyword = users[0].username;
+    const data = await expectOk(
+      await getUserSearch(get("/user/search", { query: keyword })),
+    );
+    expect(data[0].username).toBe(keyword);
+    data.forEach((user: { username: string; name: string }) =>
+      expect(`${user.username} ${user.name}`).toContain(keyword),
+    );
+  });
+
+  it("GET /api/user/search treats the keyword as plain text", async () => {
+    const data = await expectOk(
+      await getUserSearch(get("/user/search", { query: "(" })),
+    );
+    expect(data).toEqual([]);
+  });
+
+  it("GET /api/user/sentiment-series", async () => {
+    const days = 30;
+    const data = await expectOk(
+      await getSentimentSeries(
+        get("/user/sentiment-series", {
+          id: userA,
+          token: TOKEN,
+          filter_time: String(FIXTURE_END),
+          days: String(days),
+        }),
+      ),
+    );
+    const comments = scores.filter(
+      (row) =>
+        row.author_id === userA &&
+        row.label === TOKEN &&
+        row.active_type === "comment" &&
+        row.created <= FIXTURE_END &&
+        row.created > FIXTURE_END - days * DAY_MS,
+    );
+    // 按 UTC 自然日升序聚合，评论数合计与窗口内的评论一致
+    expect(data.length).toBeGreaterThan(0);
+    data.forEach((point: { time: number; score: number }, index: number) => {
+      expect(point.time % DAY_MS).toBe(0);
+      expect(Math.abs(point.score)).toBeLessThanOrEqual(100);
+      if (index > 0) expect(point.time).toBeGreaterThan(data[index - 1].time);
+    });
+    expect(
+      data.reduce(
+        (sum: number, point: { count: number }) => sum + point.count,
+        0,
+      ),
+    ).toBe(comments.length);
+  });
+});
+
+describe("tweet, metadata and market routes", () => {
+  it("POST /api/tweet", async () => {
+    const data = await expectOk(
+      await postTweet(
+        post("/tweet", {
+          author_id: userA,
+          token: TOKEN,
+          page_size: 10,
+          page_num: 1,
+          filter_time: FIXTURE_END,
+        }),
+      ),
+    );
+    expect(data.totalPage).toBeGreaterThan(0);
+    expect(data.tweets.length).toBeGreaterThan(0);
+    expect(data.tweets.length).toBeLessThanOrEqual(10);
+    // 按发布时间倒序，且不晚于参考时间
+    data.tweets.forEach((tweet: { created: number }, index: number) => {
+      expect(tweet.created).toBeLessThanOrEqual(FIXTURE_END);
+      if (index > 0) {
+        expect(tweet.created).toBeLessThanOrEqual(
+          data.tweets[index - 1].created,
+        );
+      }
+    });
+  });
+
+  it("GET /api/tokens", async () => {
+    const all = await expectOk(await getTokens(get("/tokens", {})));
+    expect(all.map((token: { symbol: string }) => token.symbol).sort()).toEqual(
+      [...FIXTURE_TOKENS].sort(),
+    );
+
+    const filtered = await expectOk(
+      await getTokens(get("/tokens", { query: "et" })),
+    );
+    expect(filtered.map((token: { symbol: string }) => token.symbol)).toEqual([
+      "ETH",
+    ]);
+  });
+
+  it("GET /api/meta/data-range", async () => {
+    const data = await expectOk(
+      await getDataRange(get("/meta/data-range", { token: TOKEN })),
+    );
+    const created = scores
+      .filter((row) => row.label === TOKEN)
+      .map((row) => row.created);
+    expect(data).toEqual([
+      {
+        symbol: TOKEN,
+        min: Math.min(...created),
+        max: Math.max(...created),
+      },
+    ]);
+  });
+
+  it("GET /api/market/candles rejects ids and bars outside the allowed set", async () => {
+    const responses = await Promise.all([
+      getCandles(get("/market/candles", { instId: "../../etc/passwd" })),
+      getCandles(get("/market/candles", { instId: "BTC-USDT", bar: "../1D" })),
+    ]);
+    responses.forEach((response) => expect(response.status).toBe(400));
+  });
+});
+
+describe("analytics routes", () => {
+  it("POST /api/analytics/lead-lag pages through more than 100 daily candles", async () => {
+    // 录制的日线按 OKX 的单页上限截断，分析窗口超过 100 天时需要翻页
+    const previousProvider = getCandleProvider();
+    const pages: string[] = [];
+    setCandleProvider({
+      async getCandles(params) {
+        pages.push(params.after!);
+        const candles = await fileCandleProvider.getCandles(params);
+        return candles.slice(-100);
+      },
+    });
+    try {
+      const data = await expectOk(
+        await postLeadLag(
+          post("/analytics/lead-lag", {
+            token: TOKEN,
+            filter_time: FIXTURE_END,
+            user_ids: [userA, userB],
+            days: 250,
+          }),
+        ),
+      );
+      expect(pages.length).toBe(3);
+      // 只取截止时间之前已经收盘的日线
+      expect(pages[0]).toBe(String(FIXTURE_END - DAY_MS + 1));
+      expect(data.price_days).toBeGreaterThan(200);
+    } finally {
+      setCandleProvider(previousProvider);
+    }
+  });
+
+  it("POST /api/analytics/lead-lag reports no price days when the token has no candles", async () => {
+    const previousProvider = getCandleProvider();
+    setCandleProvider({
+      async getCandles() {
+        throw new Error("Instrument ID does not exist");
+      },
+    });
+    try {
+      const data = await expectOk(
+        await postLeadLag(
+          post("/analytics/lead-lag", {
+            token: TOKEN,
+            filter_time: FIXTURE_END,
+            user_ids: [userA, userB],
+          }),
+        ),
+      );
+      expect(data.price_days).toBe(0);
+      expect(
+        data.results
+          .map((result: { user_id: string }) => result.user_id)
+          .sort(),
+      ).toEqual([userA, userB].sort());
+      data.results.forEach((result: { best: unknown }) =>
+        expect(result.best).toBeNull(),
+      );
+    } finally {
+      setCandleProvider(previousProvider);
+    }
+  });
+});
+
+describe("preset routes", () => {
+  const KEY_A = "a".repeat(32);
+  const KEY_B = "b".repeat(32);
+  const storePath = path.join(os.tmpdir(), `presets-${process.pid}.json`);
+  const preset = {
+    name: "BTC maxis",
+    token: TOKEN,
+    filter_followers: 5000,
+    add_user_list: [userA],
+  };
+
+  beforeAll(() => {
+    process.env.PRESET_STORE_PATH = storePath;
+  });
+  afterAll(async () => {
+    delete process.env.PRESET_STORE_PATH;
+    await fs.rm(storePath, { force: true });
+  });
+
+  const withKey = (
+    path: string,
+    key: string | null,
+    init: { method?: string; body?: unknown } = {},
+  ) =>
+    new NextRequest(`${BASE_URL}${path}`, {
+      method: init.method ?? "GET",
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      headers: {
+        "Content-Type": "application/json",
+        ...(key ? { [PRESET_KEY_HEADER]: key } : {}),
+      },
+    });
+  const idParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  it("keeps each sync key's presets apart", async () => {
+    const created = await expectOk(
+      await postPreset(
+        withKey("/presets", KEY_A, { method: "POST", body: preset }),
+      ),
+    );
+    expect(
+      await expectOk(await getPresets(withKey("/presets", KEY_A))),
+    ).toEqual([created]);
+    expect(
+      await expectOk(await getPresets(withKey("/presets", KEY_B))),
+    ).toEqual([]);
+
+    // 其他密钥看不到、也改不了这个预设
+    const path = `/presets/${created.id}`;
+    const [updated, deleted] = await Promise.all([
+      putPreset(
+        withKey(path, KEY_B, {
+          method: "PUT",
+          body: { ...preset, token: "ETH" },
+        }),
+        idParams(created.id),
+      ),
+      deletePreset(
+        withKey(path, KEY_B, { method: "DELETE" }),
+        idParams(created.id),
+      ),
+    ]);
+    expect(updated.status).toBe(404);
+    expect(deleted.status).toBe(404);
+
+    // 同名导入只覆盖自己名下的预设
+    const [imported] = await expectOk(
+      await importPresets(
+        withKey("/presets/import", KEY_B, {
+          method: "POST",
+          body: [{ ...preset, token: "ETH" }],
+        }),
+      ),
+    );
+    expect(imported.id).not.toBe(created.id);
+    expect(
+      await expectOk(await getPresets(withKey("/presets", KEY_A))),
+    ).toEqual([created]);
+  });
+
+  it("rejects requests without a sync key", async () => {
+    const response = await getPresets(withKey("/presets", null));
+    const body = await response.json();
+    expect(response.status).toBe(400);
+    expect(body.errors[0].field).toBe(PRESET_KEY_HEADER);
+  });
+});
+
+// 连接真实 ClickHouse 时上面的用例已经走过客户端，无需再校验
+describe.skipIf(!!process.env.CK_HOST)("ClickHouse client", () => {
+  it("serializes the params of every query issued above", async () => {
+    // 本地 HTTP 服务代替 ClickHouse，记录客户端序列化后的 param_* 查询参数
+    const received: URLSearchParams[] = [];
+    const server = createServer((req, res) => {
+      received.push(new URL(req.url!, "http://localhost").searchParams);
+      req.resume().on("end", () => res.end(""));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    process.env.CK_HOST = "127.0.0.1";
+    process.env.CK_PORT = String((server.address() as AddressInfo).port);
+    try {
+      expect(issued.length).toBeGreaterThan(0);
+      for (const query of issued) {
+        await expect(
+          httpQueryBackend.query(query),
+          query.name,
+        ).resolves.toEqual([]);
+      }
+      expect(received).toHaveLength(issued.length);
+      issued.forEach(({ name, query }, index) =>
+        Array.from(query.matchAll(/\{(\w+):[^}]+\}/g)).forEach(([, key]) =>
+          expect(received[index].has(`param_${key}`), `${name}: ${key}`).toBe(
+            true,
+          ),
+        ),
+      );
+    } finally {
+      delete process.env.CK_HOST;
+      delete process.env.CK_PORT;
+      await getClickhouseClient().close();
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
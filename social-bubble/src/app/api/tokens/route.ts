@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+
+import { tokensRequestSchema } from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseSearchParams } from "@/lib/api/validate";
+import { getTokens } from "@/lib/tokens";
+
+/**
+ * GET /api/tokens
+ *
+ * 返回 user_graph_detail_score 中出现过的代币，附带记录数、时间覆盖范围和 K 线交易对。
+ * 接受参数：
+ *   - query （可选） 按代币名称模糊匹配，不区分大小写
+ *   - limit （可选） 返回数量，默认 200
+ */
+export async function GET(req: NextRequest) {
+  const parsed = parseSearchParams(req, tokensRequestSchema);
+  if (!parsed.success) return parsed.response;
+  const { query, limit } = parsed.data;
+
+  try {
+    const keyword = query.toUpperCase();
+    const tokens = (await getTokens())
+      .filter((token) => token.symbol.toUpperCase().includes(keyword))
+      .slice(0, limit);
+    return ok(tokens);
+  } catch (error: any) {
+    console.error("Fetch tokens failed:", error);
+    return failWith(error, "Query failed");
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest } from "next/server";
 
 import { KolTweet, TweetParams } from "@/types/graph";
-import { fail, ok } from "@/lib/api/response";
-import { queryClickhouse } from "@/lib/clickhouse/query";
+import { tweetRequestSchema } from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseJsonBody } from "@/lib/api/validate";
+import { ClickhouseQuery, queryClickhouse } from "@/lib/clickhouse/query";
 
-function buildTweetSQL(params: TweetParams, getCount = false) {
+function buildTweetSQL(params: TweetParams, getCount = false): ClickhouseQuery {
   const {
     author_id, // 必填：主用户 A
     label_id, // 可选：用户 B，与 A 的交互；为空时按 token 查询 A 自身数据
@@ -24,27 +26,42 @@ function buildTweetSQL(params: TweetParams, getCount = false) {
     label_id != null
       ? // A 与 B 的双向交互（object_type='user'）
         `(
-         (author_id = ${author_id} AND label_user_id = ${label_id})
-       OR (author_id = ${label_id}  AND label_user_id = ${author_id})
+         (author_id = {author_id:Int64} AND label_user_id = {label_id:Int64})
+       OR (author_id = {label_id:Int64}  AND label_user_id = {author_id:Int64})
        )
        AND object_type = 'user'`
       : // 仅 A 对 token 的所有操作
-        `author_id = ${author_id}
-       AND label = '${token.replace(/'/g, "''")}'`;
-      //  AND object_type != 'user'`; // 排除 user-object 情形，可按需调整
+        `author_id = {author_id:Int64}
+       AND label = {token:String}`;
+  //  AND object_type != 'user'`; // 排除 user-object 情形，可按需调整
+
+  const queryParams = {
+    author_id,
+    label_id,
+    token,
+    filter_time,
+    page_size,
+    offset,
+  };
 
   if (getCount) {
-    return `
+    return {
+      name: "tweet.count",
+      query: `
     SELECT
       COUNT(*) AS total
     FROM user_graph_detail_score
     WHERE
-      created <= ${filter_time}
+      created <= {filter_time:Int64}
       AND ${filterClause};
-      `;
+      `,
+      params: queryParams,
+    };
   }
 
-  return `
+  return {
+    name: "tweet.list",
+    query: `
 SELECT
   tweet_id,
   active_type,
@@ -58,52 +75,28 @@ SELECT
   bookmarked_count
 FROM user_graph_detail_score
 WHERE
-  created <= ${filter_time}
+  created <= {filter_time:Int64}
   AND ${filterClause}
 ORDER BY created DESC
-LIMIT ${page_size}
-OFFSET ${offset};
-`;
+LIMIT {page_size:UInt32}
+OFFSET {offset:UInt32};
+`,
+    params: queryParams,
+  };
 }
 
 export async function POST(req: NextRequest) {
-  const body = await req.json();
-  const {
-    author_id,
-    label_id = null,
-    token,
-    ttl = 30,
-    page_size,
-    page_num,
-    filter_time,
-  } = body;
-  const tweetSQL = buildTweetSQL({
-    author_id,
-    label_id,
-    token,
-    ttl,
-    page_size,
-    page_num,
-    filter_time,
-  });
-  const countSQL = buildTweetSQL(
-    {
-      author_id,
-      label_id,
-      token,
-      ttl,
-      page_size,
-      page_num,
-      filter_time,
-    },
-    true,
-  );
+  const parsed = await parseJsonBody(req, tweetRequestSchema);
+  if (!parsed.success) return parsed.response;
+  const params = parsed.data;
+  const tweetSQL = buildTweetSQL(params);
+  const countSQL = buildTweetSQL(params, true);
   try {
     const rawData = await queryClickhouse(tweetSQL);
     const queryResult = await queryClickhouse(countSQL);
     const totalPage =
       queryResult.length > 0
-        ? Math.ceil(Number(queryResult[0].total) / page_size)
+        ? Math.ceil(Number(queryResult[0].total) / params.page_size)
         : 0;
     const tweets: KolTweet[] = rawData.map((row: KolTweet) => ({
       ...row,
@@ -122,6 +115,6 @@ export async function POST(req: NextRequest) {
     });
   } catch (error: any) {
     console.error("查询失败:", error.message);
-    return fail("Query failed");
+    return failWith(error, "Query failed");
   }
 }
@@ -1,18 +1,19 @@
 import { NextRequest } from "next/server";
 
 import { KOL } from "@/types/kol";
-import { fail, ok } from "@/lib/api/response";
+import { userRequestSchema } from "@/lib/api/contracts";
+import { fail, failWith, ok } from "@/lib/api/response";
+import { parseSearchParams } from "@/lib/api/validate";
 import { queryClickhouse } from "@/lib/clickhouse/query";
 
 export async function GET(req: NextRequest) {
-  const { searchParams } = new URL(req.url);
-  const id = searchParams.get("id");
-  if (!id) {
-    return fail("Missing userId", 400);
-  }
+  const parsed = parseSearchParams(req, userRequestSchema);
+  if (!parsed.success) return parsed.response;
+  const { id } = parsed.data;
   try {
-    const data: KOL[] = await queryClickhouse(
-      `
+    const data = await queryClickhouse<KOL>({
+      name: "user.detail",
+      query: `
       SELECT 
         id,
         username,
@@ -31,11 +32,14 @@ export async function GET(req: NextRequest) {
       WHERE id = {id:Int64}
       LIMIT 1
     `,
-      { id },
-    );
+      params: { id },
+    });
+    if (data.length === 0) {
+      return fail("User not found", 404);
+    }
     return ok(data[0]);
   } catch (error: any) {
     console.error("查询失败:", error.message);
-    return fail("Query failed");
+    return failWith(error, "Query failed");
   }
 }
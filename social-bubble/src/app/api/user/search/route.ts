@@ -1,19 +1,21 @@
 import { NextRequest } from "next/server";
 
 import { SimpleKOL } from "@/types/kol";
-import { fail, ok } from "@/lib/api/response";
+import { userSearchRequestSchema } from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseSearchParams } from "@/lib/api/validate";
 import { queryClickhouse } from "@/lib/clickhouse/query";
 
 export async function GET(req: NextRequest) {
-  const { searchParams } = new URL(req.url);
-  const kw = searchParams.get("query")?.trim();
-  if (!kw) {
-    return fail("Missing search keyword", 400);
-  }
+  const parsed = parseSearchParams(req, userSearchRequestSchema);
+  if (!parsed.success) return parsed.response;
+  const kw = parsed.data.query;
 
   try {
-    const rawData: SimpleKOL[] = await queryClickhouse(
-      `
+    const rawData = await queryClickhouse<SimpleKOL>({
+      name: "user.search",
+      query: `
+      -- 关键词按子串匹配，不作为正则，避免 ( [ 等字符导致查询报错
       WITH
           {kw:String}          AS kw
       ,   lower({kw:String})   AS kw_lc
@@ -25,18 +27,18 @@ export async function GET(req: NextRequest) {
           followers
       FROM user_info
       WHERE
-           match(coalesce(username, ''), kw)
-        OR match(coalesce(name,     ''), kw)
+           position(coalesce(username, ''), kw) > 0
+        OR position(coalesce(name,     ''), kw) > 0
       ORDER BY
           (startsWith(lower(username), kw_lc)
         OR startsWith(lower(name),     kw_lc)) DESC,
-          (match(coalesce(username, ''), kw) * 2
-         + match(coalesce(name,     ''), kw) * 1)         DESC,
+          ((position(coalesce(username, ''), kw) > 0) * 2
+         + (position(coalesce(name,     ''), kw) > 0) * 1) DESC,
           followers                                        DESC
       LIMIT 50
       `,
-      { kw },
-    );
+      params: { kw },
+    });
     const data = rawData.map((row) => ({
       ...row,
       followers: Number(row.followers),
@@ -44,6 +46,6 @@ export async function GET(req: NextRequest) {
     return ok(data);
   } catch (error: any) {
     console.error("Search kol failed:", error);
-    return fail("Search kol failed");
+    return failWith(error, "Search kol failed");
   }
 }
@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+
+import type { SentimentPoint } from "@/types/kol";
+import { userSentimentSeriesRequestSchema } from "@/lib/api/contracts";
+import { failWith, ok } from "@/lib/api/response";
+import { parseSearchParams } from "@/lib/api/validate";
+import { queryClickhouse } from "@/lib/clickhouse/query";
+
+/**
+ * GET /api/user/sentiment-series
+ *
+ * 返回 KOL 在 filter_time 之前 days 天内对 token 的每日平均情绪（按 UTC 自然日聚合评论），
+ * 按时间升序，没有评论的日期不返回
+ */
+export async function GET(req: NextRequest) {
+  const parsed = parseSearchParams(req, userSentimentSeriesRequestSchema);
+  if (!parsed.success) return parsed.response;
+  const { id, token, filter_time, days } = parsed.data;
+
+  try {
+    const rows = await queryClickhouse<{
+      day: string;
+      score: number;
+      count: string;
+    }>({
+      name: "user.sentimentSeries",
+      query: `
+      SELECT
+        toUnixTimestamp(toStartOfDay(toDateTime(intDiv(created, 1000), 'UTC'))) * 1000 AS day,
+        avg(score)                                                                   AS score,
+        count()                                                                      AS count
+      FROM user_graph_detail_score
+      WHERE author_id = {id:Int64}
+        AND active_type = 'comment'
+        AND label = {token:String}
+        AND created <= {filter_time:Int64}
+        AND created > {filter_time:Int64} - {days:UInt32} * 86400000
+      GROUP BY day
+      ORDER BY day
+    `,
+      params: { id, token, filter_time, days },
+    });
+    return ok<SentimentPoint[]>(
+      rows.map((row) => ({
+        time: Number(row.day),
+        score: Number(row.score),
+        count: Number(row.count),
+      })),
+    );
+  } catch (error: any) {
+    console.error("查询情绪序列失败:", error.message);
+    return failWith(error, "Query failed");
+  }
+}
@@ -3,7 +3,11 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import dynamic from "next/dynamic";
 import { http } from "@/http/client";
-import { useKolStore } from "@/stores/kol-store";
+import {
+  selectGraphFilters,
+  useKolStore,
+  type KolState,
+} from "@/stores/kol-store";
 import debounce from "lodash.debounce";
 import {
   CandlestickChart as CandlestickChartIcon,
@@ -13,10 +17,16 @@ import {
 } from "lucide-react";
 
 import { CandleData, CandleRequestParams } from "@/types/candlestick";
-import type { ForceGraphHandle, GraphData } from "@/types/graph";
+import type { ForceGraphHandle, GraphData, GraphEgo } from "@/types/graph";
 import type { SimpleKOL } from "@/types/kol";
-import { calcChangePct } from "@/lib/market";
+import type { GraphEgoRequest, GraphRequest } from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
+import { mergeGraphData } from "@/lib/graph/merge";
+import { calcChangePct, instIdFor } from "@/lib/market";
 import { cn } from "@/lib/utils";
+import { useDataCoverage } from "@/hooks/use-data-coverage";
+import { BASE_FRAME_MS, useGraphPlayback } from "@/hooks/use-graph-playback";
+import { useUrlState } from "@/hooks/use-url-state";
 import { Button } from "@/components/ui/button";
 import {
   CandlestickChart,
@@ -24,6 +34,15 @@ import {
   KolInfo,
   KolListCard,
 } from "@/components/cards/index";
+import CommunityLegend from "@/components/graph/community-legend";
+import EgoBreadcrumbs from "@/components/graph/ego-breadcrumbs";
+import ExportMenu from "@/components/graph/export-menu";
+import GraphEmptyState from "@/components/graph/graph-empty-state";
+import LayoutPinToggle from "@/components/graph/layout-pin-toggle";
+import RendererToggle from "@/components/graph/renderer-toggle";
+import SizeBySelect from "@/components/graph/size-by-select";
+import PredictiveKols from "@/components/predictive-kols";
+import PresetMenu from "@/components/preset-menu";
 import { ThemeToggle } from "@/components/theme-toggle";
 import TokenSelector from "@/components/token-selector";
 import WelcomeOverlay from "@/components/welcome-overlay";
@@ -31,13 +50,45 @@ import WelcomeOverlay from "@/components/welcome-overlay";
 const ForceGraph = dynamic(() => import("@/components/graph/force-graph"), {
   ssr: false,
 });
+const WebGLForceGraph = dynamic(
+  () => import("@/components/graph/webgl-force-graph"),
+  { ssr: false },
+);
+
+/**
+ * 按参考时间所在日线的涨跌幅（%）推算正负情绪的采样比例，截断到 -1 ~ 1，取不到 K 线时返回 null
+ *
+ * @param state 发起请求时的筛选状态快照
+ */
+async function fetchDailyVolatility(state: KolState): Promise<number | null> {
+  const { tokens, selectedTokenSymbol, filterTime } = state;
+  if (!selectedTokenSymbol) return null;
+
+  const params: CandleRequestParams = {
+    instId: instIdFor(tokens, selectedTokenSymbol),
+    bar: "1D",
+    after: filterTime.toString(),
+    limit: "1",
+  };
+
+  try {
+    const candles = await http.get<CandleData[]>("/market/candles", params);
+    if (candles.length === 0) return null;
+    // 单日 K 线涨幅为百分比，换算为比例后限制在 -1 ~ 1
+    return Math.max(-1, Math.min(1, calcChangePct(candles[0]) / 100));
+  } catch (err) {
+    console.error("获取今日 K 线失败：", err);
+    toastError(err);
+    return null;
+  }
+}
 
 export default function IndexPage() {
   const [graphData, setGraphData] = useState<GraphData | null>(null);
   const [sortedUsers, setSortedUsers] = useState<SimpleKOL[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [graphError, setGraphError] = useState<unknown>(null);
   const [panelWidth, setPanelWidth] = useState(320);
-  const [volatility, setVolatility] = useState<number | null>(null);
   const [kolTargetMap, setKolTargetMap] = useState<Record<string, string[]>>(
     {},
   );
@@ -65,19 +116,47 @@ export default function IndexPage() {
     needRefresh,
     setNeedRefresh,
     selectedKol,
-    selectedTokenSymbol,
-    filterFollowers,
     filterTime,
     leftCardsOpen,
     candlestickChartOpen,
     setLeftCardsOpen,
     setCandlestickChartOpen,
+    hydrated,
+    isPlaying,
+    playbackSpeed,
+    linkWeights,
+    interactionTypes,
+    minLinkStrength,
+    rankBy,
+    ttl,
+    bubbleNum,
+    topRatio,
+    volatilityMode,
+    manualVolatility,
+    egoTrail,
+    egoDepth,
+    influencePath,
+    graphRenderer,
+    coverage,
+    filterFollowers,
     interestedKolIds,
     excludedKolIds,
-    hydrated,
   } = useKolStore();
+  // 邻域图模式下的中心 KOL
+  const egoKol = egoTrail[egoTrail.length - 1] ?? null;
 
   const graphRef = useRef<ForceGraphHandle>(null);
+  // 切换渲染器时重新挂载图谱，节点沿用当前坐标
+  const GraphView = graphRenderer === "webgl" ? WebGLForceGraph : ForceGraph;
+
+  // 影响路径上不在当前图中的节点和连线叠加到图上，以便高亮整条路径；播放时间轴时不叠加
+  const displayedGraph = useMemo(
+    () =>
+      graphData && influencePath && !isPlaying
+        ? mergeGraphData(graphData, influencePath)
+        : graphData,
+    [graphData, influencePath, isPlaying],
+  );
 
   const handleZoomIn = () => {
     const currentZoom = graphRef.current?.zoom();
@@ -90,99 +169,122 @@ export default function IndexPage() {
     if (currentZoom) graphRef.current?.zoom(currentZoom / 1.3, 200);
   };
 
-  const fetchDailyVolatility = useCallback(async (): Promise<number | null> => {
-    if (!selectedTokenSymbol) return null;
+  /**
+   * 更新图数据及其派生的 KOL 列表和可选目标映射
+   */
+  const applyGraphData = useCallback((data: GraphData) => {
+    const { nodes, links } = data;
+    const kols: SimpleKOL[] = [];
 
-    const params: CandleRequestParams = {
-      instId: `${selectedTokenSymbol}-USDT`,
-      bar: "1D",
-      after: filterTime.toString(),
-      limit: "1",
-    };
+    nodes.forEach((node) => {
+      kols.push({
+        id: node.id,
+        name: node.name,
+        username: node.username,
+        followers: node.followers,
+        score_metrics: node.score_metrics,
+        centrality: node.centrality,
+        bucket: node.bucket,
+      });
+    });
+
+    const newKolTargetMap: Record<string, string[]> = {};
+    links.forEach((link) => {
+      const sourceId = link.source as string;
+      const targetId = link.target as string;
+      if (link.source2target_score) {
+        if (!newKolTargetMap[sourceId]) {
+          newKolTargetMap[sourceId] = [];
+        }
+        if (!newKolTargetMap[sourceId].includes(targetId)) {
+          newKolTargetMap[sourceId].push(targetId);
+        }
+      }
+      if (link.target2source_score) {
+        if (!newKolTargetMap[targetId]) {
+          newKolTargetMap[targetId] = [];
+        }
+        if (!newKolTargetMap[targetId].includes(sourceId)) {
+          newKolTargetMap[targetId].push(sourceId);
+        }
+      }
+    });
+    setKolTargetMap(newKolTargetMap);
+
+    const sortedKols = kols.sort((a, b) => b.followers - a.followers);
 
-    try {
-      const res = await http.get<CandleData[]>("/market/candles", params);
-      const candles = res;
-      if (candles.length === 0) return null;
-
-      // 计算单日单组 k 线涨幅
-      const vol = calcChangePct(candles[0]);
-      setVolatility(vol);
-      return vol;
-    } catch (err) {
-      console.error("获取今日 K 线失败：", err);
-      return null;
-    }
-  }, [selectedTokenSymbol, filterTime]);
+    setSortedUsers(sortedKols);
+    setGraphData({
+      nodes,
+      links,
+      sampling: data.sampling,
+    });
+  }, []);
+
+  // 需先于 useDataCoverage 应用链接中的代币和时间
+  useUrlState(sortedUsers);
+  useDataCoverage();
+
+  // 播放时间轴时逐帧替换图数据
+  useGraphPlayback(applyGraphData);
 
   const getGraphData = useCallback(
     async (cb?: () => void) => {
-      if (!hydrated) return;
+      // 整个请求基于同一份状态快照构建，避免读到过期的闭包值
+      const state = useKolStore.getState();
+      // 数据时间范围返回前尚未确定参考时间
+      if (!state.hydrated || !state.filterTime) return;
       setIsLoading(true);
-      await fetchDailyVolatility();
-      http
-        .post<GraphData>("/graph", {
-          token: selectedTokenSymbol,
-          filter_followers: filterFollowers,
-          filter_time: filterTime,
-          add_user_list: interestedKolIds,
-          sub_user_list: excludedKolIds,
-          volatility: volatility,
-        })
-        .then((res) => {
-          const { nodes, links } = res;
-          const kols: SimpleKOL[] = [];
-
-          nodes.forEach((node) => {
-            kols.push({
-              id: node.id,
-              name: node.name,
-              username: node.username,
-              followers: node.followers,
-              score_metrics: node.score_metrics,
-            });
-          });
-
-          const newKolTargetMap: Record<string, string[]> = {};
-          links.forEach((link) => {
-            const sourceId = link.source as string;
-            const targetId = link.target as string;
-            if (link.source2target_score) {
-              if (!newKolTargetMap[sourceId]) {
-                newKolTargetMap[sourceId] = [];
-              }
-              if (!newKolTargetMap[sourceId].includes(targetId)) {
-                newKolTargetMap[sourceId].push(targetId);
+      const filters = selectGraphFilters(state);
+      if (state.volatilityMode === "candles") {
+        filters.volatility = await fetchDailyVolatility(state);
+        state.setDerivedVolatility(filters.volatility);
+      }
+      const egoCenter = state.egoTrail[state.egoTrail.length - 1];
+      const request = egoCenter
+        ? http
+            .post<GraphEgo>("/graph/ego", {
+              token: filters.token,
+              filter_time: state.filterTime,
+              ttl: filters.ttl,
+              top_ratio: filters.top_ratio,
+              user_id: egoCenter.id,
+              depth: state.egoDepth,
+              max_nodes: filters.bubble_num,
+              weights: filters.weights,
+              interaction_types: filters.interaction_types,
+              min_link_strength: filters.min_link_strength,
+              rank_by: filters.rank_by,
+            } satisfies GraphEgoRequest)
+            .then(({ center, nodes, links }) => {
+              // 将中心 KOL 固定在画布原点，邻居围绕其重新布局
+              const centerNode = nodes.find((node) => node.id === center);
+              if (centerNode) {
+                centerNode.fx = 0;
+                centerNode.fy = 0;
               }
-            }
-            if (link.target2source_score) {
-              if (!newKolTargetMap[targetId]) {
-                newKolTargetMap[targetId] = [];
-              }
-              if (!newKolTargetMap[targetId].includes(sourceId)) {
-                newKolTargetMap[targetId].push(sourceId);
-              }
-            }
-          });
-          setKolTargetMap(newKolTargetMap);
-
-          const sortedKols = kols.sort((a, b) => b.followers - a.followers);
-
-          setSortedUsers(sortedKols);
-          setGraphData({
-            nodes,
-            links,
-          });
+              return { nodes, links };
+            })
+        : http.post<GraphData>("/graph", {
+            ...filters,
+            filter_time: state.filterTime,
+          } satisfies GraphRequest);
+      request
+        .then((res) => {
+          applyGraphData(res);
+          setGraphError(null);
         })
         .catch((err) => {
           console.error("获取图谱数据失败:", err);
+          setGraphError(err);
+          toastError(err);
         })
         .finally(() => {
           setIsLoading(false);
           cb && cb();
         });
     },
-    [hydrated, fetchDailyVolatility],
+    [applyGraphData],
   );
 
   const debouncedGetGraphData = useMemo(() => {
@@ -195,13 +297,33 @@ export default function IndexPage() {
     };
   }, [debouncedGetGraphData]);
 
+  // 影响图谱的参数变化后自动刷新；播放时间轴时由 useGraphPlayback 逐帧更新。
+  // 连续变化（拖动滑块）由 debounce 合并为首尾两次请求，这里不能在每次变化时 cancel；
+  // 切换代币后等 coverage 返回、参考时间校正后再刷新
   useEffect(() => {
-    if (!hydrated) return;
+    if (!hydrated || isPlaying) return;
     debouncedGetGraphData();
-    return () => {
-      debouncedGetGraphData.cancel();
-    };
-  }, [hydrated, debouncedGetGraphData]);
+  }, [
+    hydrated,
+    isPlaying,
+    debouncedGetGraphData,
+    coverage,
+    filterTime,
+    filterFollowers,
+    interestedKolIds,
+    excludedKolIds,
+    ttl,
+    bubbleNum,
+    topRatio,
+    volatilityMode,
+    manualVolatility,
+    linkWeights,
+    interactionTypes,
+    minLinkStrength,
+    rankBy,
+    egoKol,
+    egoDepth,
+  ]);
 
   useEffect(() => {
     if (!needRefresh) return;
@@ -213,7 +335,11 @@ export default function IndexPage() {
   return (
     <div className="flex h-screen flex-col">
       <header className="relative flex h-16 items-center justify-between px-4 py-2">
-        <TokenSelector />
+        <div className="flex gap-2">
+          <TokenSelector />
+          <PresetMenu />
+          <PredictiveKols kols={sortedUsers} />
+        </div>
         <div className="flex gap-2">
           <WelcomeOverlay />
           <ThemeToggle />
@@ -221,14 +347,46 @@ export default function IndexPage() {
       </header>
 
       <div className="relative flex-1 overflow-hidden">
-        {graphData && (
-          <ForceGraph
+        {displayedGraph && (
+          <GraphView
             ref={graphRef}
-            key="graph"
-            nodes={graphData.nodes}
-            links={graphData.links}
+            key={graphRenderer}
+            nodes={displayedGraph.nodes}
+            links={displayedGraph.links}
+            transitionMs={
+              isPlaying
+                ? Math.min(600, (BASE_FRAME_MS / playbackSpeed) * 0.8)
+                : 0
+            }
+            stableLayout={isPlaying}
           />
         )}
+        {egoKol && (
+          <div className="absolute left-1/2 top-4 z-20 -translate-x-1/2">
+            <EgoBreadcrumbs />
+          </div>
+        )}
+        {graphData && graphData.nodes.length > 0 && (
+          <div className="absolute right-4 top-4 z-20 flex flex-col gap-2">
+            <SizeBySelect />
+            <RendererToggle
+              nodeCount={graphData.nodes.length}
+              linkCount={graphData.links.length}
+            />
+            {displayedGraph && <LayoutPinToggle nodes={displayedGraph.nodes} />}
+            <CommunityLegend nodes={graphData.nodes} />
+          </div>
+        )}
+        {/* 出错且没有可展示的图时显示错误状态，查询成功但为空时显示空状态 */}
+        {!isLoading &&
+          (graphError
+            ? !graphData?.nodes.length
+            : graphData?.nodes.length === 0) && (
+            <GraphEmptyState
+              error={graphError}
+              onRetry={() => getGraphData()}
+            />
+          )}
 
         {/* 左侧筛选与排名卡片 */}
         <div className="relative z-50">
@@ -259,6 +417,11 @@ export default function IndexPage() {
             >
               <CircleMinus />
             </Button>
+            <ExportMenu
+              graphRef={graphRef}
+              graph={displayedGraph}
+              kols={sortedUsers}
+            />
           </div>
           <div
             className={cn(
@@ -268,13 +431,14 @@ export default function IndexPage() {
           >
             {leftCardsOpen && (
               <div className="flex h-full flex-col space-y-4">
-                  <FilterCard
-                    kols={sortedUsers}
-                    isLoading={isLoading}
-                    onFilterChange={() => getGraphData()}
-                  />
-                  <div className="flex-1 overflow-hidden">
-                    <KolListCard kols={sortedUsers} />
+                <FilterCard
+                  kols={sortedUsers}
+                  sampling={graphData?.sampling}
+                  isLoading={isLoading}
+                  onFilterChange={() => getGraphData()}
+                />
+                <div className="flex-1 overflow-hidden">
+                  <KolListCard kols={sortedUsers} />
                 </div>
               </div>
             )}
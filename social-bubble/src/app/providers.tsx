@@ -8,6 +8,8 @@ import {
   type ThemeProviderProps as ProviderProps,
 } from "next-themes";
 
+import { Toaster } from "@/components/ui/sonner";
+
 export function Providers({ children, ...props }: ProviderProps) {
   const [queryClient] = useState(() => new QueryClient());
   return (
@@ -20,6 +22,7 @@ export function Providers({ children, ...props }: ProviderProps) {
         {...props}
       >
         {children}
+        <Toaster richColors closeButton />
       </ThemeProvider>
     </QueryClientProvider>
   );
@@ -19,6 +19,9 @@ import throttle from "lodash.throttle";
 import { useTheme } from "next-themes";
 
 import type { CandleData, CandleRequestParams } from "@/types/candlestick";
+import type { CandleBar } from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
+import { instIdFor } from "@/lib/market";
 import { cn } from "@/lib/utils";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
@@ -30,9 +33,12 @@ export default function CandlestickChart() {
   const seriesMarkersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
 
   const {
+    tokens,
     selectedTokenSymbol,
+    coverage,
     filterTime,
     needRefresh,
+    isPlaying,
     setFilterTime,
     setNeedRefresh,
   } = useKolStore();
@@ -44,15 +50,19 @@ export default function CandlestickChart() {
   const isLoadingMoreRef = useRef<boolean>(false); // 防止并发加载
 
   const instId = useMemo(
-    () => `${selectedTokenSymbol}-USDT`,
-    [selectedTokenSymbol],
+    () => instIdFor(tokens, selectedTokenSymbol),
+    [tokens, selectedTokenSymbol],
   );
 
-  const [bar, setBar] = useState("1H");
+  const [bar, setBar] = useState<CandleBar>("1H");
   const [loading, setLoading] = useState(false);
 
-  const minTimestampSec = useMemo(() => 1275095205000 / 1000, []); // 离线数据的最小毫秒时间戳
-  const maxTimestampSec = useMemo(() => 1743544033000 / 1000, []); // 离线数据的最大毫秒时间戳
+  // 加载范围限制在当前代币的数据时间范围内（秒级时间戳），滚动回调通过 ref 读取最新值
+  const boundsRef = useRef({ min: 0, max: Infinity });
+  boundsRef.current = {
+    min: coverage ? coverage.min / 1000 : 0,
+    max: coverage ? coverage.max / 1000 : Infinity,
+  };
 
   const fetchCandles = (params: CandleRequestParams): Promise<CandleData[]> =>
     http.get("/market/candles", params) as Promise<CandleData[]>;
@@ -81,7 +91,7 @@ export default function CandlestickChart() {
     },
   };
 
-  const intervalMap: Record<string, string> = {
+  const intervalMap: Partial<Record<CandleBar, string>> = {
     "1H": "1 hour",
     "1D": "1 day",
     "1W": "1 week",
@@ -147,7 +157,8 @@ export default function CandlestickChart() {
         const after = (earliestRef.current * 1000).toString();
         fetchCandles({ instId, bar, after })
           .then((more) => {
-            // 过滤掉所有 time < minTimestampSec
+            // 过滤掉所有早于数据下界的 K 线
+            const { min: minTimestampSec } = boundsRef.current;
             const filtered = more.filter((c) => c.time >= minTimestampSec);
             const combined = [...filtered, ...prev].sort(
               (a, b) => a.time - b.time,
@@ -179,13 +190,14 @@ export default function CandlestickChart() {
         total - logicalRange.to <= 10 &&
         !isLoadingMoreRef.current &&
         latestRef.current !== null &&
-        latestRef.current < maxTimestampSec
+        latestRef.current < boundsRef.current.max
       ) {
         isLoadingMoreRef.current = true;
         const before = (latestRef.current * 1000).toString();
         fetchCandles({ instId, bar, before })
           .then((more) => {
             // 过滤上界
+            const { max: maxTimestampSec } = boundsRef.current;
             const filtered = more.filter((c) => c.time <= maxTimestampSec);
             const combined = [...prev, ...filtered].sort(
               (a, b) => a.time - b.time,
@@ -242,7 +254,10 @@ export default function CandlestickChart() {
   const loadInitial = useCallback(async () => {
     setLoading(true);
     try {
-      const after = Math.min(maxTimestampSec * 1000, filterTime).toString();
+      const after = Math.min(
+        boundsRef.current.max * 1000,
+        filterTime || Date.now(),
+      ).toString();
       const data = await fetchCandles({ instId, bar, after });
       data.sort((a, b) => a.time - b.time);
       candlesRef.current = data;
@@ -255,13 +270,17 @@ export default function CandlestickChart() {
       }
     } catch (err) {
       console.error("加载初始数据失败:", err);
+      toastError(err);
     } finally {
       setLoading(false);
     }
   }, [instId, bar]);
 
   useEffect(() => {
-    if (needRefresh) {
+    // 播放时间轴时只移动标记，避免每帧重新请求 K 线
+    if (isPlaying) {
+      updateMarker((filterTime / 1000) as UTCTimestamp);
+    } else if (needRefresh) {
       setNeedRefresh(false);
     } else {
       loadInitial();
@@ -290,10 +309,10 @@ export default function CandlestickChart() {
         <ToggleGroup
           type="single"
           value={bar}
-          onValueChange={(v: string) => v && setBar(v)}
+          onValueChange={(v: string) => v && setBar(v as CandleBar)}
           className="rounded-full px-2 py-1"
         >
-          {Object.keys(intervalMap).map((k) => (
+          {(Object.keys(intervalMap) as CandleBar[]).map((k) => (
             <ToggleGroupItem
               key={k}
               value={k}
@@ -1,44 +1,40 @@
 "use client";
 
-import { use, useEffect, useMemo } from "react";
 import { useKolStore } from "@/stores/kol-store";
-import debounce from "lodash.debounce";
 import { Loader2 } from "lucide-react";
 
+import type { SamplingSummary } from "@/types/graph";
 import { SimpleKOL } from "@/types/kol";
 import { formatDigital } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
+import AdvancedSettings from "@/components/cards/filter/advanced-settings";
 import KolSearch from "@/components/cards/filter/kol-search";
+import SamplingBreakdown from "@/components/cards/filter/sampling-breakdown";
+import SamplingSettings from "@/components/cards/filter/sampling-settings";
 import TimeSlider from "@/components/cards/filter/time-slider";
 
 type SidebarProps = {
   kols: SimpleKOL[];
+  sampling?: SamplingSummary; // 当前图谱的采样明细，邻域图没有
   isLoading: boolean;
   onFilterChange: (cb?: () => void) => void;
 };
 
-const FilterCard = ({ kols, isLoading, onFilterChange }: SidebarProps) => {
+const FilterCard = ({
+  kols,
+  sampling,
+  isLoading,
+  onFilterChange,
+}: SidebarProps) => {
   const {
     filterFollowers,
-    setNeedRefresh,
     setFilterFollowers,
     filterChanged,
     setFilterChanged,
   } = useKolStore();
 
-  const debouncedRefresh = useMemo(
-    () => debounce(() => setNeedRefresh(true), 300),
-    [setNeedRefresh],
-  );
-
-  useEffect(() => {
-    return () => {
-      debouncedRefresh.cancel();
-    };
-  }, [debouncedRefresh]);
-
   return (
     <div className="relative">
       <Card>
@@ -59,13 +55,16 @@ const FilterCard = ({ kols, isLoading, onFilterChange }: SidebarProps) => {
                 max={100000}
                 step={1000}
                 onValueChange={(val) => {
-                  debouncedRefresh();
                   setFilterFollowers(val[0]);
                   setFilterChanged(true);
                 }}
               />
             </div>
             <TimeSlider />
+            {/* 采样与连线参数变化后由页面自动刷新图谱，这里只标记筛选已修改 */}
+            <SamplingSettings onChange={() => setFilterChanged(true)} />
+            {sampling && <SamplingBreakdown sampling={sampling} />}
+            <AdvancedSettings onChange={() => setFilterChanged(true)} />
             <Button
               disabled={!filterChanged || isLoading}
               onClick={() => {
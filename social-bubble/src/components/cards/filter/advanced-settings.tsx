@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { useKolStore } from "@/stores/kol-store";
+import { ChevronDown, ChevronLeft, RotateCcw } from "lucide-react";
+
+import {
+  INTERACTION_TYPES,
+  RANK_BY,
+  type InteractionType,
+  type RankBy,
+} from "@/lib/api/contracts";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Toggle } from "@/components/ui/toggle";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+const interactionLabels: Record<InteractionType, string> = {
+  comment: "Comment",
+  retweeted: "Retweet",
+  quoted: "Quote",
+  liked: "Like",
+  follow: "Follow",
+};
+
+const rankByLabels: Record<RankBy, string> = {
+  followers: "Followers",
+  influence: "Influence",
+  centrality: "Centrality",
+};
+
+const toggleClassName = cn(
+  "h-6 rounded-full px-2 text-xs text-muted-foreground",
+  "data-[state=on]:bg-[#1f1f1f] data-[state=on]:text-white dark:data-[state=on]:bg-[#333] dark:data-[state=on]:text-white",
+);
+
+type AdvancedSettingsProps = {
+  // 任一参数变化时回调
+  onChange: () => void;
+};
+
+/**
+ * 高级筛选：Top KOL 排序依据、各互动类型的权重、是否参与计算以及连线阈值
+ */
+export default function AdvancedSettings({ onChange }: AdvancedSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const {
+    linkWeights,
+    interactionTypes,
+    minLinkStrength,
+    setLinkWeight,
+    toggleInteractionType,
+    rankBy,
+    setMinLinkStrength,
+    resetLinkSettings,
+    setRankBy,
+  } = useKolStore();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-8 items-center justify-between">
+        <div className="text-sm">Advanced</div>
+        <div className="flex h-full gap-2">
+          {open && (
+            <Button
+              variant="ghost"
+              className="h-full w-8 p-0"
+              aria-label="Reset advanced settings"
+              onClick={() => {
+                resetLinkSettings();
+                onChange();
+              }}
+            >
+              <RotateCcw className="h-3 w-3" />
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            className="h-full w-4 text-xs"
+            onClick={() => setOpen((prev) => !prev)}
+          >
+            {open ? <ChevronDown /> : <ChevronLeft />}
+          </Button>
+        </div>
+      </div>
+      {open && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">Top by</span>
+            <ToggleGroup
+              type="single"
+              value={rankBy}
+              onValueChange={(value) => {
+                if (!value) return;
+                setRankBy(value as RankBy);
+                onChange();
+              }}
+            >
+              {RANK_BY.map((item) => (
+                <ToggleGroupItem
+                  key={item}
+                  value={item}
+                  className={toggleClassName}
+                >
+                  {rankByLabels[item]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          {INTERACTION_TYPES.map((type) => {
+            const enabled = interactionTypes.includes(type);
+            return (
+              <div key={type} className="flex items-center gap-2">
+                <Toggle
+                  size="sm"
+                  pressed={enabled}
+                  onPressedChange={() => {
+                    toggleInteractionType(type);
+                    onChange();
+                  }}
+                  className={cn(toggleClassName, "w-20 shrink-0")}
+                >
+                  {interactionLabels[type]}
+                </Toggle>
+                <Slider
+                  value={[linkWeights[type]]}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  disabled={!enabled}
+                  onValueChange={(val) => {
+                    setLinkWeight(type, val[0]);
+                    onChange();
+                  }}
+                />
+                <span className="w-8 shrink-0 text-right text-xs text-muted-foreground">
+                  {linkWeights[type].toFixed(2)}
+                </span>
+              </div>
+            );
+          })}
+          <div className="space-y-2">
+            <p className="text-sm">
+              Link strength
+              <span className="text-muted-foreground">
+                {" "}
+                &gt; {minLinkStrength}
+              </span>
+            </p>
+            <Slider
+              value={[minLinkStrength]}
+              min={0}
+              max={200}
+              step={5}
+              onValueChange={(val) => {
+                setMinLinkStrength(val[0]);
+                onChange();
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import debounce from "lodash.debounce";
 import { LoaderCircle, Search, X } from "lucide-react";
 
 import { SimpleKOL } from "@/types/kol";
+import type { UserSearchRequest } from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
 import { Input } from "@/components/ui/input";
 import { KolStateToggle } from "@/components/cards/filter/kol-state-toggle";
 
@@ -18,7 +20,6 @@ export default function KolSearch({ kols }: KolSearchProps) {
   const [isLoading, setIsLoading] = useState(false);
 
   const {
-    setNeedRefresh,
     setSelectedKol,
     interestedKolIds,
     excludedKolIds,
@@ -28,10 +29,6 @@ export default function KolSearch({ kols }: KolSearchProps) {
     removeExcludedKolId,
   } = useKolStore();
 
-  useEffect(() => {
-    setNeedRefresh(true);
-  }, [interestedKolIds]);
-
   const fetchSearchDebounced = useRef(
     debounce(async (q: string) => {
       if (!q.trim()) {
@@ -41,10 +38,13 @@ export default function KolSearch({ kols }: KolSearchProps) {
 
       setIsLoading(true);
       try {
-        const data = await http.get<SimpleKOL[]>("/user/search", { query: q });
+        const data = await http.get<SimpleKOL[]>("/user/search", {
+          query: q,
+        } satisfies UserSearchRequest);
         setSearchedKols(data);
       } catch (err) {
         console.error("Search failed", err);
+        toastError(err);
       } finally {
         setIsLoading(false);
       }
@@ -0,0 +1,74 @@
+"use client";
+
+import type { SamplingSummary } from "@/types/graph";
+import { SAMPLING_BUCKETS } from "@/lib/graph/sampling";
+import { formatDigital, SAMPLING_BUCKET_LABELS } from "@/lib/utils";
+
+type SamplingBreakdownProps = {
+  sampling: SamplingSummary;
+};
+
+/**
+ * 当前图谱的采样明细：各来源的入选数与配额，以及候选的筛选条件
+ */
+export default function SamplingBreakdown({
+  sampling,
+}: SamplingBreakdownProps) {
+  const { buckets, filter_followers, excluded, volatility } = sampling;
+  const visible = SAMPLING_BUCKETS.filter(
+    (bucket) => buckets[bucket].quota > 0 || buckets[bucket].count > 0,
+  );
+  const total = visible.reduce((sum, bucket) => sum + buckets[bucket].count, 0);
+
+  return (
+    <div className="space-y-1.5 text-xs">
+      <div className="flex h-1.5 overflow-hidden rounded-full bg-muted">
+        {total > 0 &&
+          visible.map((bucket) => (
+            <div
+              key={bucket}
+              style={{
+                width: `${(buckets[bucket].count / total) * 100}%`,
+                backgroundColor: SAMPLING_BUCKET_LABELS[bucket].color,
+              }}
+            />
+          ))}
+      </div>
+      <ul className="space-y-0.5">
+        {visible.map((bucket) => {
+          const { quota, count } = buckets[bucket];
+          const { label, description, color } = SAMPLING_BUCKET_LABELS[bucket];
+          return (
+            <li
+              key={bucket}
+              className="flex items-center gap-1.5"
+              title={description}
+            >
+              <span
+                className="h-2 w-2 shrink-0 rounded-full"
+                style={{ backgroundColor: color }}
+              />
+              <span className="flex-1">{label}</span>
+              {/* 候选不足时入选数小于配额 */}
+              {count < quota && (
+                <span className="text-muted-foreground">
+                  {quota - count} short ·
+                </span>
+              )}
+              <span className="tabular-nums">
+                {count}
+                <span className="text-muted-foreground">/{quota}</span>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      <p className="text-muted-foreground">
+        Followers ≥ {formatDigital(filter_followers, 0)}
+        {excluded > 0 && ` · ${excluded} excluded`} · volatility{" "}
+        {volatility > 0 ? "+" : ""}
+        {volatility.toFixed(2)}
+      </p>
+    </div>
+  );
+}
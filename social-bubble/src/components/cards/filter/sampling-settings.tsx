@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { useKolStore } from "@/stores/kol-store";
+import { ChevronDown, ChevronLeft } from "lucide-react";
+
+import type { VolatilityMode } from "@/types/graph";
+import { BUBBLE_NUM_RANGE, TTL_RANGE } from "@/lib/api/contracts";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+// 时间窗口滑块只覆盖常用区间，上限低于接口允许的最大值
+const TTL_SLIDER_MAX = 365;
+
+const volatilityModeLabels: Record<VolatilityMode, string> = {
+  candles: "From candles",
+  manual: "Manual",
+};
+
+const toggleClassName = cn(
+  "h-6 rounded-full px-2 text-xs text-muted-foreground",
+  "data-[state=on]:bg-[#1f1f1f] data-[state=on]:text-white dark:data-[state=on]:bg-[#333] dark:data-[state=on]:text-white",
+);
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+const formatVolatility = (value: number) =>
+  `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+
+type SamplingSettingsProps = {
+  // 任一参数变化时回调
+  onChange: () => void;
+};
+
+/**
+ * 采样设置：时间窗口、气泡总数、Top 样本比例，以及正负情绪采样比例（波动率）的来源
+ */
+export default function SamplingSettings({ onChange }: SamplingSettingsProps) {
+  const [open, setOpen] = useState(false);
+  // 拖动气泡数滑块时只更新显示，松开后再写入 store，避免每一步都重新拉取图谱
+  const [draftBubbleNum, setDraftBubbleNum] = useState<number | null>(null);
+  const {
+    ttl,
+    bubbleNum,
+    topRatio,
+    volatilityMode,
+    manualVolatility,
+    derivedVolatility,
+    setTtl,
+    setBubbleNum,
+    setTopRatio,
+    setVolatilityMode,
+    setManualVolatility,
+  } = useKolStore();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-8 items-center justify-between">
+        <div className="text-sm">Sampling</div>
+        <Button
+          variant="outline"
+          className="h-full w-4 text-xs"
+          onClick={() => setOpen((prev) => !prev)}
+        >
+          {open ? <ChevronDown /> : <ChevronLeft />}
+        </Button>
+      </div>
+      {open && (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <p className="text-sm">
+              Window
+              <span className="text-muted-foreground"> · {ttl} days</span>
+            </p>
+            <Slider
+              value={[clamp(ttl, TTL_RANGE[0], TTL_SLIDER_MAX)]}
+              min={TTL_RANGE[0]}
+              max={TTL_SLIDER_MAX}
+              step={1}
+              onValueChange={(val) => {
+                setTtl(val[0]);
+                onChange();
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm">
+              Bubbles
+              <span className="text-muted-foreground">
+                {" "}
+                · {draftBubbleNum ?? bubbleNum}
+              </span>
+            </p>
+            <Slider
+              value={[
+                clamp(
+                  draftBubbleNum ?? bubbleNum,
+                  BUBBLE_NUM_RANGE[0],
+                  BUBBLE_NUM_RANGE[1],
+                ),
+              ]}
+              min={BUBBLE_NUM_RANGE[0]}
+              max={BUBBLE_NUM_RANGE[1]}
+              step={1}
+              onValueChange={(val) => setDraftBubbleNum(val[0])}
+              onValueCommit={(val) => {
+                setDraftBubbleNum(null);
+                setBubbleNum(val[0]);
+                onChange();
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm">
+              Top KOLs
+              <span className="text-muted-foreground">
+                {" "}
+                · {Math.round(topRatio * 100)}%
+              </span>
+            </p>
+            <Slider
+              value={[topRatio]}
+              min={0}
+              max={1}
+              step={0.05}
+              onValueChange={(val) => {
+                setTopRatio(val[0]);
+                onChange();
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm">Volatility</span>
+              <ToggleGroup
+                type="single"
+                value={volatilityMode}
+                onValueChange={(value) => {
+                  if (!value) return;
+                  setVolatilityMode(value as VolatilityMode);
+                  onChange();
+                }}
+              >
+                {(Object.keys(volatilityModeLabels) as VolatilityMode[]).map(
+                  (mode) => (
+                    <ToggleGroupItem
+                      key={mode}
+                      value={mode}
+                      className={toggleClassName}
+                    >
+                      {volatilityModeLabels[mode]}
+                    </ToggleGroupItem>
+                  ),
+                )}
+              </ToggleGroup>
+            </div>
+            {volatilityMode === "manual" ? (
+              <div className="flex items-center gap-2">
+                <Slider
+                  value={[manualVolatility]}
+                  min={-1}
+                  max={1}
+                  step={0.05}
+                  onValueChange={(val) => {
+                    setManualVolatility(val[0]);
+                    onChange();
+                  }}
+                />
+                <span className="w-10 shrink-0 text-right text-xs text-muted-foreground">
+                  {formatVolatility(manualVolatility)}
+                </span>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {derivedVolatility === null
+                  ? "No daily candle, sampling evenly"
+                  : `Daily change ${formatVolatility(derivedVolatility)}`}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Splits the non-top bubbles: -1 all bearish, +1 all bullish.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,18 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { useKolStore } from "@/stores/kol-store";
 import dayjs from "dayjs";
-import debounce from "lodash.debounce";
-import { ChevronDown, ChevronLeft } from "lucide-react";
+import { ChevronDown, ChevronLeft, Pause, Play, Repeat } from "lucide-react";
 
+import type { TimeGranularity } from "@/types/graph";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 
-type Granularity = "day" | "month" | "year";
+type Granularity = TimeGranularity;
 
 const maxByGranularity: Record<Granularity, number> = {
   day: 100,
@@ -20,16 +20,46 @@ const maxByGranularity: Record<Granularity, number> = {
   year: 10,
 };
 
+const playbackSpeeds = [0.5, 1, 2, 4];
+
 export default function TimeSlider() {
-  const [granularity, setGranularity] = useState<Granularity>("day");
-  const max = maxByGranularity["day"];
+  const {
+    timeGranularity: granularity,
+    setTimeGranularity: setGranularity,
+    coverage,
+  } = useKolStore();
+  // 数据时间范围返回前以打开页面的时间为上界
+  const [now] = useState(() => Date.now());
+  const minTimestamp = coverage?.min ?? 0;
+  const maxTimestamp = coverage?.max ?? now;
+  // 滑块步数不超过数据覆盖的范围
+  const stepsFor = (unit: Granularity) =>
+    coverage
+      ? Math.max(
+          1,
+          Math.min(
+            maxByGranularity[unit],
+            Math.ceil(dayjs(coverage.max).diff(coverage.min, unit, true)),
+          ),
+        )
+      : maxByGranularity[unit];
+  const max = stepsFor(granularity);
   const [sliderValue, setSliderValue] = useState(max);
-  // const [dateTime, setDateTime] = useState(dayjs().format("YYYY-MM-DDTHH:00"));
-  const maxTimestamp = 1743544033000; // 离线数据的最大时间戳
   const [dateTime, setDateTime] = useState(
     dayjs(maxTimestamp).format("YYYY-MM-DDTHH:00"),
   );
-  const { setNeedRefresh, setFilterTime, setFilterChanged } = useKolStore();
+  const {
+    filterTime,
+    isPlaying,
+    playbackSpeed,
+    playbackLoop,
+    setFilterTime,
+    setFilterChanged,
+    setTimeRange,
+    setIsPlaying,
+    setPlaybackSpeed,
+    setPlaybackLoop,
+  } = useKolStore();
   const [showGranularityOptions, setShowGranularityOptions] = useState(false);
   const granularities = [
     { value: "day", label: "Day" },
@@ -37,26 +67,33 @@ export default function TimeSlider() {
     { value: "year", label: "Year" },
   ];
 
-  // 使用 ref 保证只在首次渲染时创建 debounce 函数
-  const debouncedRefresh = useRef(
-    debounce(() => {
-      setNeedRefresh(true);
-    }, 300),
-  ).current;
-
-  // 卸载时取消未执行的 debounce 调用
+  // 同步播放范围：当前粒度下滑块的起点到最大时间戳
+  useEffect(() => {
+    setTimeRange([
+      Math.max(
+        minTimestamp,
+        dayjs(maxTimestamp).subtract(max, granularity).valueOf(),
+      ),
+      maxTimestamp,
+    ]);
+  }, [granularity, max, minTimestamp, maxTimestamp, setTimeRange]);
+
+  // 由 filterTime 反推滑块位置和输入框时间，覆盖播放和数据范围加载后的定位
   useEffect(() => {
-    return () => {
-      debouncedRefresh.cancel();
-    };
-  }, [debouncedRefresh]);
+    if (!filterTime) return;
+    const steps = dayjs(maxTimestamp).diff(dayjs(filterTime), granularity);
+    setSliderValue(Math.max(0, max - steps));
+    setDateTime(dayjs(filterTime).format("YYYY-MM-DDTHH:ss"));
+  }, [filterTime, granularity, max, maxTimestamp]);
+
+  // 暂停后由页面按最终时间点重新拉取完整图谱
+  const togglePlaying = () => setIsPlaying(!isPlaying);
 
   const handleSliderChange = (value: number[]): void => {
+    setIsPlaying(false);
     const newValue = value[0];
     setSliderValue(newValue);
     const unit = granularity;
-    const max = maxByGranularity[granularity];
-    // const newDate = dayjs().subtract(max - newValue, unit);
     const newDate = dayjs(maxTimestamp).subtract(max - newValue, unit);
     setDateTime(newDate.format("YYYY-MM-DDTHH:ss"));
     setFilterTime(newDate.valueOf());
@@ -68,8 +105,9 @@ export default function TimeSlider() {
 
     const newTime = dayjs(inputValue).valueOf();
 
-    // 限制不能超过最大时间戳
-    const cappedTime = Math.min(newTime, maxTimestamp);
+    // 限制在数据时间范围内
+    const cappedTime = Math.max(minTimestamp, Math.min(newTime, maxTimestamp));
+    setIsPlaying(false);
     setDateTime(dayjs(cappedTime).format("YYYY-MM-DDTHH:ss"));
 
     setFilterTime(cappedTime);
@@ -77,11 +115,9 @@ export default function TimeSlider() {
   };
 
   const handleGranularityChange = (value: Granularity): void => {
-    const max = maxByGranularity[value];
+    setIsPlaying(false);
     setGranularity(value);
-    setSliderValue(max);
-    // setDateTime(dayjs().format("YYYY-MM-DDTHH:ss"));
-    // setFilterTime(dayjs().valueOf());
+    setSliderValue(stepsFor(value));
     setDateTime(dayjs(maxTimestamp).format("YYYY-MM-DDTHH:ss"));
     setFilterTime(maxTimestamp);
   };
@@ -131,18 +167,52 @@ export default function TimeSlider() {
               </ToggleGroupItem>
             ))}
           </ToggleGroup>
+          <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+            <span>Playback</span>
+            <div className="flex gap-1">
+              {playbackSpeeds.map((speed) => (
+                <Button
+                  key={speed}
+                  variant={speed === playbackSpeed ? "secondary" : "ghost"}
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setPlaybackSpeed(speed)}
+                >
+                  {speed}x
+                </Button>
+              ))}
+              <Button
+                variant={playbackLoop ? "secondary" : "ghost"}
+                className="h-6 w-6 p-0"
+                aria-label="Loop playback"
+                onClick={() => setPlaybackLoop(!playbackLoop)}
+              >
+                <Repeat className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
         </div>
       )}
 
-      <Slider
-        value={[sliderValue]}
-        onValueChange={(val) => {
-          debouncedRefresh();
-          handleSliderChange(val);
-        }}
-        max={maxByGranularity[granularity]}
-        step={1}
-      />
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          className="h-6 w-6 shrink-0 p-0"
+          aria-label={isPlaying ? "Pause" : "Play"}
+          onClick={togglePlaying}
+        >
+          {isPlaying ? (
+            <Pause className="h-3 w-3" />
+          ) : (
+            <Play className="h-3 w-3" />
+          )}
+        </Button>
+        <Slider
+          value={[sliderValue]}
+          onValueChange={handleSliderChange}
+          max={max}
+          step={1}
+        />
+      </div>
     </div>
   );
 }
@@ -11,6 +11,7 @@ import {
   Heart,
   MessageCircle,
   Minus,
+  Network,
   Plus,
   Repeat2,
   X,
@@ -18,11 +19,14 @@ import {
 
 import { KolTweet, KolTweetRaw } from "@/types/graph";
 import { SimpleKOL } from "@/types/kol";
+import type { TweetRequest } from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
 import { formatDigital } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
+import KolPathFinder from "@/components/cards/kol-path-finder";
 import KolProfileCard from "@/components/cards/kol-profile-card";
 
 interface KolInfoProps {
@@ -45,6 +49,7 @@ export default function KolInfo({ kols, kolTargetMap }: KolInfoProps) {
     setTargetKol,
     setTargetHoveredKol,
     setShowLess,
+    enterEgo,
   } = useKolStore();
   const lastSourceKolIdRef = useRef<string | null>(null);
   const lastTargetKolIdRef = useRef<string | null>(null);
@@ -60,11 +65,15 @@ export default function KolInfo({ kols, kolTargetMap }: KolInfoProps) {
         page_num: pageNum,
         page_size: 10,
         filter_time: filterTime,
-      })
+      } satisfies TweetRequest)
       .then((data) => {
         setTotalPage(data.totalPage);
         setTweets(data.tweets);
       })
+      .catch((err) => {
+        setTweets([]);
+        toastError(err);
+      })
       .finally(() => {
         setLoading(false);
       });
@@ -90,6 +99,16 @@ export default function KolInfo({ kols, kolTargetMap }: KolInfoProps) {
   return (
     <Card className="flex h-full flex-col">
       <div className="absolute right-1 top-1 flex gap-1">
+        <Button
+          variant="outline"
+          disabled={!selectedKol}
+          onClick={() => selectedKol && enterEgo(selectedKol)}
+          className="h-8 w-8 rounded-full p-0"
+          aria-label="Explore network"
+          title="Explore network"
+        >
+          <Network />
+        </Button>
         <Button
           variant="outline"
           onClick={() => setShowLess(!showLess)}
@@ -119,6 +138,8 @@ export default function KolInfo({ kols, kolTargetMap }: KolInfoProps) {
             isSource={true}
           />
         )}
+        <Separator />
+        <KolPathFinder />
         {targetKol && (
           <>
             <Separator />
@@ -1,23 +1,67 @@
+import { useMemo } from "react";
 import { useKolStore } from "@/stores/kol-store";
 
+import type { CentralityMetric, NodeSizeBy } from "@/types/graph";
 import { SimpleKOL } from "@/types/kol";
-import { formatDigital } from "@/lib/utils";
+import {
+  CENTRALITY_LABELS,
+  formatCentrality,
+  formatDigital,
+  sortKols,
+} from "@/lib/utils";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 interface UserListCardProps {
   kols: SimpleKOL[];
 }
 
+// 列表排序依据，与节点大小的可选项相同
+type SortBy = NodeSizeBy;
+
 export default function UserListCard({ kols }: UserListCardProps) {
-  const { setSelectedKol } = useKolStore();
+  const {
+    setSelectedKol,
+    kolListSortBy: sortBy,
+    setKolListSortBy: setSortBy,
+  } = useKolStore();
+
+  const sortedKols = useMemo(() => sortKols(kols, sortBy), [kols, sortBy]);
 
   return (
-    <Card>
-      <CardContent>
+    <Card className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 px-6 pt-4 text-sm">
+        <span className="text-muted-foreground">Sort by</span>
+        <Select value={sortBy} onValueChange={(v: SortBy) => setSortBy(v)}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectItem value="followers">Followers</SelectItem>
+              {(Object.keys(CENTRALITY_LABELS) as CentralityMetric[]).map(
+                (metric) => (
+                  <SelectItem key={metric} value={metric}>
+                    {CENTRALITY_LABELS[metric]}
+                  </SelectItem>
+                ),
+              )}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </div>
+      <CardContent className="min-h-0 flex-1">
         <ScrollArea className="h-full pr-2 pt-4">
           <div className="cursor-pointer space-y-2">
-            {kols.map((kol) => (
+            {sortedKols.map((kol) => (
               <div
                 key={kol.id}
                 className={`flex items-center justify-between rounded px-3 py-2 transition-colors hover:bg-gray-100 dark:hover:bg-gray-800`}
@@ -30,7 +74,9 @@ export default function UserListCard({ kols }: UserListCardProps) {
                   </span>
                 </div>
                 <span className="flex w-[60px] justify-end text-sm text-muted-foreground">
-                  {formatDigital(kol.followers)}
+                  {sortBy === "followers"
+                    ? formatDigital(kol.followers)
+                    : formatCentrality(sortBy, kol.centrality?.[sortBy] ?? 0)}
                 </span>
               </div>
             ))}
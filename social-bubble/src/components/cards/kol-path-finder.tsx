@@ -0,0 +1,350 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { http } from "@/http/client";
+import { useKolStore } from "@/stores/kol-store";
+import { format } from "date-fns";
+import debounce from "lodash.debounce";
+import {
+  ChevronDown,
+  ChevronRight,
+  LoaderCircle,
+  Route,
+  Search,
+  X,
+} from "lucide-react";
+
+import type {
+  GraphNode,
+  GraphPath,
+  KolTweet,
+  KolTweetRaw,
+} from "@/types/graph";
+import { SimpleKOL } from "@/types/kol";
+import type {
+  GraphPathRequest,
+  TweetRequest,
+  UserSearchRequest,
+} from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
+import { cn, formatDigital } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+// 每跳展示的互动推文数
+const HOP_TWEETS = 3;
+// 影响路径的最大跳数
+const MAX_HOPS = 4;
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+interface PathHopProps {
+  from: GraphNode | undefined;
+  to: GraphNode | undefined;
+  fromId: string;
+  toId: string;
+  strength: number;
+}
+
+/**
+ * 路径上的一跳，展开后通过 /api/tweet 的双人查询列出构成这一跳的互动推文
+ */
+function PathHop({ from, to, fromId, toId, strength }: PathHopProps) {
+  const { selectedTokenSymbol, filterTime, ttl } = useKolStore();
+  const [open, setOpen] = useState(false);
+  const [tweets, setTweets] = useState<KolTweet[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // 首次展开时加载推文
+  const toggle = () => {
+    setOpen(!open);
+    if (open || tweets) return;
+    setLoading(true);
+    http
+      .post<KolTweetRaw>("/tweet", {
+        author_id: fromId,
+        label_id: toId,
+        token: selectedTokenSymbol,
+        ttl,
+        page_num: 1,
+        page_size: HOP_TWEETS,
+        filter_time: filterTime,
+      } satisfies TweetRequest)
+      .then((data) => setTweets(data.tweets))
+      .catch((err) => {
+        setTweets([]);
+        toastError(err);
+      })
+      .finally(() => setLoading(false));
+  };
+
+  return (
+    <li className="rounded-md border">
+      <button
+        className="flex w-full items-center gap-1 px-2 py-1.5 text-left text-xs"
+        onClick={toggle}
+      >
+        {open ? (
+          <ChevronDown className="h-3 w-3 shrink-0" />
+        ) : (
+          <ChevronRight className="h-3 w-3 shrink-0" />
+        )}
+        <span className="w-0 flex-1 truncate">
+          @{from?.username ?? fromId} ↔ @{to?.username ?? toId}
+        </span>
+        <span className="text-muted-foreground">{formatDigital(strength)}</span>
+      </button>
+      {open && (
+        <div className="space-y-1 px-2 pb-2">
+          {loading ? (
+            <Skeleton className="h-10 w-full" />
+          ) : tweets && tweets.length > 0 ? (
+            tweets.map((tweet) => (
+              <div key={tweet.tweet_id} className="rounded bg-muted p-2">
+                <p className="line-clamp-3 text-xs">{tweet.text}</p>
+                <span className="text-[10px] text-muted-foreground">
+                  {format(Number(tweet.created), "yyyy-MM-dd HH:mm")}
+                </span>
+              </div>
+            ))
+          ) : (
+            <p className="text-xs text-muted-foreground">No tweets.</p>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * 查找选中 KOL 与任意 KOL 之间的影响路径，在图上高亮并逐跳列出互动推文
+ */
+export default function KolPathFinder() {
+  const {
+    selectedKol,
+    selectedTokenSymbol,
+    filterTime,
+    ttl,
+    linkWeights,
+    interactionTypes,
+    minLinkStrength,
+    influencePath,
+    activePathIndex,
+    setInfluencePath,
+    setActivePathIndex,
+  } = useKolStore();
+  const [query, setQuery] = useState("");
+  const [searchedKols, setSearchedKols] = useState<SimpleKOL[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  // 每次发起查询或切换起点时递增，丢弃过期的路径响应
+  const pathRequestRef = useRef(0);
+
+  const fetchSearchDebounced = useMemo(
+    () =>
+      debounce(async (q: string) => {
+        if (!q.trim()) {
+          setSearchedKols([]);
+          return;
+        }
+        setIsSearching(true);
+        try {
+          const data = await http.get<SimpleKOL[]>("/user/search", {
+            query: q,
+          } satisfies UserSearchRequest);
+          setSearchedKols(data);
+        } catch (err) {
+          console.error("Search failed", err);
+          toastError(err);
+        } finally {
+          setIsSearching(false);
+        }
+      }, 300),
+    [],
+  );
+
+  useEffect(() => {
+    return () => {
+      fetchSearchDebounced.cancel();
+    };
+  }, [fetchSearchDebounced]);
+
+  useEffect(() => {
+    fetchSearchDebounced(query);
+  }, [fetchSearchDebounced, query]);
+
+  useEffect(() => {
+    pathRequestRef.current += 1;
+    setLoading(false);
+  }, [selectedKol?.id]);
+
+  if (!selectedKol) return null;
+
+  const findPath = (target: SimpleKOL) => {
+    setQuery("");
+    setLoading(true);
+    const request = ++pathRequestRef.current;
+    const isStale = () => request !== pathRequestRef.current;
+    http
+      .post<GraphPath>("/graph/path", {
+        token: selectedTokenSymbol,
+        filter_time: filterTime,
+        ttl,
+        source_id: selectedKol.id,
+        target_id: target.id,
+        max_hops: MAX_HOPS,
+        weights: linkWeights,
+        interaction_types: interactionTypes,
+        min_link_strength: minLinkStrength,
+      } satisfies GraphPathRequest)
+      .then((path) => {
+        if (!isStale()) setInfluencePath(path);
+      })
+      .catch((err) => {
+        if (isStale()) return;
+        console.error("查询影响路径失败:", err);
+        toastError(err);
+      })
+      .finally(() => {
+        if (!isStale()) setLoading(false);
+      });
+  };
+
+  const nodeMap = new Map(
+    (influencePath?.nodes ?? []).map((node) => [node.id, node]),
+  );
+  const targetNode = influencePath && nodeMap.get(influencePath.target);
+  const activePath = influencePath?.paths[activePathIndex];
+  const strengthOf = new Map(
+    (influencePath?.links ?? []).map((link) => {
+      const sourceId =
+        typeof link.source === "string" ? link.source : link.source.id;
+      const targetId =
+        typeof link.target === "string" ? link.target : link.target.id;
+      return [
+        pairKey(sourceId, targetId),
+        Math.abs(link.source2target_score || 0) +
+          Math.abs(link.target2source_score || 0),
+      ];
+    }),
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <Route className="h-4 w-4 text-muted-foreground" />
+        <span className="flex-1 truncate font-medium">
+          {targetNode ? `Connection to @${targetNode.username}` : "Find path"}
+        </span>
+        {influencePath && (
+          <Button
+            variant="ghost"
+            className="h-6 w-6 rounded-full p-0"
+            onClick={() => setInfluencePath(null)}
+            aria-label="Clear path"
+          >
+            <X />
+          </Button>
+        )}
+      </div>
+
+      <div className="relative">
+        <div className="absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground">
+          {isSearching || loading ? (
+            <LoaderCircle className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <Search className="h-3.5 w-3.5" />
+          )}
+        </div>
+        <Input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="How is this KOL connected to..."
+          className="h-8 pl-8 text-xs"
+        />
+        {query.length > 0 && !isSearching && (
+          <div className="absolute top-full z-50 mt-1 max-h-48 w-full overflow-auto rounded-md border bg-popover shadow-md">
+            {searchedKols.filter((kol) => kol.id !== selectedKol.id).length ===
+            0 ? (
+              <div className="p-2 text-center text-xs text-muted-foreground">
+                No results found.
+              </div>
+            ) : (
+              searchedKols
+                .filter((kol) => kol.id !== selectedKol.id)
+                .map((kol) => (
+                  <button
+                    key={kol.id}
+                    className="flex w-full flex-col px-3 py-1.5 text-left hover:bg-gray-100 dark:hover:bg-gray-800"
+                    onClick={() => findPath(kol)}
+                  >
+                    <span className="truncate text-xs font-medium">
+                      {kol.name}
+                    </span>
+                    <span className="text-[10px] text-muted-foreground">
+                      @{kol.username}
+                    </span>
+                  </button>
+                ))
+            )}
+          </div>
+        )}
+      </div>
+
+      {influencePath &&
+        (influencePath.paths.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No connection within {MAX_HOPS} hops.
+          </p>
+        ) : (
+          <div className="max-h-64 space-y-2 overflow-y-auto">
+            {influencePath.paths.length > 1 && (
+              <ToggleGroup
+                type="single"
+                value={String(activePathIndex)}
+                onValueChange={(value) =>
+                  value && setActivePathIndex(Number(value))
+                }
+                className="justify-start"
+              >
+                {influencePath.paths.map((path, index) => (
+                  <ToggleGroupItem
+                    key={index}
+                    value={String(index)}
+                    className={cn(
+                      "h-6 rounded-full px-2 text-xs text-muted-foreground",
+                      "data-[state=on]:bg-[#1f1f1f] data-[state=on]:text-white dark:data-[state=on]:bg-[#333] dark:data-[state=on]:text-white",
+                    )}
+                  >
+                    {path.node_ids.length - 1} hop
+                    {path.node_ids.length > 2 ? "s" : ""}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            )}
+            {activePath && (
+              <ul className="space-y-1">
+                {activePath.node_ids.slice(1).map((id, index) => {
+                  const fromId = activePath.node_ids[index];
+                  return (
+                    <PathHop
+                      key={`${selectedTokenSymbol}-${fromId}-${id}`}
+                      from={nodeMap.get(fromId)}
+                      to={nodeMap.get(id)}
+                      fromId={fromId}
+                      toId={id}
+                      strength={strengthOf.get(pairKey(fromId, id)) ?? 0}
+                    />
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
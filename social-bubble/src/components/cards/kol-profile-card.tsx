@@ -3,8 +3,17 @@ import { http } from "@/http/client";
 import { useKolStore } from "@/stores/kol-store";
 import { BadgeCheck, ShieldCheck } from "lucide-react";
 
+import type { CentralityMetric } from "@/types/graph";
 import { KOL, SimpleKOL } from "@/types/kol";
-import { formatDigital, score2color } from "@/lib/utils";
+import type { UserRequest } from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
+import {
+  CENTRALITY_LABELS,
+  formatCentrality,
+  formatDigital,
+  SAMPLING_BUCKET_LABELS,
+  score2color,
+} from "@/lib/utils";
 import {
   Select,
   SelectContent,
@@ -14,6 +23,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import KolSentimentChart from "@/components/cards/kol-sentiment-chart";
 
 interface KolProfileCardProps {
   kol: SimpleKOL;
@@ -61,8 +71,12 @@ export default function KolProfileCard({
   useEffect(() => {
     setLoading(true);
     http
-      .get<KOL>("/user", { id: kol.id })
+      .get<KOL>("/user", { id: kol.id } satisfies UserRequest)
       .then(setKolInfo)
+      .catch((err) => {
+        setKolInfo(null);
+        toastError(err);
+      })
       .finally(() => {
         setLoading(false);
       });
@@ -80,6 +94,11 @@ export default function KolProfileCard({
 
   if (!kolInfo) return null;
 
+  // 选中的 KOL 可能来自上一次的图数据，中心性以当前图谱为准
+  const graphKol = kols.find((item) => item.id === kol.id);
+  const centrality = graphKol?.centrality;
+  const bucket = graphKol?.bucket && SAMPLING_BUCKET_LABELS[graphKol.bucket];
+
   return (
     <div className="space-y-2">
       <div className="flex h-11">
@@ -90,8 +109,20 @@ export default function KolProfileCard({
               <VerifiedBadge type={kolInfo.verified_type} />
             </div>
           </div>
-          <div className="truncate text-sm text-muted-foreground">
-            <span>@{kolInfo.username}</span>
+          <div className="flex items-center gap-2 truncate text-sm text-muted-foreground">
+            <span className="truncate">@{kolInfo.username}</span>
+            {bucket && (
+              <span
+                className="flex shrink-0 items-center gap-1 text-xs"
+                title={bucket.description}
+              >
+                <span
+                  className="h-1.5 w-1.5 rounded-full"
+                  style={{ backgroundColor: bucket.color }}
+                />
+                {bucket.label}
+              </span>
+            )}
           </div>
         </div>
         <div
@@ -133,6 +164,23 @@ export default function KolProfileCard({
               <span>Followers</span>
             </span>
           </div>
+          {centrality && (
+            <div className="grid grid-cols-3 gap-x-2 gap-y-1 text-xs">
+              {(Object.keys(CENTRALITY_LABELS) as CentralityMetric[]).map(
+                (metric) => (
+                  <div key={metric} className="flex flex-col">
+                    <span className="text-muted-foreground">
+                      {CENTRALITY_LABELS[metric]}
+                    </span>
+                    <span className="font-semibold">
+                      {formatCentrality(metric, centrality[metric])}
+                    </span>
+                  </div>
+                ),
+              )}
+            </div>
+          )}
+          <KolSentimentChart kol={kol} />
         </>
       )}
       {isSource && (
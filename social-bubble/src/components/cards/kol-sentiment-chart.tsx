@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { http } from "@/http/client";
+import { useKolStore } from "@/stores/kol-store";
+import {
+  BaselineSeries,
+  createChart,
+  LineSeries,
+  UTCTimestamp,
+  type ISeriesApi,
+} from "lightweight-charts";
+import { useTheme } from "next-themes";
+
+import type { CandleData, CandleRequestParams } from "@/types/candlestick";
+import type { SentimentPoint, SimpleKOL } from "@/types/kol";
+import type { UserSentimentSeriesRequest } from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
+import { instIdFor } from "@/lib/market";
+import { cn } from "@/lib/utils";
+
+// 回溯的天数
+const SERIES_DAYS = 90;
+const DAY_MS = 86400000;
+const PRICE_COLOR = "#f59e0b";
+
+interface KolSentimentChartProps {
+  kol: SimpleKOL;
+}
+
+/**
+ * KOL 对当前代币的每日情绪曲线（0 轴以上为绿、以下为红），叠加代币日线收盘价用于对比情绪领先还是滞后于价格
+ */
+export default function KolSentimentChart({ kol }: KolSentimentChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<ReturnType<typeof createChart> | null>(null);
+  const sentimentRef = useRef<ISeriesApi<"Baseline"> | null>(null);
+  const priceRef = useRef<ISeriesApi<"Line"> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [empty, setEmpty] = useState(false);
+
+  const { tokens, selectedTokenSymbol, filterTime, isPlaying } = useKolStore();
+  const { resolvedTheme } = useTheme();
+
+  const instId = useMemo(
+    () => instIdFor(tokens, selectedTokenSymbol),
+    [tokens, selectedTokenSymbol],
+  );
+
+  const chartOptions = useMemo(
+    () => ({
+      layout: {
+        background: { color: "transparent" },
+        textColor: resolvedTheme === "dark" ? "#DDD" : "#333",
+        fontSize: 10,
+      },
+      grid: {
+        vertLines: { visible: false },
+        horzLines: { color: resolvedTheme === "dark" ? "#333" : "#EEE" },
+      },
+    }),
+    [resolvedTheme],
+  );
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    // 主题相关的样式由下方的 effect 在创建后应用
+    const chart = createChart(containerRef.current, {
+      width: containerRef.current.clientWidth,
+      height: containerRef.current.clientHeight,
+      leftPriceScale: { visible: true },
+      rightPriceScale: { visible: true },
+      timeScale: { borderVisible: false },
+      handleScroll: false,
+      handleScale: false,
+    });
+    chartRef.current = chart;
+    sentimentRef.current = chart.addSeries(BaselineSeries, {
+      baseValue: { type: "price", price: 0 },
+      priceScaleId: "right",
+      lineWidth: 2,
+      priceLineVisible: false,
+    });
+    priceRef.current = chart.addSeries(LineSeries, {
+      color: PRICE_COLOR,
+      priceScaleId: "left",
+      lineWidth: 1,
+      priceLineVisible: false,
+    });
+
+    const ro = new ResizeObserver((entries) => {
+      for (const e of entries) {
+        chart.applyOptions({
+          width: e.contentRect.width,
+          height: e.contentRect.height,
+        });
+      }
+    });
+    ro.observe(containerRef.current);
+
+    return () => {
+      ro.disconnect();
+      chart.remove();
+      chartRef.current = null;
+    };
+  }, []);
+
+  // 监听主题变化，更新图表样式
+  useEffect(() => {
+    chartRef.current?.applyOptions(chartOptions);
+  }, [chartOptions]);
+
+  useEffect(() => {
+    // 播放时间轴时不逐帧请求，停止后按最终时间点重新加载
+    if (!filterTime || isPlaying) return;
+    let cancelled = false;
+    setLoading(true);
+
+    const seriesRequest = http.get<SentimentPoint[]>("/user/sentiment-series", {
+      id: kol.id,
+      token: selectedTokenSymbol,
+      filter_time: filterTime.toString(),
+      days: SERIES_DAYS,
+    } satisfies UserSentimentSeriesRequest);
+    // 价格只用于对照，取不到时仍展示情绪曲线
+    const candleRequest = http
+      .get<CandleData[]>("/market/candles", {
+        instId,
+        bar: "1D",
+        after: (filterTime + DAY_MS).toString(),
+        limit: SERIES_DAYS.toString(),
+      } satisfies CandleRequestParams)
+      .catch((err) => {
+        console.error("获取收盘价失败:", err);
+        return [] as CandleData[];
+      });
+
+    Promise.all([seriesRequest, candleRequest])
+      .then(([series, candles]) => {
+        if (cancelled) return;
+        const start = (filterTime - SERIES_DAYS * DAY_MS) / 1000;
+        sentimentRef.current?.setData(
+          series.map((point) => ({
+            time: (point.time / 1000) as UTCTimestamp,
+            value: point.score,
+          })),
+        );
+        priceRef.current?.setData(
+          candles
+            .filter((candle) => candle.time >= start)
+            .sort((a, b) => a.time - b.time)
+            .map((candle) => ({ time: candle.time, value: candle.close })),
+        );
+        chartRef.current?.timeScale().fitContent();
+        setEmpty(series.length === 0);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("获取情绪序列失败:", err);
+        toastError(err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kol.id, selectedTokenSymbol, filterTime, instId, isPlaying]);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <span className="flex-1">Sentiment · {SERIES_DAYS}d</span>
+        <span className="flex items-center gap-1">
+          <span className="h-0.5 w-3 bg-emerald-500" />
+          Daily avg
+        </span>
+        <span className="flex items-center gap-1">
+          <span
+            className="h-0.5 w-3"
+            style={{ backgroundColor: PRICE_COLOR }}
+          />
+          Close
+        </span>
+      </div>
+      <div className="relative h-32">
+        <div
+          ref={containerRef}
+          className={cn("h-full w-full", loading && "opacity-30")}
+        />
+        {!loading && empty && (
+          <p className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground">
+            No comments on {selectedTokenSymbol} in this period.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
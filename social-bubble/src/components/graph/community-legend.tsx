@@ -0,0 +1,142 @@
+"use client";
+
+import { useMemo } from "react";
+import { useKolStore } from "@/stores/kol-store";
+
+import type { GraphNode, NodeColorBy } from "@/types/graph";
+import { cn, community2color, formatDigital } from "@/lib/utils";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+// 图例最多列出的社区数
+const MAX_COMMUNITIES = 8;
+// 每个社区列出的 KOL 数
+const TOP_MEMBERS = 3;
+
+const colorByLabels: Record<NodeColorBy, string> = {
+  sentiment: "Sentiment",
+  community: "Community",
+};
+
+interface CommunitySummary {
+  community: number;
+  size: number;
+  avgScore: number; // 成员的平均情绪分
+  topMembers: GraphNode[]; // 按名次排列的代表性 KOL
+}
+
+/**
+ * 按社区汇总成员数、平均情绪分与名次最高的 KOL
+ */
+function summarizeCommunities(nodes: GraphNode[]): CommunitySummary[] {
+  const groups = new Map<number, GraphNode[]>();
+  nodes.forEach((node) => {
+    if (node.community < 0) return;
+    if (!groups.has(node.community)) groups.set(node.community, []);
+    groups.get(node.community)!.push(node);
+  });
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([community, members]) => ({
+      community,
+      size: members.length,
+      avgScore:
+        members.reduce((sum, node) => sum + node.score_metrics, 0) /
+        members.length,
+      topMembers: [...members]
+        .sort((a, b) => a.rank - b.rank)
+        .slice(0, TOP_MEMBERS),
+    }));
+}
+
+type CommunityLegendProps = {
+  nodes: GraphNode[];
+};
+
+/**
+ * 节点着色切换，按社区着色时列出各社区的规模、平均情绪和代表性 KOL
+ */
+export default function CommunityLegend({ nodes }: CommunityLegendProps) {
+  const { nodeColorBy, setNodeColorBy, setSelectedKol } = useKolStore();
+  const summaries = useMemo(() => summarizeCommunities(nodes), [nodes]);
+
+  return (
+    <div className="w-64 space-y-2 rounded-lg border bg-background/80 p-2 text-xs backdrop-blur-sm">
+      <ToggleGroup
+        type="single"
+        value={nodeColorBy}
+        onValueChange={(value: NodeColorBy) => value && setNodeColorBy(value)}
+        className="justify-start"
+      >
+        {(Object.keys(colorByLabels) as NodeColorBy[]).map((colorBy) => (
+          <ToggleGroupItem
+            key={colorBy}
+            value={colorBy}
+            className={cn(
+              "h-6 rounded-full px-2 text-xs text-muted-foreground",
+              "data-[state=on]:bg-[#1f1f1f] data-[state=on]:text-white dark:data-[state=on]:bg-[#333] dark:data-[state=on]:text-white",
+            )}
+          >
+            {colorByLabels[colorBy]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {nodeColorBy === "community" &&
+        (summaries.length === 0 ? (
+          <p className="px-1 text-muted-foreground">
+            No communities in the current graph.
+          </p>
+        ) : (
+          <ul className="max-h-72 space-y-2 overflow-y-auto px-1">
+            {summaries.slice(0, MAX_COMMUNITIES).map((summary) => (
+              <li key={summary.community} className="space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span
+                    className="h-2.5 w-2.5 shrink-0 rounded-full"
+                    style={{
+                      backgroundColor: community2color(summary.community, 1)
+                        .strokeColor,
+                    }}
+                  />
+                  <span className="flex-1 font-medium">
+                    Cluster {summary.community + 1}
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {summary.size} KOLs
+                    </span>
+                  </span>
+                  <span
+                    className={cn(
+                      summary.avgScore > 0 && "text-emerald-500",
+                      summary.avgScore < 0 && "text-red-500",
+                    )}
+                  >
+                    {summary.avgScore > 0 ? "+" : ""}
+                    {formatDigital(summary.avgScore)}
+                  </span>
+                </div>
+                <div className="truncate pl-4 text-muted-foreground">
+                  {summary.topMembers.map((node, index) => (
+                    <span key={node.id}>
+                      {index > 0 && ", "}
+                      <button
+                        className="hover:text-foreground hover:underline"
+                        onClick={() => setSelectedKol(node)}
+                      >
+                        {node.name}
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </li>
+            ))}
+            {summaries.length > MAX_COMMUNITIES && (
+              <li className="text-muted-foreground">
+                +{summaries.length - MAX_COMMUNITIES} smaller clusters
+              </li>
+            )}
+          </ul>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { Fragment } from "react";
+import { useKolStore } from "@/stores/kol-store";
+import { ChevronRight, Globe } from "lucide-react";
+
+import { EGO_DEPTHS, type EgoDepth } from "@/lib/api/contracts";
+import { cn } from "@/lib/utils";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+/**
+ * 邻域图模式的面包屑：可回到全局图或之前下钻过的 KOL，并切换展开跳数
+ */
+export default function EgoBreadcrumbs() {
+  const { egoTrail, setEgoTrail, egoDepth, setEgoDepth } = useKolStore();
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border bg-background/80 px-3 py-1.5 text-sm backdrop-blur-sm">
+      <nav className="flex items-center gap-1" aria-label="Breadcrumb">
+        <button
+          className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+          onClick={() => setEgoTrail([])}
+        >
+          <Globe className="h-4 w-4" />
+          Global
+        </button>
+        {egoTrail.map((kol, index) => {
+          const isCurrent = index === egoTrail.length - 1;
+          return (
+            <Fragment key={kol.id}>
+              <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              <button
+                disabled={isCurrent}
+                className={cn(
+                  "max-w-32 truncate",
+                  isCurrent
+                    ? "font-semibold"
+                    : "text-muted-foreground hover:text-foreground",
+                )}
+                onClick={() => setEgoTrail(egoTrail.slice(0, index + 1))}
+              >
+                @{kol.username}
+              </button>
+            </Fragment>
+          );
+        })}
+      </nav>
+      <ToggleGroup
+        type="single"
+        value={String(egoDepth)}
+        onValueChange={(value) =>
+          value && setEgoDepth(Number(value) as EgoDepth)
+        }
+      >
+        {EGO_DEPTHS.map((depth) => (
+          <ToggleGroupItem
+            key={depth}
+            value={String(depth)}
+            className={cn(
+              "h-6 rounded-full px-2 text-xs text-muted-foreground",
+              "data-[state=on]:bg-[#1f1f1f] data-[state=on]:text-white dark:data-[state=on]:bg-[#333] dark:data-[state=on]:text-white",
+            )}
+          >
+            {depth} hop{depth > 1 ? "s" : ""}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  );
+}
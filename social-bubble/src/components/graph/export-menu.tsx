@@ -0,0 +1,148 @@
+"use client";
+
+import type { RefObject } from "react";
+import { selectGraphFilters, useKolStore } from "@/stores/kol-store";
+import {
+  Download,
+  FileCode,
+  FileImage,
+  FileSpreadsheet,
+  Network,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import type { ForceGraphHandle, GraphData } from "@/types/graph";
+import type { SimpleKOL } from "@/types/kol";
+import {
+  downloadBlob,
+  graphToGexf,
+  graphToGraphml,
+  kolsToCsv,
+  sceneToPng,
+  sceneToSvg,
+  type GraphExportFilters,
+} from "@/lib/graph/export";
+import { sortKols } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// 导出 PNG 相对屏幕的放大倍数
+const PNG_SCALE = 3;
+
+type ExportMenuProps = {
+  graphRef: RefObject<ForceGraphHandle | null>;
+  graph: GraphData | null; // 当前展示的图，包含叠加的影响路径
+  kols: SimpleKOL[]; // 排名列表中的 KOL，按粉丝数降序
+};
+
+/**
+ * 当前筛选条件，写入导出文件；文件名带上代币和参考日期
+ */
+function currentExport() {
+  const state = useKolStore.getState();
+  const filters: GraphExportFilters = {
+    ...selectGraphFilters(state),
+    filter_time: state.filterTime,
+    ego_center: state.egoTrail[state.egoTrail.length - 1]?.username,
+  };
+  const date = new Date(state.filterTime).toISOString().slice(0, 10);
+  return {
+    filters,
+    basename: `social-bubble-${state.selectedTokenSymbol}-${date}`,
+  };
+}
+
+/**
+ * 导出菜单：当前视图的高分辨率 PNG / SVG，图数据的 GEXF / GraphML，以及排名 CSV
+ */
+export default function ExportMenu({ graphRef, graph, kols }: ExportMenuProps) {
+  const hasGraph = !!graph && graph.nodes.length > 0;
+
+  const exportImage = async (format: "png" | "svg") => {
+    const scene = graphRef.current?.getScene();
+    if (!scene) {
+      toast.error("Nothing to export", {
+        description: "The graph is not ready yet.",
+      });
+      return;
+    }
+    const { basename } = currentExport();
+    if (format === "svg") {
+      downloadBlob(
+        new Blob([sceneToSvg(scene)], { type: "image/svg+xml" }),
+        `${basename}.svg`,
+      );
+      return;
+    }
+    const blob = await sceneToPng(
+      scene,
+      PNG_SCALE * (window.devicePixelRatio || 1),
+    );
+    if (!blob) {
+      toast.error("PNG export failed", {
+        description: "The image is too large for this browser.",
+      });
+      return;
+    }
+    downloadBlob(blob, `${basename}.png`);
+  };
+
+  const exportData = (format: "gexf" | "graphml" | "csv") => {
+    if (!graph) return;
+    const { filters, basename } = currentExport();
+    const { nodeSizeBy, kolListSortBy } = useKolStore.getState();
+    const content =
+      format === "gexf"
+        ? graphToGexf(graph, filters, nodeSizeBy)
+        : format === "graphml"
+          ? graphToGraphml(graph, filters)
+          : kolsToCsv(sortKols(kols, kolListSortBy));
+    const type = format === "csv" ? "text/csv" : "application/xml";
+    downloadBlob(
+      new Blob([content], { type: `${type};charset=utf-8` }),
+      `${basename}.${format}`,
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="h-12 w-12" disabled={!hasGraph}>
+          <Download />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="right" align="start" className="w-56">
+        <DropdownMenuLabel>Image</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => exportImage("png")}>
+          <FileImage />
+          PNG ({PNG_SCALE}× resolution)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportImage("svg")}>
+          <FileCode />
+          SVG
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Data</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => exportData("gexf")}>
+          <Network />
+          GEXF (Gephi)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportData("graphml")}>
+          <Network />
+          GraphML
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportData("csv")}>
+          <FileSpreadsheet />
+          KOL ranking (CSV)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
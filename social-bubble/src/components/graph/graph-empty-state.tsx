@@ -0,0 +1,38 @@
+import { CircleOff, ServerCrash } from "lucide-react";
+
+import { getErrorMessage } from "@/lib/api/error-message";
+import { Button } from "@/components/ui/button";
+
+interface GraphEmptyStateProps {
+  error: unknown; // 为空时表示查询成功但当前窗口没有数据
+  onRetry: () => void;
+}
+
+export default function GraphEmptyState({
+  error,
+  onRetry,
+}: GraphEmptyStateProps) {
+  const { title, description } = error
+    ? getErrorMessage(error)
+    : {
+        title: "No data for this window",
+        description:
+          "No KOL activity matches the current filters. Try another time or a lower followers threshold.",
+      };
+  const Icon = error ? ServerCrash : CircleOff;
+
+  return (
+    <div className="absolute inset-0 z-10 flex items-center justify-center">
+      <div className="flex max-w-sm flex-col items-center gap-3 text-center">
+        <Icon className="h-10 w-10 text-muted-foreground" />
+        <p className="font-semibold">{title}</p>
+        <p className="text-sm text-muted-foreground">{description}</p>
+        {error ? (
+          <Button variant="outline" size="sm" onClick={onRetry}>
+            Retry
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
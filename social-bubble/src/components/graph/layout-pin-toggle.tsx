@@ -0,0 +1,54 @@
+"use client";
+
+import { useKolStore } from "@/stores/kol-store";
+import { Pin, PinOff } from "lucide-react";
+
+import type { GraphNode } from "@/types/graph";
+import { Button } from "@/components/ui/button";
+
+type LayoutPinToggleProps = {
+  nodes: GraphNode[];
+};
+
+/**
+ * 固定当前代币的布局：保存各节点的坐标，之后的快照中同一 KOL 出现在同一位置
+ */
+export default function LayoutPinToggle({ nodes }: LayoutPinToggleProps) {
+  const { selectedTokenSymbol, pinnedLayouts, pinLayout, unpinLayout } =
+    useKolStore();
+  const layout = pinnedLayouts[selectedTokenSymbol];
+
+  const handlePin = () => {
+    const positions: Record<string, [number, number]> = {};
+    nodes.forEach((node) => {
+      if (node.x === undefined || node.y === undefined) return;
+      positions[node.id] = [Math.round(node.x), Math.round(node.y)];
+    });
+    pinLayout(selectedTokenSymbol, positions);
+  };
+
+  return (
+    <div className="flex w-64 items-center gap-2 rounded-lg border bg-background/80 p-2 text-xs backdrop-blur-sm">
+      <span className="flex-1 text-muted-foreground">
+        {layout
+          ? `Layout pinned · ${Object.keys(layout).length.toLocaleString()} KOLs`
+          : "Layout follows the data"}
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 gap-1 px-2 text-xs"
+        onClick={() =>
+          layout ? unpinLayout(selectedTokenSymbol) : handlePin()
+        }
+      >
+        {layout ? (
+          <PinOff className="h-3.5 w-3.5" />
+        ) : (
+          <Pin className="h-3.5 w-3.5" />
+        )}
+        {layout ? "Unpin" : "Pin layout"}
+      </Button>
+    </div>
+  );
+}
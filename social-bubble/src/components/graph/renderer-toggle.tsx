@@ -0,0 +1,64 @@
+"use client";
+
+import { useKolStore } from "@/stores/kol-store";
+
+import type { GraphRenderer } from "@/types/graph";
+import { cn } from "@/lib/utils";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+// 超过该连线数时建议改用 WebGL 渲染
+const WEBGL_SUGGEST_LINKS = 1000;
+
+const rendererLabels: Record<GraphRenderer, string> = {
+  canvas: "Canvas",
+  webgl: "WebGL",
+};
+
+type RendererToggleProps = {
+  nodeCount: number;
+  linkCount: number;
+};
+
+/**
+ * 切换图谱渲染器，并显示当前图谱的规模
+ */
+export default function RendererToggle({
+  nodeCount,
+  linkCount,
+}: RendererToggleProps) {
+  const { graphRenderer, setGraphRenderer } = useKolStore();
+
+  return (
+    <div className="w-64 space-y-1 rounded-lg border bg-background/80 p-2 text-xs backdrop-blur-sm">
+      <div className="flex items-center gap-2">
+        <span className="flex-1 text-muted-foreground">Renderer</span>
+        <ToggleGroup
+          type="single"
+          value={graphRenderer}
+          onValueChange={(value: GraphRenderer) =>
+            value && setGraphRenderer(value)
+          }
+        >
+          {(Object.keys(rendererLabels) as GraphRenderer[]).map((renderer) => (
+            <ToggleGroupItem
+              key={renderer}
+              value={renderer}
+              className={cn(
+                "h-6 rounded-full px-2 text-xs text-muted-foreground",
+                "data-[state=on]:bg-[#1f1f1f] data-[state=on]:text-white dark:data-[state=on]:bg-[#333] dark:data-[state=on]:text-white",
+              )}
+            >
+              {rendererLabels[renderer]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <p className="text-muted-foreground">
+        {nodeCount.toLocaleString()} nodes · {linkCount.toLocaleString()} links
+        {graphRenderer === "canvas" &&
+          linkCount > WEBGL_SUGGEST_LINKS &&
+          " · WebGL recommended"}
+      </p>
+    </div>
+  );
+}
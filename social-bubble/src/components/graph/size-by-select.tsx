@@ -0,0 +1,47 @@
+"use client";
+
+import { useKolStore } from "@/stores/kol-store";
+
+import type { CentralityMetric, NodeSizeBy } from "@/types/graph";
+import { CENTRALITY_LABELS } from "@/lib/utils";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+/**
+ * 选择节点大小依据：粉丝数或某项中心性指标
+ */
+export default function SizeBySelect() {
+  const { nodeSizeBy, setNodeSizeBy } = useKolStore();
+
+  return (
+    <div className="flex w-64 items-center gap-2 rounded-lg border bg-background/80 p-2 text-xs backdrop-blur-sm">
+      <span className="text-muted-foreground">Size by</span>
+      <Select
+        value={nodeSizeBy}
+        onValueChange={(value: NodeSizeBy) => setNodeSizeBy(value)}
+      >
+        <SelectTrigger className="h-7 flex-1 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectItem value="followers">Followers</SelectItem>
+            {(Object.keys(CENTRALITY_LABELS) as CentralityMetric[]).map(
+              (metric) => (
+                <SelectItem key={metric} value={metric}>
+                  {CENTRALITY_LABELS[metric]}
+                </SelectItem>
+              ),
+            )}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
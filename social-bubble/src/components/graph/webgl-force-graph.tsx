@@ -0,0 +1,608 @@
+"use client";
+
+import React, {
+  forwardRef,
+  Ref,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useKolStore } from "@/stores/kol-store";
+import * as d3 from "d3";
+import { toast } from "sonner";
+
+import type { ForceGraphHandle, GraphLink, GraphNode } from "@/types/graph";
+import {
+  ARROW_LENGTH,
+  computeSizeShares,
+  createGraphScene,
+  drawCommunityHulls,
+  drawNodeLabel,
+  getNodeStyle,
+  getPathHighlight,
+  getRadius,
+  GRAPH_BACKGROUND,
+  LINK_INSET,
+  linkPairKey,
+  PATH_COLOR,
+} from "@/lib/graph/render";
+import {
+  GraphGLRenderer,
+  NODE_STRIDE,
+  parseRgba,
+  SEGMENT_STRIDE,
+  type RGBA,
+} from "@/lib/graph/webgl";
+import { score2color } from "@/lib/utils";
+import { useForceLayout } from "@/hooks/use-force-layout";
+import { useNodeTransitions } from "@/hooks/use-node-transitions";
+import type { ForceGraphProps } from "@/components/graph/force-graph";
+
+// 箭头底边的宽度，与 Canvas 渲染器的箭头一致
+const ARROW_WIDTH = 2 * ARROW_LENGTH * Math.tan(Math.PI / 8);
+// 每条连线最多产生的线段数：路径高亮、连线本身和两端箭头
+const SEGMENTS_PER_LINK = 4;
+// 拖拽超过该距离（像素）才视为移动节点，否则视为点击
+const DRAG_THRESHOLD = 3;
+
+const PATH_RGBA = parseRgba(PATH_COLOR, 0.6);
+
+interface LinkColors {
+  forward: RGBA;
+  backward: RGBA;
+}
+
+interface DragState {
+  node: GraphNode;
+  startX: number;
+  startY: number;
+  moved: boolean;
+}
+
+/**
+ * 按需扩容实例数据数组
+ */
+const ensureCapacity = (data: Float32Array, size: number) =>
+  data.length >= size
+    ? data
+    : new Float32Array(Math.max(size, data.length * 2));
+
+/**
+ * WebGL 渲染器：节点和连线分别合并为一次实例化绘制，社区轮廓和名称用叠加的 2D 画布绘制，
+ * 布局与 Canvas 渲染器共用 Web Worker 中的力导向布局，用于数千节点、上万连线的图谱
+ */
+const WebGLForceGraph = forwardRef(function WebGLForceGraph(
+  { nodes, links, transitionMs = 0, stableLayout = false }: ForceGraphProps,
+  ref: Ref<ForceGraphHandle | null>,
+) {
+  const {
+    selectedKol,
+    targetKol,
+    targetHoveredKol,
+    setSelectedKol,
+    nodeColorBy,
+    nodeSizeBy,
+    influencePath,
+    activePathIndex,
+    setGraphRenderer,
+  } = useKolStore();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const hullCanvasRef = useRef<HTMLCanvasElement>(null);
+  const glCanvasRef = useRef<HTMLCanvasElement>(null);
+  const labelCanvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<GraphGLRenderer | null>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<HTMLCanvasElement, unknown> | null>(
+    null,
+  );
+  const transformRef = useRef(d3.zoomIdentity);
+  const hoveredIdRef = useRef<string | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const linkColorsRef = useRef(new WeakMap<GraphLink, LinkColors>());
+  // 状态变化后需要重绘一帧
+  const dirtyRef = useRef(true);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const { getVisual, transitionsRef, draggedIdsRef } = useNodeTransitions(
+    nodes,
+    transitionMs,
+    stableLayout,
+  );
+
+  const sizeShares = useMemo(
+    () => computeSizeShares(nodes, nodeSizeBy),
+    [nodes, nodeSizeBy],
+  );
+
+  const { drag: dragNode, dragEnd } = useForceLayout(
+    nodes,
+    links,
+    sizeShares,
+    () => {
+      dirtyRef.current = true;
+    },
+  );
+
+  /**
+   * 节点大小对应的占比，percentage 为插值中的粉丝占比
+   */
+  const sizeShareOf = (node: GraphNode, percentage = node.percentage) =>
+    sizeShares?.get(node.id) ?? percentage;
+
+  const highlightedPath = useMemo(
+    () => getPathHighlight(influencePath, activePathIndex),
+    [influencePath, activePathIndex],
+  );
+
+  // 渲染循环在 requestAnimationFrame 中读取最新的渲染状态
+  const frameState = {
+    nodes,
+    links,
+    getVisual,
+    sizeShareOf,
+    highlightedPath,
+    nodeColorBy,
+    selectedId: selectedKol?.id,
+    targetId: targetKol?.id,
+    targetHoveredId: targetHoveredKol?.id,
+  };
+  const frameStateRef = useRef(frameState);
+  frameStateRef.current = frameState;
+  useEffect(() => {
+    dirtyRef.current = true;
+  });
+
+  /**
+   * 查找屏幕坐标处的节点，只读取 ref，引用保持不变
+   */
+  const nodeAt = useCallback((screenX: number, screenY: number) => {
+    const [x, y] = transformRef.current.invert([screenX, screenY]);
+    const { nodes, sizeShareOf } = frameStateRef.current;
+    let closest: GraphNode | undefined;
+    let closestDistance = Infinity;
+    nodes.forEach((node) => {
+      if (node.x === undefined || node.y === undefined) return;
+      const distance = Math.hypot(node.x - x, node.y - y);
+      const radius = getRadius(sizeShareOf(node)) + 2;
+      if (distance <= radius && distance < closestDistance) {
+        closest = node;
+        closestDistance = distance;
+      }
+    });
+    return closest;
+  }, []);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      zoom: (scale, durationMs = 0) => {
+        if (scale === undefined) return transformRef.current.k;
+        if (labelCanvasRef.current && zoomRef.current) {
+          d3.select(labelCanvasRef.current)
+            .transition()
+            .duration(durationMs)
+            .call(zoomRef.current.scaleTo, scale);
+        }
+        return scale;
+      },
+      centerAt: (x, y, durationMs = 0) => {
+        if (!labelCanvasRef.current || !zoomRef.current) return;
+        d3.select(labelCanvasRef.current)
+          .transition()
+          .duration(durationMs)
+          .call(zoomRef.current.translateTo, x, y);
+      },
+      getScene: () => {
+        const canvas = labelCanvasRef.current;
+        if (!canvas || !canvas.clientWidth || !canvas.clientHeight) return null;
+        const state = frameStateRef.current;
+        const { k, x, y } = transformRef.current;
+        const now = performance.now();
+        return createGraphScene(
+          {
+            width: canvas.clientWidth,
+            height: canvas.clientHeight,
+            transform: { k, x, y },
+            nodes: state.nodes,
+            links: state.links,
+          },
+          {
+            nodeColorBy: state.nodeColorBy,
+            highlightedPath: state.highlightedPath,
+            selectedId: state.selectedId,
+            targetId: state.targetId,
+            targetHoveredId: state.targetHoveredId,
+            visualOf: (node) => state.getVisual(node, now),
+            radiusOf: (node) =>
+              getRadius(
+                state.sizeShareOf(node, state.getVisual(node, now).percentage),
+              ),
+          },
+        );
+      },
+    }),
+    [],
+  );
+
+  // 用 ResizeObserver 监听容器尺寸
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const ro = new ResizeObserver((entries) => {
+      for (let entry of entries) {
+        const { width, height } = entry.contentRect;
+        setSize({ width, height });
+      }
+    });
+    ro.observe(containerRef.current);
+    return () => ro.disconnect();
+  }, []);
+
+  // 创建 WebGL 上下文，不支持时切回 Canvas 渲染器
+  useEffect(() => {
+    if (!glCanvasRef.current) return;
+    try {
+      rendererRef.current = new GraphGLRenderer(glCanvasRef.current);
+    } catch (err) {
+      console.error("初始化 WebGL 失败:", err);
+      toast.error("WebGL is not available", {
+        description: "Switched back to the Canvas renderer.",
+      });
+      setGraphRenderer("canvas");
+      return;
+    }
+    return () => {
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+    };
+  }, [setGraphRenderer]);
+
+  // 同步画布尺寸，首次布局时把图谱原点放在画布中央
+  useEffect(() => {
+    const { width, height } = size;
+    if (!width || !height) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    rendererRef.current?.resize(width, height, pixelRatio);
+    [hullCanvasRef.current, labelCanvasRef.current].forEach((canvas) => {
+      if (!canvas) return;
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+    });
+
+    const canvas = labelCanvasRef.current;
+    if (canvas && !zoomRef.current) {
+      const zoom = d3
+        .zoom<HTMLCanvasElement, unknown>()
+        .scaleExtent([0.01, 1000])
+        // 在节点上按下时交给节点拖拽处理
+        .filter(
+          (event) =>
+            (!event.ctrlKey || event.type === "wheel") &&
+            !event.button &&
+            !(
+              event.type === "mousedown" && nodeAt(event.offsetX, event.offsetY)
+            ),
+        )
+        .on("zoom", (event) => {
+          transformRef.current = event.transform;
+          dirtyRef.current = true;
+        });
+      d3.select(canvas)
+        .call(zoom)
+        .on("dblclick.zoom", null)
+        .call(zoom.transform, d3.zoomIdentity.translate(width / 2, height / 2));
+      zoomRef.current = zoom;
+    }
+    dirtyRef.current = true;
+  }, [size, nodeAt]);
+
+  // 渲染循环：收到新坐标、插值过渡中或状态变化时重绘
+  useEffect(() => {
+    let frameId = 0;
+    let dashOffset = 0;
+    let segmentData: Float32Array = new Float32Array(0);
+    let nodeData: Float32Array = new Float32Array(0);
+
+    const draw = () => {
+      const renderer = rendererRef.current;
+      const hullCtx = hullCanvasRef.current?.getContext("2d");
+      const labelCtx = labelCanvasRef.current?.getContext("2d");
+      if (!renderer || !hullCtx || !labelCtx) return;
+      const state = frameStateRef.current;
+      const transform = transformRef.current;
+      const now = performance.now();
+      const pixelRatio = window.devicePixelRatio || 1;
+
+      // 节点
+      nodeData = ensureCapacity(nodeData, state.nodes.length * NODE_STRIDE);
+      const radii = new Map<GraphNode, number>();
+      let nodeCount = 0;
+      state.nodes.forEach((node) => {
+        if (node.x === undefined || node.y === undefined) return;
+        const visual = state.getVisual(node, now);
+        const radius = getRadius(state.sizeShareOf(node, visual.percentage));
+        radii.set(node, radius);
+        const { fillColor, strokeColor, lineWidth } = getNodeStyle(
+          node,
+          visual,
+          state.nodeColorBy,
+          {
+            hovered: hoveredIdRef.current === node.id,
+            selected: state.selectedId === node.id,
+            targetHovered: state.targetHoveredId === node.id,
+            targetSelected: state.targetId === node.id,
+            onPath: !!state.highlightedPath?.nodeIds.has(node.id),
+          },
+        );
+        const offset = nodeCount++ * NODE_STRIDE;
+        nodeData[offset] = node.x;
+        nodeData[offset + 1] = node.y;
+        nodeData[offset + 2] = radius;
+        nodeData.set(parseRgba(fillColor), offset + 3);
+        nodeData.set(parseRgba(strokeColor), offset + 7);
+        nodeData[offset + 11] = lineWidth;
+      });
+
+      // 连线与箭头
+      segmentData = ensureCapacity(
+        segmentData,
+        state.links.length * SEGMENTS_PER_LINK * SEGMENT_STRIDE,
+      );
+      let segmentCount = 0;
+      const pushSegment = (
+        x0: number,
+        y0: number,
+        x1: number,
+        y1: number,
+        color0: RGBA,
+        color1: RGBA,
+        width0: number,
+        width1: number,
+        dashed: boolean,
+      ) => {
+        const offset = segmentCount++ * SEGMENT_STRIDE;
+        segmentData[offset] = x0;
+        segmentData[offset + 1] = y0;
+        segmentData[offset + 2] = x1;
+        segmentData[offset + 3] = y1;
+        segmentData.set(color0, offset + 4);
+        segmentData.set(color1, offset + 8);
+        segmentData[offset + 12] = width0;
+        segmentData[offset + 13] = width1;
+        segmentData[offset + 14] = dashed ? 1 : 0;
+      };
+      state.links.forEach((link) => {
+        const source = link.source as GraphNode;
+        const target = link.target as GraphNode;
+        if (
+          source?.x === undefined ||
+          source.y === undefined ||
+          target?.x === undefined ||
+          target.y === undefined
+        ) {
+          return;
+        }
+        const dx = target.x - source.x;
+        const dy = target.y - source.y;
+        const length = Math.hypot(dx, dy);
+        if (length === 0) return;
+        const ux = dx / length;
+        const uy = dy / length;
+        const startX = source.x + ux * LINK_INSET;
+        const startY = source.y + uy * LINK_INSET;
+        const endX = target.x - ux * (LINK_INSET + ARROW_LENGTH);
+        const endY = target.y - uy * (LINK_INSET + ARROW_LENGTH);
+        if (Math.hypot(endX - startX, endY - startY) < 2) return;
+
+        const forward = link.source2target_score ?? 0;
+        const backward = link.target2source_score ?? 0;
+        let colors = linkColorsRef.current.get(link);
+        if (!colors) {
+          colors = {
+            forward: parseRgba(score2color(forward, 1).strokeColor),
+            backward: parseRgba(score2color(backward, 1).strokeColor),
+          };
+          linkColorsRef.current.set(link, colors);
+        }
+
+        // 影响路径上的连线先画一层较粗的高亮底色
+        if (
+          state.highlightedPath?.pairKeys.has(linkPairKey(source.id, target.id))
+        ) {
+          pushSegment(
+            source.x,
+            source.y,
+            target.x,
+            target.y,
+            PATH_RGBA,
+            PATH_RGBA,
+            6,
+            6,
+            false,
+          );
+        }
+        // 双向为渐变实线，单向为单色虚线
+        if (forward > 0 && backward > 0) {
+          const { forward: color0, backward: color1 } = colors;
+          pushSegment(
+            startX,
+            startY,
+            endX,
+            endY,
+            color0,
+            color1,
+            1.5,
+            1.5,
+            false,
+          );
+        } else {
+          const color = forward > 0 ? colors.forward : colors.backward;
+          pushSegment(startX, startY, endX, endY, color, color, 1.5, 1.5, true);
+        }
+        if (forward > 0) {
+          // source → target
+          const tipX = target.x - ux * LINK_INSET;
+          const tipY = target.y - uy * LINK_INSET;
+          pushSegment(
+            tipX - ux * ARROW_LENGTH,
+            tipY - uy * ARROW_LENGTH,
+            tipX,
+            tipY,
+            colors.forward,
+            colors.forward,
+            ARROW_WIDTH,
+            0,
+            false,
+          );
+        }
+        if (backward > 0) {
+          // target → source
+          const tipX = source.x + ux * LINK_INSET;
+          const tipY = source.y + uy * LINK_INSET;
+          pushSegment(
+            tipX + ux * ARROW_LENGTH,
+            tipY + uy * ARROW_LENGTH,
+            tipX,
+            tipY,
+            colors.backward,
+            colors.backward,
+            ARROW_WIDTH,
+            0,
+            false,
+          );
+        }
+      });
+
+      renderer.draw(
+        segmentData,
+        segmentCount,
+        nodeData,
+        nodeCount,
+        transform,
+        dashOffset,
+      );
+
+      // 社区轮廓画在 WebGL 画布之下，名称画在之上
+      [hullCtx, labelCtx].forEach((ctx) => {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        ctx.setTransform(
+          pixelRatio * transform.k,
+          0,
+          0,
+          pixelRatio * transform.k,
+          pixelRatio * transform.x,
+          pixelRatio * transform.y,
+        );
+      });
+      if (state.nodeColorBy === "community") {
+        drawCommunityHulls(hullCtx, state.nodes, (node) =>
+          getRadius(state.sizeShareOf(node)),
+        );
+      }
+      radii.forEach((radius, node) =>
+        drawNodeLabel(
+          labelCtx,
+          node,
+          radius,
+          transform.k,
+          state.selectedId === node.id ||
+            state.targetId === node.id ||
+            !!state.highlightedPath?.nodeIds.has(node.id),
+        ),
+      );
+    };
+
+    const frame = () => {
+      frameId = requestAnimationFrame(frame);
+      if (!dirtyRef.current && transitionsRef.current.size === 0) return;
+      dirtyRef.current = false;
+      dashOffset -= 0.2; // 给单向边添加动画效果
+      draw();
+    };
+    frameId = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(frameId);
+  }, [transitionsRef]);
+
+  useEffect(() => {
+    if (!selectedKol || targetKol) return;
+    // 查找选中的节点并平滑移动到其坐标
+    const nodeToFocus = nodes.find((node) => node.id === selectedKol.id);
+    if (nodeToFocus?.x !== undefined && nodeToFocus.y !== undefined) {
+      const canvas = labelCanvasRef.current;
+      if (!canvas || !zoomRef.current) return;
+      d3.select(canvas)
+        .transition()
+        .duration(1000)
+        .call(zoomRef.current.translateTo, nodeToFocus.x, nodeToFocus.y);
+    }
+  }, [selectedKol, targetKol, nodes]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative left-0 top-0 z-10 h-full w-full"
+      style={{ backgroundColor: GRAPH_BACKGROUND }}
+    >
+      <canvas ref={hullCanvasRef} className="absolute inset-0 h-full w-full" />
+      <canvas ref={glCanvasRef} className="absolute inset-0 h-full w-full" />
+      <canvas
+        ref={labelCanvasRef}
+        className="absolute inset-0 h-full w-full touch-none"
+        onPointerDown={(e) => {
+          const node = nodeAt(e.nativeEvent.offsetX, e.nativeEvent.offsetY);
+          if (!node) return;
+          dragRef.current = {
+            node,
+            startX: e.nativeEvent.offsetX,
+            startY: e.nativeEvent.offsetY,
+            moved: false,
+          };
+          e.currentTarget.setPointerCapture(e.pointerId);
+        }}
+        onPointerMove={(e) => {
+          const { offsetX, offsetY } = e.nativeEvent;
+          const drag = dragRef.current;
+          if (drag) {
+            if (
+              !drag.moved &&
+              Math.hypot(offsetX - drag.startX, offsetY - drag.startY) <
+                DRAG_THRESHOLD
+            ) {
+              return;
+            }
+            drag.moved = true;
+            const [x, y] = transformRef.current.invert([offsetX, offsetY]);
+            drag.node.fx = drag.node.x = x;
+            drag.node.fy = drag.node.y = y;
+            dragNode(drag.node, x, y);
+            dirtyRef.current = true;
+            return;
+          }
+          const node = nodeAt(offsetX, offsetY);
+          if ((node?.id ?? null) !== hoveredIdRef.current) {
+            hoveredIdRef.current = node?.id ?? null;
+            e.currentTarget.style.cursor = node ? "pointer" : "";
+            dirtyRef.current = true;
+          }
+        }}
+        onPointerUp={(e) => {
+          const drag = dragRef.current;
+          if (!drag) return;
+          dragRef.current = null;
+          e.currentTarget.releasePointerCapture(e.pointerId);
+          if (drag.moved) {
+            // 拖拽结束后把节点固定在当前位置
+            draggedIdsRef.current.add(drag.node.id);
+            dragEnd(drag.node);
+          } else {
+            setSelectedKol(drag.node);
+          }
+        }}
+      />
+    </div>
+  );
+});
+
+export default WebGLForceGraph;
@@ -0,0 +1,228 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { http } from "@/http/client";
+import { useKolStore } from "@/stores/kol-store";
+import { LoaderCircle, TrendingUp } from "lucide-react";
+
+import type { LagCorrelation, LeadLagReport } from "@/types/analytics";
+import type { SimpleKOL } from "@/types/kol";
+import { MAX_LEAD_LAG_USERS, type LeadLagRequest } from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+// 可选的分析窗口天数
+const WINDOW_DAYS = [30, 90, 180];
+
+const toggleItemClass = cn(
+  "h-6 rounded-full px-2 text-xs text-muted-foreground",
+  "data-[state=on]:bg-[#1f1f1f] data-[state=on]:text-white dark:data-[state=on]:bg-[#333] dark:data-[state=on]:text-white",
+);
+
+/**
+ * 将滞后天数转换为可读文本
+ */
+const formatLag = ({ lag }: LagCorrelation) =>
+  lag > 0 ? `Leads ${lag}d` : lag < 0 ? `Lags ${-lag}d` : "Same day";
+
+interface PredictiveKolsProps {
+  kols: SimpleKOL[]; // 当前图中的 KOL
+}
+
+/**
+ * 计算当前图中 KOL 的情绪与价格涨跌的领先滞后关系，按相关性排序列出最具预测性的 KOL
+ */
+export default function PredictiveKols({ kols }: PredictiveKolsProps) {
+  const { selectedTokenSymbol, filterTime, setSelectedKol } = useKolStore();
+  const [open, setOpen] = useState(false);
+  const [days, setDays] = useState(90);
+  const [leadingOnly, setLeadingOnly] = useState(true);
+  const [report, setReport] = useState<LeadLagReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadReport = useCallback(() => {
+    if (!filterTime || !kols.length) return;
+    setLoading(true);
+    http
+      .post<LeadLagReport>("/analytics/lead-lag", {
+        token: selectedTokenSymbol,
+        filter_time: filterTime,
+        user_ids: kols.slice(0, MAX_LEAD_LAG_USERS).map((kol) => kol.id),
+        days,
+      } satisfies LeadLagRequest)
+      .then(setReport)
+      .catch((err) => {
+        console.error("计算领先滞后关系失败:", err);
+        setReport(null);
+        toastError(err);
+      })
+      .finally(() => setLoading(false));
+  }, [selectedTokenSymbol, filterTime, kols, days]);
+
+  useEffect(() => {
+    if (open) loadReport();
+  }, [open, loadReport]);
+
+  const kolMap = new Map(kols.map((kol) => [kol.id, kol]));
+  // 只看领先时，在情绪领先价格的滞后中重新选出相关性最强的一个并重新排序
+  const rows = (report?.results ?? [])
+    .map((result) => ({
+      ...result,
+      best: leadingOnly
+        ? result.correlations
+            .filter((item) => item.lag > 0)
+            .reduce<LagCorrelation | null>(
+              (acc, item) =>
+                !acc || Math.abs(item.correlation) > Math.abs(acc.correlation)
+                  ? item
+                  : acc,
+              null,
+            )
+        : result.best,
+    }))
+    .filter((result) => result.best)
+    .sort(
+      (a, b) => Math.abs(b.best!.correlation) - Math.abs(a.best!.correlation),
+    );
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <TrendingUp />
+        Predictive KOLs
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="flex max-h-[80vh] max-w-2xl flex-col">
+          <DialogHeader>
+            <DialogTitle>Predictive KOLs · {selectedTokenSymbol}</DialogTitle>
+            <DialogDescription>
+              Cross-correlation between each KOL&apos;s daily sentiment and
+              daily {report?.inst_id ?? selectedTokenSymbol} returns. A positive
+              lag means sentiment moved before price.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center justify-between gap-2">
+            <ToggleGroup
+              type="single"
+              value={String(days)}
+              onValueChange={(value) => value && setDays(Number(value))}
+            >
+              {WINDOW_DAYS.map((item) => (
+                <ToggleGroupItem
+                  key={item}
+                  value={String(item)}
+                  className={toggleItemClass}
+                >
+                  {item}d
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <ToggleGroup
+              type="single"
+              value={leadingOnly ? "leading" : "all"}
+              onValueChange={(value) =>
+                value && setLeadingOnly(value === "leading")
+              }
+            >
+              <ToggleGroupItem value="leading" className={toggleItemClass}>
+                Leading only
+              </ToggleGroupItem>
+              <ToggleGroupItem value="all" className={toggleItemClass}>
+                All lags
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          <div className="relative min-h-40 flex-1 overflow-y-auto">
+            {loading && (
+              <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                <LoaderCircle className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {!loading && report && rows.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                Not enough overlapping sentiment and price history.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-background text-xs text-muted-foreground">
+                  <tr className="border-b text-left">
+                    <th className="py-2 pr-2 font-normal">#</th>
+                    <th className="py-2 pr-2 font-normal">KOL</th>
+                    <th className="py-2 pr-2 font-normal">Best lag</th>
+                    <th className="py-2 pr-2 text-right font-normal">
+                      Correlation
+                    </th>
+                    <th className="py-2 pr-2 text-right font-normal">
+                      Samples
+                    </th>
+                    <th className="py-2 text-right font-normal">Active days</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((result, index) => {
+                    const kol = kolMap.get(result.user_id);
+                    const best = result.best!;
+                    return (
+                      <tr
+                        key={result.user_id}
+                        className="cursor-pointer border-b transition-colors hover:bg-gray-100 dark:hover:bg-gray-800"
+                        onClick={() => {
+                          if (!kol) return;
+                          setSelectedKol(kol);
+                          setOpen(false);
+                        }}
+                      >
+                        <td className="py-1.5 pr-2 text-muted-foreground">
+                          {index + 1}
+                        </td>
+                        <td className="max-w-48 py-1.5 pr-2">
+                          <div className="truncate">
+                            {kol?.name ?? result.user_id}
+                          </div>
+                          {kol && (
+                            <div className="truncate text-xs text-muted-foreground">
+                              @{kol.username}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-1.5 pr-2">{formatLag(best)}</td>
+                        <td
+                          className={cn(
+                            "py-1.5 pr-2 text-right font-semibold",
+                            best.correlation > 0
+                              ? "text-emerald-500"
+                              : "text-red-500",
+                          )}
+                        >
+                          {best.correlation > 0 ? "+" : ""}
+                          {best.correlation.toFixed(2)}
+                        </td>
+                        <td className="py-1.5 pr-2 text-right text-muted-foreground">
+                          {best.samples}
+                        </td>
+                        <td className="py-1.5 text-right text-muted-foreground">
+                          {result.active_days}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { http } from "@/http/client";
+import { useKolStore } from "@/stores/kol-store";
+import {
+  Bookmark,
+  Check,
+  Download,
+  KeyRound,
+  Plus,
+  Save,
+  Trash2,
+  Upload,
+} from "lucide-react";
+
+import type { ViewPreset } from "@/types/preset";
+import {
+  PRESET_KEY_HEADER,
+  presetKeySchema,
+  type PresetImport,
+  type PresetInput,
+} from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+
+/**
+ * 将当前筛选条件转换为预设内容
+ */
+function currentPresetInput(name: string): PresetInput {
+  const state = useKolStore.getState();
+  return {
+    name,
+    token: state.selectedTokenSymbol,
+    filter_followers: state.filterFollowers,
+    ttl: state.ttl,
+    bubble_num: state.bubbleNum,
+    add_user_list: state.interestedKolIds,
+    sub_user_list: state.excludedKolIds,
+  };
+}
+
+/**
+ * 筛选预设菜单：切换、保存、删除预设，导入导出 JSON，以及查看、更换同步密钥
+ */
+const PresetMenu = () => {
+  const {
+    hydrated,
+    presets,
+    setPresets,
+    activePresetId,
+    applyPreset,
+    presetKey,
+    setPresetKey,
+  } = useKolStore();
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [keyOpen, setKeyOpen] = useState(false);
+  const [keyDraft, setKeyDraft] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activePreset = presets.find((preset) => preset.id === activePresetId);
+  // 预设只对保存它们的同步密钥可见
+  const keyOptions = { headers: { [PRESET_KEY_HEADER]: presetKey } };
+  const keyDraftValid = presetKeySchema.safeParse(keyDraft).success;
+
+  const loadPresets = useCallback(
+    () =>
+      http
+        .get<ViewPreset[]>("/presets", undefined, {
+          headers: { [PRESET_KEY_HEADER]: presetKey },
+        })
+        .then(setPresets)
+        .catch((err) => {
+          console.error("获取预设失败:", err);
+          toastError(err);
+        }),
+    [presetKey, setPresets],
+  );
+
+  // 等持久化的同步密钥恢复后再拉取，避免用临时生成的密钥请求
+  useEffect(() => {
+    if (hydrated) loadPresets();
+  }, [hydrated, loadPresets]);
+
+  const handleSave = async () => {
+    try {
+      const preset = await http.post<ViewPreset>(
+        "/presets",
+        currentPresetInput(name.trim()),
+        keyOptions,
+      );
+      setPresets([...presets, preset]);
+      useKolStore.getState().setActivePresetId(preset.id);
+      setSaveOpen(false);
+    } catch (err) {
+      console.error("保存预设失败:", err);
+      toastError(err);
+    }
+  };
+
+  const handleUpdate = async (preset: ViewPreset) => {
+    try {
+      const updated = await http.put<ViewPreset>(
+        `/presets/${preset.id}`,
+        currentPresetInput(preset.name),
+        keyOptions,
+      );
+      setPresets(
+        presets.map((item) => (item.id === preset.id ? updated : item)),
+      );
+    } catch (err) {
+      console.error("更新预设失败:", err);
+      toastError(err);
+    }
+  };
+
+  const handleDelete = async (preset: ViewPreset) => {
+    try {
+      await http.delete(`/presets/${preset.id}`, keyOptions);
+      setPresets(presets.filter((item) => item.id !== preset.id));
+      useKolStore.getState().setActivePresetId(null);
+    } catch (err) {
+      console.error("删除预设失败:", err);
+      toastError(err);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(presets, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "social-bubble-presets.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const content: PresetImport = JSON.parse(await file.text());
+      await http.post<ViewPreset[]>("/presets/import", content, keyOptions);
+      await loadPresets();
+    } catch (err) {
+      console.error("导入预设失败:", err);
+      toastError(err);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-48">
+            <Bookmark />
+            <span className="truncate">{activePreset?.name ?? "Presets"}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Presets</DropdownMenuLabel>
+          {presets.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">
+              No saved presets.
+            </p>
+          )}
+          {presets.map((preset) => (
+            <DropdownMenuItem
+              key={preset.id}
+              onClick={() => applyPreset(preset)}
+            >
+              <Check
+                className={cn(
+                  preset.id === activePresetId ? "opacity-100" : "opacity-0",
+                )}
+              />
+              <span className="flex-1 truncate">{preset.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {preset.token}
+              </span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => {
+              setName("");
+              setSaveOpen(true);
+            }}
+          >
+            <Plus />
+            Save current as...
+          </DropdownMenuItem>
+          {activePreset && (
+            <>
+              <DropdownMenuItem onClick={() => handleUpdate(activePreset)}>
+                <Save />
+                <span className="truncate">Update “{activePreset.name}”</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleDelete(activePreset)}>
+                <Trash2 />
+                <span className="truncate">Delete “{activePreset.name}”</span>
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            <Upload />
+            Import JSON
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={presets.length === 0}
+            onClick={handleExport}
+          >
+            <Download />
+            Export JSON
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => {
+              setKeyDraft(presetKey);
+              setKeyOpen(true);
+            }}
+          >
+            <KeyRound />
+            Sync key...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          // 允许重复导入同一个文件
+          e.target.value = "";
+        }}
+      />
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save preset</DialogTitle>
+          </DialogHeader>
+          <form
+            className="flex flex-col gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) handleSave();
+            }}
+          >
+            <Input
+              autoFocus
+              placeholder="e.g. ETH devs"
+              maxLength={64}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={keyOpen} onOpenChange={setKeyOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Sync key</DialogTitle>
+            <DialogDescription>
+              Presets are saved under this key. Enter the same key on another
+              machine to use your presets there.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="flex flex-col gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!keyDraftValid) return;
+              setPresetKey(keyDraft.trim());
+              setKeyOpen(false);
+            }}
+          >
+            <Input
+              className="font-mono text-xs"
+              spellCheck={false}
+              value={keyDraft}
+              onChange={(e) => setKeyDraft(e.target.value)}
+            />
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigator.clipboard.writeText(presetKey)}
+              >
+                Copy current key
+              </Button>
+              <Button
+                type="submit"
+                disabled={!keyDraftValid || keyDraft.trim() === presetKey}
+              >
+                Use this key
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PresetMenu;
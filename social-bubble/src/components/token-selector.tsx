@@ -1,41 +1,95 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import { http } from "@/http/client";
 import { useKolStore } from "@/stores/kol-store";
+import dayjs from "dayjs";
+import { Check, ChevronsUpDown } from "lucide-react";
 
-import { TokenSymbol } from "@/types/graph";
+import type { TokenInfo } from "@/types/token";
+import { toastError } from "@/lib/api/error-message";
+import { cn, formatDigital } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 
 const TokenSelector = () => {
-  const { setNeedRefresh, selectedTokenSymbol, setSelectedTokenSymbol } =
+  const [open, setOpen] = useState(false);
+  const { selectedTokenSymbol, setSelectedTokenSymbol, tokens, setTokens } =
     useKolStore();
 
-  const tokenOptions: TokenSymbol[] = ["BTC", "ETH", "SOL"];
+  // 可选代币由 /api/tokens 根据现有数据动态提供
+  useEffect(() => {
+    http
+      .get<TokenInfo[]>("/tokens")
+      .then(setTokens)
+      .catch((err) => {
+        console.error("获取代币列表失败:", err);
+        toastError(err);
+      });
+  }, [setTokens]);
 
   return (
-    <Select
-      value={selectedTokenSymbol}
-      onValueChange={(val: TokenSymbol) => {
-        setSelectedTokenSymbol(val);
-        setNeedRefresh(true);
-      }}
-    >
-      <SelectTrigger className="w-20">
-        <SelectValue placeholder="ALL" />
-      </SelectTrigger>
-      <SelectContent>
-        {tokenOptions.map((token) => (
-          <SelectItem key={token} value={token}>
-            {token}
-          </SelectItem>
-        ))}
-      </SelectContent>
-    </Select>
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-28 justify-between"
+        >
+          {selectedTokenSymbol}
+          <ChevronsUpDown className="opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-0">
+        <Command>
+          <CommandInput placeholder="Search token..." />
+          <CommandList>
+            <CommandEmpty>No token found.</CommandEmpty>
+            <CommandGroup>
+              {tokens.map((token) => (
+                <CommandItem
+                  key={token.symbol}
+                  value={token.symbol}
+                  onSelect={() => {
+                    setOpen(false);
+                    if (token.symbol === selectedTokenSymbol) return;
+                    setSelectedTokenSymbol(token.symbol);
+                  }}
+                >
+                  <Check
+                    className={cn(
+                      token.symbol === selectedTokenSymbol
+                        ? "opacity-100"
+                        : "opacity-0",
+                    )}
+                  />
+                  <span className="flex-1">{token.symbol}</span>
+                  <span
+                    className="text-xs text-muted-foreground"
+                    title={`${dayjs(token.first_seen).format("YYYY-MM-DD")} ~ ${dayjs(token.last_seen).format("YYYY-MM-DD")}`}
+                  >
+                    {formatDigital(token.count, 0)}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
   );
 };
 
@@ -0,0 +1,44 @@
+import { useEffect } from "react";
+import { http } from "@/http/client";
+import { useKolStore } from "@/stores/kol-store";
+
+import type { DataCoverage } from "@/types/token";
+import type { CoverageRequest } from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
+
+/**
+ * 切换代币时拉取其数据时间范围；尚未选择时间或当前时间超出范围时，定位到最新数据
+ */
+export function useDataCoverage() {
+  const { selectedTokenSymbol, setCoverage, setFilterTime } = useKolStore();
+
+  useEffect(() => {
+    let cancelled = false;
+    http
+      .get<DataCoverage[]>("/meta/data-range", {
+        token: selectedTokenSymbol,
+      } satisfies CoverageRequest)
+      .then(([coverage]) => {
+        if (cancelled) return;
+        setCoverage(coverage ?? null);
+        const { filterTime } = useKolStore.getState();
+        if (!coverage) {
+          // 该代币没有数据，按当前时间查询以展示空状态
+          if (!filterTime) setFilterTime(Date.now());
+        } else if (
+          !filterTime ||
+          filterTime > coverage.max ||
+          filterTime < coverage.min
+        ) {
+          setFilterTime(coverage.max);
+        }
+      })
+      .catch((err) => {
+        console.error("获取数据时间范围失败:", err);
+        toastError(err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTokenSymbol, setCoverage, setFilterTime]);
+}
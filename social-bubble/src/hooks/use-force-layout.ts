@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useKolStore } from "@/stores/kol-store";
+
+import type { GraphLink, GraphNode } from "@/types/graph";
+import type {
+  LayoutFix,
+  LayoutNode,
+  LayoutRequest,
+  LayoutResponse,
+} from "@/lib/graph/forces";
+import { linkEndId } from "@/lib/graph/links";
+import { getRadius } from "@/lib/graph/render";
+
+// 已有坐标的节点占比达到该值时热启动，以较低的 alpha 在原布局上微调
+const WARM_START_RATIO = 0.5;
+const WARM_ALPHA = 0.3;
+// 拖拽期间保持布局运行的 alphaTarget
+const DRAG_ALPHA_TARGET = 0.3;
+
+// 各 KOL 最近一次的布局坐标，跨快照、跨渲染器保留，用于热启动
+const lastPositions = new Map<string, [number, number]>();
+
+/**
+ * 在 Web Worker 中运行力导向布局，并把坐标写回节点对象；
+ * 重建布局时沿用节点上一次的坐标，当前代币固定了布局时按保存的坐标固定节点
+ *
+ * @param nodes 当前的图谱节点
+ * @param links 当前的图谱连线
+ * @param sizeShares 按中心性决定大小时各节点的占比，为 null 时沿用粉丝占比
+ * @param onTick 每次收到新坐标后调用
+ */
+export function useForceLayout(
+  nodes: GraphNode[],
+  links: GraphLink[],
+  sizeShares: Map<string, number> | null,
+  onTick?: () => void,
+) {
+  const selectedTokenSymbol = useKolStore((state) => state.selectedTokenSymbol);
+  const pinned = useKolStore(
+    (state) => state.pinnedLayouts[state.selectedTokenSymbol],
+  );
+  const pinNodePosition = useKolStore((state) => state.pinNodePosition);
+  const workerRef = useRef<Worker | null>(null);
+  const versionRef = useRef(0);
+  // 与布局线程中节点顺序一致的节点对象
+  const layoutNodesRef = useRef<GraphNode[]>([]);
+  const pinnedRef = useRef({ token: selectedTokenSymbol, layout: pinned });
+  const onTickRef = useRef(onTick);
+  onTickRef.current = onTick;
+  const [running, setRunning] = useState(false);
+
+  // 只读取 workerRef，引用保持不变，布局 effect 不会因重新渲染而重建布局
+  const post = useCallback(
+    (message: LayoutRequest) => workerRef.current?.postMessage(message),
+    [],
+  );
+
+  useEffect(() => {
+    const worker = new Worker(
+      new URL("../lib/graph/layout.worker.ts", import.meta.url),
+    );
+    worker.onmessage = ({ data: message }: MessageEvent<LayoutResponse>) => {
+      // 忽略重建布局前发出的消息
+      if (message.version !== versionRef.current) return;
+      if (message.type === "end") {
+        setRunning(false);
+        return;
+      }
+      layoutNodesRef.current.forEach((node, index) => {
+        node.x = message.positions[index * 2];
+        node.y = message.positions[index * 2 + 1];
+        lastPositions.set(node.id, [node.x, node.y]);
+      });
+      onTickRef.current?.();
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // 数据或大小依据变化后重建布局
+  useEffect(() => {
+    const { layout } = pinnedRef.current;
+    let placed = 0;
+    const layoutNodes = nodes.map((node): LayoutNode => {
+      const share = sizeShares?.get(node.id) ?? node.percentage;
+      // 拖拽、播放或邻域中心固定的节点优先，其次是保存的固定布局
+      const fixed: [number, number] | undefined =
+        node.fx !== undefined && node.fy !== undefined
+          ? [node.fx, node.fy]
+          : layout?.[node.id];
+      const position = fixed ?? lastPositions.get(node.id);
+      if (position) placed++;
+      return {
+        id: node.id,
+        x: position?.[0],
+        y: position?.[1],
+        fx: fixed?.[0],
+        fy: fixed?.[1],
+        radial: 100 + 100 * (1 - share / 100),
+        collide: getRadius(share) + 4,
+      };
+    });
+    layoutNodesRef.current = nodes;
+    post({
+      type: "init",
+      version: ++versionRef.current,
+      nodes: layoutNodes,
+      links: links.map((link) => ({
+        source: linkEndId(link.source),
+        target: linkEndId(link.target),
+      })),
+      alpha: placed >= nodes.length * WARM_START_RATIO ? WARM_ALPHA : 1,
+    });
+    setRunning(true);
+  }, [nodes, links, sizeShares, post]);
+
+  // 固定或取消固定布局后，按保存的坐标固定节点或释放节点；切换代币时等待新数据重建布局
+  useEffect(() => {
+    const previous = pinnedRef.current;
+    pinnedRef.current = { token: selectedTokenSymbol, layout: pinned };
+    if (previous.token !== selectedTokenSymbol || previous.layout === pinned) {
+      return;
+    }
+    const fixes = layoutNodesRef.current.flatMap((node): LayoutFix[] => {
+      if (node.fx !== undefined) return [];
+      const position = pinned?.[node.id];
+      if (position) {
+        return [{ id: node.id, fx: position[0], fy: position[1] }];
+      }
+      return previous.layout?.[node.id]
+        ? [{ id: node.id, fx: null, fy: null }]
+        : [];
+    });
+    if (!fixes.length) return;
+    post({
+      type: "fix",
+      fixes,
+      alphaTarget: 0,
+      alpha: pinned ? undefined : WARM_ALPHA,
+    });
+    setRunning(true);
+  }, [selectedTokenSymbol, pinned, post]);
+
+  /**
+   * 拖拽中把节点固定在指针位置，并保持布局运行
+   */
+  const drag = (node: GraphNode, x: number, y: number) => {
+    post({
+      type: "fix",
+      fixes: [{ id: node.id, fx: x, fy: y }],
+      alphaTarget: DRAG_ALPHA_TARGET,
+    });
+    setRunning(true);
+  };
+
+  /**
+   * 拖拽结束后把节点固定在当前位置，布局已固定时同时更新保存的坐标
+   */
+  const dragEnd = (node: GraphNode) => {
+    if (node.x === undefined || node.y === undefined) return;
+    post({
+      type: "fix",
+      fixes: [{ id: node.id, fx: node.x, fy: node.y }],
+      alphaTarget: 0,
+    });
+    pinNodePosition(selectedTokenSymbol, node.id, [node.x, node.y]);
+  };
+
+  return { running, drag, dragEnd };
+}
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef } from "react";
+import { http } from "@/http/client";
+import { selectGraphFilters, useKolStore } from "@/stores/kol-store";
+import dayjs from "dayjs";
+
+import type { GraphData, GraphTimeline } from "@/types/graph";
+import type { GraphTimelineRequest } from "@/lib/api/contracts";
+import { toastError } from "@/lib/api/error-message";
+
+// 每次请求的快照数
+const CHUNK_FRAMES = 24;
+// 缓冲区剩余帧数低于该值时预取下一段
+const PREFETCH_THRESHOLD = 8;
+// 1 倍速下每帧停留的毫秒数
+export const BASE_FRAME_MS = 1000;
+
+interface PlaybackFrame {
+  time: number;
+  data: GraphData;
+}
+
+/**
+ * 将时间序列展开为逐帧的图数据，隐去当前窗口内没有记录的节点
+ */
+function toPlaybackFrames(timeline: GraphTimeline): PlaybackFrame[] {
+  const nodeById = new Map(timeline.nodes.map((node) => [node.id, node]));
+  return timeline.frames.map((frame) => {
+    const nodes = frame.nodes
+      .filter((state) => state.opacity > 0)
+      .map((state) => ({ ...nodeById.get(state.id)!, ...state }));
+    const ids = new Set(nodes.map((node) => node.id));
+    const links = frame.links.filter(
+      (link) =>
+        ids.has(link.source as string) && ids.has(link.target as string),
+    );
+    return { time: frame.time, data: { nodes, links } };
+  });
+}
+
+/**
+ * 时间轴播放：按 timeGranularity 步进 filterTime，分段请求 /graph/timeline 并预取后续快照
+ *
+ * @param onFrame 每帧回调，传入该时间点的图数据
+ */
+export function useGraphPlayback(onFrame: (data: GraphData) => void) {
+  const { isPlaying, playbackSpeed, setIsPlaying, setFilterTime } =
+    useKolStore();
+
+  const bufferRef = useRef<PlaybackFrame[]>([]);
+  // 下一段的起始时间，null 表示已取到区间终点
+  const nextStartRef = useRef<number | null>(null);
+  const fetchingRef = useRef(false);
+  // 每次开始/停止播放时递增，丢弃过期的响应
+  const generationRef = useRef(0);
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+
+  const fetchChunk = useCallback(async () => {
+    const start = nextStartRef.current;
+    if (start === null || fetchingRef.current) return;
+    const state = useKolStore.getState();
+    const { timeGranularity, timeRange } = state;
+    const end = Math.min(
+      timeRange[1],
+      dayjs(start)
+        .add(CHUNK_FRAMES - 1, timeGranularity)
+        .valueOf(),
+    );
+    const generation = generationRef.current;
+    fetchingRef.current = true;
+    try {
+      const timeline = await http.post<GraphTimeline>("/graph/timeline", {
+        ...selectGraphFilters(state),
+        start,
+        end,
+        step: timeGranularity,
+      } satisfies GraphTimelineRequest);
+      if (generation !== generationRef.current) return;
+      bufferRef.current.push(...toPlaybackFrames(timeline));
+      const next = dayjs(end).add(1, timeGranularity).valueOf();
+      nextStartRef.current = next <= timeRange[1] ? next : null;
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      toastError(err);
+      setIsPlaying(false);
+    } finally {
+      if (generation === generationRef.current) fetchingRef.current = false;
+    }
+  }, [setIsPlaying]);
+
+  // 开始播放时从当前时间（已到终点则从起点）开始缓冲
+  useEffect(() => {
+    generationRef.current += 1;
+    bufferRef.current = [];
+    fetchingRef.current = false;
+    if (!isPlaying) {
+      nextStartRef.current = null;
+      return;
+    }
+    const { filterTime, timeRange } = useKolStore.getState();
+    nextStartRef.current =
+      filterTime >= timeRange[1] ? timeRange[0] : filterTime;
+    fetchChunk();
+  }, [isPlaying, fetchChunk]);
+
+  // 按倍速逐帧推进
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      const frame = bufferRef.current.shift();
+      if (frame) {
+        setFilterTime(frame.time);
+        onFrameRef.current(frame.data);
+      } else if (nextStartRef.current === null && !fetchingRef.current) {
+        // 已播放到终点
+        const { playbackLoop, timeRange } = useKolStore.getState();
+        if (playbackLoop) {
+          nextStartRef.current = timeRange[0];
+        } else {
+          setIsPlaying(false);
+          return;
+        }
+      }
+      if (bufferRef.current.length < PREFETCH_THRESHOLD) {
+        fetchChunk();
+      }
+    }, BASE_FRAME_MS / playbackSpeed);
+    return () => clearInterval(timer);
+  }, [isPlaying, playbackSpeed, fetchChunk, setFilterTime, setIsPlaying]);
+}
@@ -0,0 +1,91 @@
+import { useCallback, useMemo, useRef } from "react";
+
+import type { GraphNode } from "@/types/graph";
+
+// 参与插值的节点视觉属性
+export type NodeVisual = Pick<
+  GraphNode,
+  "score_metrics" | "opacity" | "percentage"
+>;
+
+interface NodeTransition {
+  from: NodeVisual;
+  start: number; // performance.now() 时间
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * 数据更新时，同 id 的节点沿用上一帧的位置，并记录大小、颜色插值的起点
+ *
+ * @param nodes 当前的图谱节点
+ * @param transitionMs 节点大小、颜色在两次数据之间的插值时长
+ * @param stableLayout 固定沿用上一帧的节点位置，用于时间轴播放
+ */
+export function useNodeTransitions(
+  nodes: GraphNode[],
+  transitionMs: number,
+  stableLayout: boolean,
+) {
+  const prevNodesRef = useRef(new Map<string, GraphNode>());
+  const transitionsRef = useRef(new Map<string, NodeTransition>());
+  // 用户拖拽固定过的节点
+  const draggedIdsRef = useRef(new Set<string>());
+
+  /**
+   * 计算节点当前的视觉属性，处于过渡中时在起止值之间插值
+   */
+  const getVisual = useCallback(
+    (node: GraphNode, now: number): NodeVisual => {
+      const transition = transitionsRef.current.get(node.id);
+      if (!transition || transitionMs <= 0) return node;
+      const t = Math.min(1, (now - transition.start) / transitionMs);
+      if (t >= 1) {
+        transitionsRef.current.delete(node.id);
+        return node;
+      }
+      return {
+        score_metrics: lerp(
+          transition.from.score_metrics,
+          node.score_metrics,
+          t,
+        ),
+        opacity: lerp(transition.from.opacity, node.opacity, t),
+        percentage: lerp(transition.from.percentage, node.percentage, t),
+      };
+    },
+    [transitionMs],
+  );
+
+  // 只有新数据中的节点对象与上一次不同，其余参数变化时重新执行不会改动节点
+  useMemo(() => {
+    const now = performance.now();
+    const next = new Map<string, GraphNode>();
+    nodes.forEach((node) => {
+      const prev = prevNodesRef.current.get(node.id);
+      if (prev && prev !== node) {
+        node.x = prev.x;
+        node.y = prev.y;
+        node.vx = prev.vx;
+        node.vy = prev.vy;
+        if (draggedIdsRef.current.has(node.id)) {
+          node.fx = prev.fx;
+          node.fy = prev.fy;
+        } else if (stableLayout) {
+          node.fx = prev.x;
+          node.fy = prev.y;
+        }
+        if (transitionMs > 0) {
+          transitionsRef.current.set(node.id, {
+            from: getVisual(prev, now),
+            start: now,
+          });
+        }
+      }
+      next.set(node.id, node);
+    });
+    prevNodesRef.current = next;
+  }, [nodes, transitionMs, stableLayout, getVisual]);
+
+  return { getVisual, transitionsRef, draggedIdsRef };
+}
@@ -0,0 +1,141 @@
+import { useEffect, useRef } from "react";
+import { useKolStore } from "@/stores/kol-store";
+import debounce from "lodash.debounce";
+
+import type { SimpleKOL } from "@/types/kol";
+import type { InteractionType } from "@/lib/api/contracts";
+import { parseViewState, serializeViewState } from "@/lib/url-state";
+
+// 状态变化写回地址栏的间隔，避免拖动滑块或播放时频繁 replaceState
+const URL_WRITE_DELAY = 300;
+
+/**
+ * 视图状态与地址栏查询参数双向同步：打开链接时以 URL 为准恢复状态，之后状态变化写回 URL
+ *
+ * @param kols 当前图中的 KOL，用于将 URL 中的 KOL ID 还原为选中对象
+ */
+export function useUrlState(kols: SimpleKOL[]) {
+  const hydrated = useKolStore((state) => state.hydrated);
+
+  // 等待图数据返回后再还原的选中 / 目标 KOL
+  const pendingKolRef = useRef<{
+    selectedKolId?: string | null;
+    targetKolId?: string | null;
+  }>({});
+
+  // URL → store：首次加载及浏览器前进后退时应用
+  useEffect(() => {
+    if (!hydrated) return;
+
+    const applyUrl = () => {
+      const { selectedKolId, targetKolId, ...state } = parseViewState(
+        window.location.search,
+      );
+      const store = useKolStore.getState();
+      if (state.token) store.setSelectedTokenSymbol(state.token);
+      if (state.filterTime) store.setFilterTime(state.filterTime);
+      if (state.filterFollowers !== undefined) {
+        store.setFilterFollowers(state.filterFollowers);
+      }
+      if (state.ttl !== undefined) store.setTtl(state.ttl);
+      if (state.bubbleNum !== undefined) store.setBubbleNum(state.bubbleNum);
+      if (state.topRatio !== undefined) store.setTopRatio(state.topRatio);
+      Object.entries(state.linkWeights ?? {}).forEach(([type, weight]) =>
+        store.setLinkWeight(type as InteractionType, weight),
+      );
+      if (state.volatility !== undefined) {
+        store.setManualVolatility(state.volatility);
+      }
+      // 打开分享链接时以链接中的关注 / 屏蔽列表为准，空列表不会写入 URL；
+      // 链接中没有波动率时按 K 线推算
+      if (state.token) {
+        store.setInterestedKolIds(state.interestedKolIds ?? []);
+        store.setExcludedKolIds(state.excludedKolIds ?? []);
+        store.setVolatilityMode(
+          state.volatility !== undefined ? "manual" : "candles",
+        );
+      }
+      if (selectedKolId === undefined) {
+        store.setSelectedKol(null);
+      }
+      pendingKolRef.current = { selectedKolId, targetKolId };
+    };
+
+    applyUrl();
+
+    // store → URL
+    const writeUrl = debounce(() => {
+      const state = useKolStore.getState();
+      const search = serializeViewState({
+        token: state.selectedTokenSymbol,
+        filterTime: state.filterTime,
+        filterFollowers: state.filterFollowers,
+        ttl: state.ttl,
+        bubbleNum: state.bubbleNum,
+        topRatio: state.topRatio,
+        volatility:
+          state.volatilityMode === "manual"
+            ? state.manualVolatility
+            : undefined,
+        linkWeights: state.linkWeights,
+        // 仍在等待还原时保留 URL 中的值
+        selectedKolId:
+          state.selectedKol?.id ?? pendingKolRef.current.selectedKolId,
+        targetKolId: state.targetKol?.id ?? pendingKolRef.current.targetKolId,
+        interestedKolIds: state.interestedKolIds,
+        excludedKolIds: state.excludedKolIds,
+      });
+      const url = `${window.location.pathname}${search ? `?${search}` : ""}`;
+      if (url !== `${window.location.pathname}${window.location.search}`) {
+        window.history.replaceState(window.history.state, "", url);
+      }
+    }, URL_WRITE_DELAY);
+
+    const unsubscribe = useKolStore.subscribe((state, prev) => {
+      if (
+        state.selectedTokenSymbol !== prev.selectedTokenSymbol ||
+        state.filterTime !== prev.filterTime ||
+        state.filterFollowers !== prev.filterFollowers ||
+        state.ttl !== prev.ttl ||
+        state.bubbleNum !== prev.bubbleNum ||
+        state.topRatio !== prev.topRatio ||
+        state.volatilityMode !== prev.volatilityMode ||
+        state.manualVolatility !== prev.manualVolatility ||
+        state.linkWeights !== prev.linkWeights ||
+        state.selectedKol !== prev.selectedKol ||
+        state.targetKol !== prev.targetKol ||
+        state.interestedKolIds !== prev.interestedKolIds ||
+        state.excludedKolIds !== prev.excludedKolIds
+      ) {
+        writeUrl();
+      }
+    });
+
+    const handlePopState = () => {
+      writeUrl.cancel();
+      applyUrl();
+    };
+    window.addEventListener("popstate", handlePopState);
+
+    return () => {
+      unsubscribe();
+      writeUrl.cancel();
+      window.removeEventListener("popstate", handlePopState);
+    };
+  }, [hydrated]);
+
+  // 图数据返回后还原选中的 KOL 对
+  useEffect(() => {
+    const { selectedKolId, targetKolId } = pendingKolRef.current;
+    if (!selectedKolId || !kols.length) return;
+    pendingKolRef.current = {};
+
+    const selected = kols.find((kol) => kol.id === selectedKolId);
+    if (!selected) return;
+    const store = useKolStore.getState();
+    // setSelectedKol 会清空 targetKol，需先设置
+    store.setSelectedKol(selected);
+    const target = kols.find((kol) => kol.id === targetKolId);
+    if (target) store.setTargetKol(target);
+  }, [kols]);
+}
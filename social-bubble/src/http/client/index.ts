@@ -1,9 +1,34 @@
 import axios, {
   type AxiosError,
+  type AxiosRequestConfig,
   type AxiosResponse,
   type InternalAxiosRequestConfig,
 } from "axios";
 
+import { ApiErrorCode, type ApiFailure, type FieldError } from "@/types/api";
+
+/**
+ * 接口请求失败时 reject 的错误，携带服务端返回的错误码
+ */
+export class HttpError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status?: number;
+  readonly errors?: FieldError[];
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    status?: number,
+    errors?: FieldError[],
+  ) {
+    super(message);
+    this.name = "HttpError";
+    this.code = code;
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
 // Create axios instance
 const service = axios.create({
   baseURL: "/api",
@@ -12,11 +37,29 @@ const service = axios.create({
 });
 
 // Handle Error
-const handleError = (error: AxiosError): Promise<AxiosError> => {
+const handleError = (error: AxiosError<ApiFailure>): Promise<HttpError> => {
   if (error.response?.status === 401 || error.response?.status === 504) {
     console.log("未认证");
   }
-  return Promise.reject(error);
+  const body = error.response?.data;
+  if (body && typeof body.code === "number") {
+    return Promise.reject(
+      new HttpError(
+        body.code,
+        body.message,
+        error.response?.status,
+        body.errors,
+      ),
+    );
+  }
+  // 没有响应体：请求超时或网络不可达
+  const code =
+    error.code === "ECONNABORTED" || error.code === "ETIMEDOUT"
+      ? ApiErrorCode.Timeout
+      : ApiErrorCode.Unknown;
+  return Promise.reject(
+    new HttpError(code, error.message, error.response?.status),
+  );
 };
 
 // Request interceptors configuration
@@ -30,16 +73,27 @@ service.interceptors.response.use((response: AxiosResponse) => {
   if (data.code === 0) {
     return data.data;
   } else {
-    return Promise.reject("error");
+    return Promise.reject(
+      new HttpError(data.code, data.message, response.status, data.errors),
+    );
   }
 }, handleError);
 
+// 单个请求额外携带的请求头
+type RequestOptions = Pick<AxiosRequestConfig, "headers">;
+
 class Http {
-  get<T>(url: string, params?: object): Promise<T> {
-    return service.get(url, { params }) as unknown as Promise<T>;
+  get<T>(url: string, params?: object, options?: RequestOptions): Promise<T> {
+    return service.get(url, { ...options, params }) as unknown as Promise<T>;
+  }
+  post<T>(url: string, data?: object, options?: RequestOptions): Promise<T> {
+    return service.post(url, data, options) as unknown as Promise<T>;
+  }
+  put<T>(url: string, data?: object, options?: RequestOptions): Promise<T> {
+    return service.put(url, data, options) as unknown as Promise<T>;
   }
-  post<T>(url: string, data?: object): Promise<T> {
-    return service.post(url, data) as unknown as Promise<T>;
+  delete<T>(url: string, options?: RequestOptions): Promise<T> {
+    return service.delete(url, options) as unknown as Promise<T>;
   }
 }
 
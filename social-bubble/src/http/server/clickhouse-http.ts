@@ -1,19 +1,26 @@
-import { createClient } from '@clickhouse/client'
+import { createClient, type ClickHouseClient } from '@clickhouse/client'
 
+let client: ClickHouseClient | null = null
 
-export const clickhouseClient = createClient({
-  url: `http://${process.env.CK_HOST}:${process.env.CK_PORT}`,
-  username: process.env.CK_USERNAME!,
-  password: process.env.CK_PASSWORD!,
-  database: process.env.CK_DATABASE || "default",
-  clickhouse_settings: {
-    async_insert: 1,
-    wait_for_async_insert: 1,
-  },
-  // 仅查询相关配置
-  max_open_connections: 10, // 连接池大小
-  keep_alive: {
-    enabled: true,
-    idle_socket_ttl: 25000,
+// 首次查询时才创建连接，使用离线后端时无需配置 CK_HOST
+export function getClickhouseClient() {
+  if (!client) {
+    client = createClient({
+      url: `http://${process.env.CK_HOST}:${process.env.CK_PORT}`,
+      username: process.env.CK_USERNAME!,
+      password: process.env.CK_PASSWORD!,
+      database: process.env.CK_DATABASE || "default",
+      clickhouse_settings: {
+        async_insert: 1,
+        wait_for_async_insert: 1,
+      },
+      // 仅查询相关配置
+      max_open_connections: 10, // 连接池大小
+      keep_alive: {
+        enabled: true,
+        idle_socket_ttl: 25000,
+      }
+    })
   }
-})
+  return client
+}
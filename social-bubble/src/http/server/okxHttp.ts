@@ -2,6 +2,9 @@ import type { AxiosResponse, AxiosError } from 'axios'
 import axios from 'axios'
 import { HttpsProxyAgent } from 'https-proxy-agent'
 
+import { ApiErrorCode } from '@/types/api'
+import { ApiError, toUpstreamError } from '@/lib/api/errors'
+
 // 代理
 let proxyAgent: HttpsProxyAgent<string> | undefined
 if (process.env.HTTPS_PROXY_URL) {
@@ -23,9 +26,11 @@ const service = axios.create({
 
 
 // Handle Error
-const handleError = (error: AxiosError): Promise<AxiosError> => {
+const handleError = (error: AxiosError): Promise<ApiError> => {
   // console.log('handler Error ----', error)
-  return Promise.reject(error.response?.data)
+  return Promise.reject(
+    toUpstreamError(error, ApiErrorCode.UpstreamOkx, 'OKX request failed'),
+  )
 }
 
 // Response interceptors configuration
@@ -34,7 +39,9 @@ service.interceptors.response.use((response: AxiosResponse) => {
   if (data.code === 0 || data.code === '0') { // okx的code是string类型
     return data
   } else {
-    return Promise.reject(data)
+    return Promise.reject(
+      new ApiError(ApiErrorCode.UpstreamOkx, `OKX error ${data.code}: ${data.msg}`),
+    )
   }
 }, handleError)
 
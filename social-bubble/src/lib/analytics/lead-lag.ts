@@ -0,0 +1,223 @@
+import type {
+  LagCorrelation,
+  LeadLagReport,
+  LeadLagResult,
+} from "@/types/analytics";
+import type { CandleData } from "@/types/candlestick";
+import type { LeadLagParams } from "@/lib/api/contracts";
+import { getCandleProvider } from "@/lib/candles/provider";
+import { queryClickhouse, type ClickhouseQuery } from "@/lib/clickhouse/query";
+import { resolveInstId } from "@/lib/tokens";
+
+const DAY_MS = 86400000;
+// OKX history-candles 单次最多返回 100 根
+const CANDLE_PAGE_LIMIT = 100;
+
+interface DailySentimentRow {
+  author_id: string;
+  day: string | number; // 当天 0 点（UTC），毫秒时间戳
+  score: number;
+}
+
+/**
+ * 查询一组 KOL 在窗口内对 token 的每日平均情绪，口径与 /api/user/sentiment-series 相同
+ */
+export function buildDailySentimentSQL(
+  params: Pick<LeadLagParams, "token" | "filter_time" | "days" | "user_ids">,
+): ClickhouseQuery {
+  const { token, filter_time, days, user_ids } = params;
+  return {
+    name: "analytics.dailySentiment",
+    query: `
+SELECT
+  author_id,
+  toUnixTimestamp(toStartOfDay(toDateTime(intDiv(created, 1000), 'UTC'))) * 1000 AS day,
+  avg(score)                                                                   AS score
+FROM user_graph_detail_score
+WHERE active_type = 'comment'
+  AND label = {token:String}
+  AND created <= {filter_time:Int64}
+  AND created > {filter_time:Int64} - {days:UInt32} * 86400000
+  AND has({user_ids:Array(Int64)}, author_id)
+GROUP BY author_id, day
+ORDER BY author_id, day;
+`,
+    params: {
+      token,
+      filter_time,
+      days,
+      user_ids,
+    },
+  };
+}
+
+/**
+ * 由日线收盘价计算每日收益率，键为 K 线所在的 UTC 自然日；相邻两根 K 线不连续时跳过
+ *
+ * @param candles 日线 K 线
+ */
+export function dailyReturns(candles: CandleData[]): Map<number, number> {
+  // 日线可能按 UTC+8 对齐，取最接近的 UTC 0 点
+  const closes = candles
+    .map((candle) => ({
+      day: Math.round((candle.time * 1000) / DAY_MS) * DAY_MS,
+      close: candle.close,
+    }))
+    .sort((a, b) => a.day - b.day);
+  const returns = new Map<number, number>();
+  closes.forEach((curr, index) => {
+    const prev = closes[index - 1];
+    if (!prev || curr.day - prev.day !== DAY_MS || prev.close <= 0) return;
+    returns.set(curr.day, curr.close / prev.close - 1);
+  });
+  return returns;
+}
+
+/**
+ * 皮尔逊相关系数，任一序列方差为 0 时返回 null
+ */
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2) return null;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    cov += dx * dy;
+    varX += dx * dx;
+    varY += dy * dy;
+  }
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : null;
+}
+
+/**
+ * 计算情绪序列与收益率序列在 -maxLag ~ maxLag 天滞后下的互相关：
+ * lag = k 时将第 d 天的情绪与第 d + k 天的收益率配对，k > 0 即情绪领先价格
+ *
+ * @param sentiment 每日情绪，键为 UTC 0 点毫秒时间戳
+ * @param returns 每日收益率，键同上
+ * @param maxLag 正负方向各考察的最大滞后天数
+ * @param minSamples 最少配对天数，不足的滞后不返回
+ */
+export function crossCorrelate(
+  sentiment: Map<number, number>,
+  returns: Map<number, number>,
+  maxLag: number,
+  minSamples: number,
+): LagCorrelation[] {
+  const correlations: LagCorrelation[] = [];
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    sentiment.forEach((score, day) => {
+      const ret = returns.get(day + lag * DAY_MS);
+      if (ret === undefined) return;
+      xs.push(score);
+      ys.push(ret);
+    });
+    if (xs.length < minSamples) continue;
+    const correlation = pearson(xs, ys);
+    if (correlation === null) continue;
+    correlations.push({ lag, correlation, samples: xs.length });
+  }
+  return correlations;
+}
+
+/**
+ * 取截止时间之前已经收盘的最近 count 根日线，超过单页上限时以最早一根的时间为 after 向前翻页
+ *
+ * @param instId K 线交易对
+ * @param filterTime 截止时间，毫秒时间戳
+ * @param count 需要的 K 线数量
+ * @returns 按时间升序的日线，历史不足时少于 count 根
+ */
+async function getDailyCandles(
+  instId: string,
+  filterTime: number,
+  count: number,
+) {
+  let candles: CandleData[] = [];
+  // after 为开盘时间的开区间上界，开盘时间不晚于 filterTime - DAY_MS 的日线已收盘
+  let after = filterTime - DAY_MS + 1;
+  while (candles.length < count) {
+    const page = await getCandleProvider().getCandles({
+      instId,
+      bar: "1Dutc",
+      after: String(after),
+      limit: String(Math.min(CANDLE_PAGE_LIMIT, count - candles.length)),
+    });
+    if (!page.length) break;
+    candles = [...page, ...candles];
+    after = page[0].time * 1000;
+  }
+  return candles;
+}
+
+/**
+ * 计算每个 KOL 的每日情绪与代币日收益率的领先滞后关系，按最佳滞后的相关系数绝对值降序
+ *
+ * @param params /api/analytics/lead-lag 的请求参数
+ */
+export async function getLeadLag(
+  params: LeadLagParams,
+): Promise<LeadLagReport> {
+  const { token, filter_time, days, user_ids, max_lag, min_samples } = params;
+  const instId = resolveInstId(token);
+
+  // 只使用截止时间之前已经收盘的价格，多取一根用于计算窗口第一天的收益率；
+  // 代币没有对应的交易对时按没有价格数据返回，而不是整个请求失败
+  const [candles, rows] = await Promise.all([
+    getDailyCandles(instId, filter_time, days + 1).catch((error) => {
+      console.error("获取日线失败:", error.message);
+      return [] as CandleData[];
+    }),
+    queryClickhouse<DailySentimentRow>(buildDailySentimentSQL(params)),
+  ]);
+  const returns = dailyReturns(
+    candles.filter((candle) => candle.time * 1000 + DAY_MS <= filter_time),
+  );
+
+  const sentimentByUser = new Map<string, Map<number, number>>();
+  rows.forEach((row) => {
+    const userId = String(row.author_id);
+    if (!sentimentByUser.has(userId)) sentimentByUser.set(userId, new Map());
+    sentimentByUser.get(userId)!.set(Number(row.day), Number(row.score));
+  });
+
+  const results: LeadLagResult[] = Array.from(new Set(user_ids)).map(
+    (userId) => {
+      const sentiment = sentimentByUser.get(userId) ?? new Map();
+      const correlations = crossCorrelate(
+        sentiment,
+        returns,
+        max_lag,
+        min_samples,
+      );
+      const best = correlations.reduce<LagCorrelation | null>(
+        (acc, item) =>
+          !acc || Math.abs(item.correlation) > Math.abs(acc.correlation)
+            ? item
+            : acc,
+        null,
+      );
+      return {
+        user_id: userId,
+        active_days: sentiment.size,
+        best,
+        correlations,
+      };
+    },
+  );
+  // 没有结果的 KOL 排在最后
+  const strengthOf = (result: LeadLagResult) =>
+    result.best ? Math.abs(result.best.correlation) : -1;
+  results.sort(
+    (a, b) => strengthOf(b) - strengthOf(a) || b.active_days - a.active_days,
+  );
+
+  return { token, inst_id: instId, price_days: returns.size, results };
+}
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+import { int64IdSchema, timestampSchema } from "./common";
+
+// 单次分析的 KOL 上限
+export const MAX_LEAD_LAG_USERS = 200;
+
+/**
+ * POST /api/analytics/lead-lag
+ */
+export const leadLagRequestSchema = z.object({
+  token: z.string().trim().min(1),
+  filter_time: timestampSchema, // 分析窗口的截止时间，毫秒时间戳
+  user_ids: z.array(int64IdSchema).min(1).max(MAX_LEAD_LAG_USERS),
+  days: z.number().int().min(14).max(290).default(90), // 分析窗口天数
+  max_lag: z.number().int().min(0).max(14).default(7), // 正负方向各考察的最大滞后天数
+  min_samples: z.number().int().min(3).max(290).default(10), // 计算相关系数所需的最少配对天数
+});
+
+export type LeadLagRequest = z.input<typeof leadLagRequestSchema>;
+export type LeadLagParams = z.output<typeof leadLagRequestSchema>;
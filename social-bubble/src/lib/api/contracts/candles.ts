@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+import { timestampStringSchema } from "./common";
+
+// OKX 支持的 K 线粒度，带 utc 后缀的按 UTC 零点切分
+export const CANDLE_BARS = [
+  "1s",
+  "1m",
+  "3m",
+  "5m",
+  "15m",
+  "30m",
+  "1H",
+  "2H",
+  "4H",
+  "6H",
+  "12H",
+  "1D",
+  "2D",
+  "3D",
+  "1W",
+  "1M",
+  "3M",
+  "6Hutc",
+  "12Hutc",
+  "1Dutc",
+  "2Dutc",
+  "3Dutc",
+  "1Wutc",
+  "1Mutc",
+  "3Mutc",
+] as const;
+
+export type CandleBar = (typeof CANDLE_BARS)[number];
+
+/**
+ * GET /api/market/candles
+ */
+export const candleRequestSchema = z.object({
+  instId: z
+    .string()
+    .trim()
+    // 产品ID，例如 "BTC-USDT"、"BTC-USDT-SWAP"；只允许字母数字和连字符，会拼入本地文件名
+    .regex(
+      /^[A-Za-z0-9]+(-[A-Za-z0-9]+){0,3}$/,
+      "Must be an OKX instrument id",
+    ),
+  bar: z.enum(CANDLE_BARS).default("1m"), // 粒度，例如 "1m", "5m", "1H", "1Dutc"
+  after: timestampStringSchema.optional(), // 请求早于某时间戳的数据
+  before: timestampStringSchema.optional(), // 请求晚于某时间戳的数据
+  // 返回数量，默认 100，最大 300；如果请求的历史数据接口，最大 100
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .refine((value) => Number(value) >= 1 && Number(value) <= 300, {
+      message: "Must be between 1 and 300",
+    })
+    .optional(),
+});
+
+export type CandleRequest = z.input<typeof candleRequestSchema>;
+export type CandleRequestQuery = z.output<typeof candleRequestSchema>;
@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+// Int64 的最大值，19 位数字中超过它的 ID 传给 ClickHouse 会直接报错
+const INT64_MAX = BigInt("9223372036854775807");
+
+/**
+ * 用户 ID（Int64），接受数字字符串或安全整数，统一输出为字符串
+ */
+export const int64IdSchema = z
+  .union([z.string(), z.number().int().nonnegative().safe()])
+  .transform((value) => String(value))
+  .pipe(
+    z
+      .string()
+      .regex(/^\d{1,19}$/, "Must be an Int64 id")
+      // 正则未通过时 refine 仍会执行，非数字交给上面的正则报错
+      .refine(
+        (value) => !/^\d+$/.test(value) || BigInt(value) <= INT64_MAX,
+        "Must be an Int64 id",
+      ),
+  );
+
+/**
+ * 毫秒时间戳
+ */
+export const timestampSchema = z.number().int().nonnegative();
+
+/**
+ * 查询字符串中的毫秒时间戳，保持字符串原样透传给上游
+ */
+export const timestampStringSchema = z
+  .string()
+  .regex(/^\d+$/, "Must be a millisecond timestamp");
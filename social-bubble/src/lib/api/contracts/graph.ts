@@ -0,0 +1,196 @@
+import { z } from "zod";
+
+import { int64IdSchema, timestampSchema } from "./common";
+
+// 参与连线计算的互动类型，取值与 ActiveType 一致
+export const INTERACTION_TYPES = [
+  "comment",
+  "retweeted",
+  "quoted",
+  "liked",
+  "follow",
+] as const;
+
+export type InteractionType = (typeof INTERACTION_TYPES)[number];
+
+// 各互动类型的默认权重，quoted / liked 默认不参与计算
+export const DEFAULT_INTERACTION_WEIGHTS: Record<InteractionType, number> = {
+  comment: 0.6,
+  retweeted: 0.3,
+  quoted: 0.3,
+  liked: 0.05,
+  follow: 0.1,
+};
+
+export const DEFAULT_INTERACTION_TYPES: InteractionType[] = [
+  "comment",
+  "retweeted",
+  "follow",
+];
+
+// Top KOL 的排序依据：粉丝数、影响力（粉丝数 × 情绪强度）、连线加权度中心性
+export const RANK_BY = ["followers", "influence", "centrality"] as const;
+
+export type RankBy = (typeof RANK_BY)[number];
+
+// 双向情绪分之和超过该值才保留连线
+export const DEFAULT_MIN_LINK_STRENGTH = 30;
+
+export const DEFAULT_TTL = 60; // 天数
+export const DEFAULT_BUBBLE_NUM = 150;
+export const DEFAULT_TOP_RATIO = 0.3;
+
+// 时间窗口天数、总节点数的取值范围
+export const TTL_RANGE = [1, 3650] as const;
+export const BUBBLE_NUM_RANGE = [1, 5000] as const;
+
+const weightSchema = (type: InteractionType) =>
+  z.number().min(0).max(1).default(DEFAULT_INTERACTION_WEIGHTS[type]);
+
+export const interactionWeightsSchema = z
+  .object({
+    comment: weightSchema("comment"),
+    retweeted: weightSchema("retweeted"),
+    quoted: weightSchema("quoted"),
+    liked: weightSchema("liked"),
+    follow: weightSchema("follow"),
+  })
+  .default({});
+
+/**
+ * POST /api/graph
+ */
+export const graphRequestSchema = z.object({
+  token: z.string().trim().min(1),
+  filter_time: timestampSchema, // 毫秒时间戳
+  filter_followers: z.number().int().nonnegative().default(0), // 最小粉丝数
+  add_user_list: z.array(int64IdSchema).default([]),
+  sub_user_list: z.array(int64IdSchema).default([]),
+  ttl: z
+    .number()
+    .int()
+    .min(TTL_RANGE[0])
+    .max(TTL_RANGE[1])
+    .default(DEFAULT_TTL), // 天数
+  // 波动率（-1 ~ 1），前端尚未取到 K 线时会传 null
+  volatility: z
+    .number()
+    .nullish()
+    .transform((value) => value ?? 0),
+  bubble_num: z
+    .number()
+    .int()
+    .min(BUBBLE_NUM_RANGE[0])
+    .max(BUBBLE_NUM_RANGE[1])
+    .default(DEFAULT_BUBBLE_NUM), // 总节点数
+  top_ratio: z.number().min(0).max(1).default(DEFAULT_TOP_RATIO), // Top 样本比例（0～1）
+  rank_by: z.enum(RANK_BY).default("followers"), // Top KOL 排序依据
+  weights: interactionWeightsSchema, // 各互动类型的权重（0～1）
+  // 参与连线计算的互动类型，未列出的类型权重视为 0
+  interaction_types: z
+    .array(z.enum(INTERACTION_TYPES))
+    .default(DEFAULT_INTERACTION_TYPES),
+  min_link_strength: z
+    .number()
+    .min(-200)
+    .max(200)
+    .default(DEFAULT_MIN_LINK_STRENGTH), // 连线阈值
+});
+
+export type GraphRequest = z.input<typeof graphRequestSchema>;
+export type GraphRequestParams = z.output<typeof graphRequestSchema>;
+
+// 单次请求最多返回的快照数
+export const MAX_TIMELINE_FRAMES = 400;
+
+// 各步长的近似毫秒数，仅用于估算快照数量，实际时间点按日历计算
+export const TIMELINE_STEP_MS = {
+  day: 86400000,
+  week: 7 * 86400000,
+  month: 30 * 86400000,
+  year: 365 * 86400000,
+} as const;
+
+/**
+ * POST /api/graph/timeline
+ */
+export const graphTimelineRequestSchema = graphRequestSchema
+  .omit({ filter_time: true })
+  .extend({
+    start: timestampSchema, // 起始时间，毫秒时间戳
+    end: timestampSchema, // 结束时间，毫秒时间戳
+    step: z.enum(["day", "week", "month", "year"]).default("day"), // 快照间隔
+  })
+  .refine((params) => params.start <= params.end, {
+    message: "Must not be earlier than start",
+    path: ["end"],
+  })
+  .refine(
+    (params) =>
+      (params.end - params.start) / TIMELINE_STEP_MS[params.step] <
+      MAX_TIMELINE_FRAMES,
+    {
+      message: `Range must not exceed ${MAX_TIMELINE_FRAMES} steps`,
+      path: ["end"],
+    },
+  );
+
+export type GraphTimelineRequest = z.input<typeof graphTimelineRequestSchema>;
+export type GraphTimelineParams = z.output<typeof graphTimelineRequestSchema>;
+
+export const EGO_DEPTHS = [1, 2] as const;
+export type EgoDepth = (typeof EGO_DEPTHS)[number];
+
+/**
+ * POST /api/graph/ego
+ */
+export const graphEgoRequestSchema = graphRequestSchema
+  .pick({
+    token: true,
+    filter_time: true,
+    ttl: true,
+    top_ratio: true,
+    rank_by: true,
+    weights: true,
+    interaction_types: true,
+    min_link_strength: true,
+  })
+  .extend({
+    user_id: int64IdSchema, // 中心 KOL
+    depth: z
+      .union([z.literal(EGO_DEPTHS[0]), z.literal(EGO_DEPTHS[1])])
+      .default(1), // 展开的跳数
+    max_nodes: z.number().int().min(2).max(1000).default(150), // 含中心在内的节点上限
+  });
+
+export type GraphEgoRequest = z.input<typeof graphEgoRequestSchema>;
+export type GraphEgoParams = z.output<typeof graphEgoRequestSchema>;
+
+// 影响路径的最大跳数上限
+export const MAX_PATH_HOPS = 6;
+
+/**
+ * POST /api/graph/path
+ */
+export const graphPathRequestSchema = graphRequestSchema
+  .pick({
+    token: true,
+    filter_time: true,
+    ttl: true,
+    weights: true,
+    interaction_types: true,
+    min_link_strength: true,
+  })
+  .extend({
+    source_id: int64IdSchema, // 起点 KOL
+    target_id: int64IdSchema, // 终点 KOL
+    max_hops: z.number().int().min(1).max(MAX_PATH_HOPS).default(4), // 路径最多经过的连线数
+    max_paths: z.number().int().min(1).max(5).default(3), // 返回的备选路径数
+  })
+  .refine((params) => params.source_id !== params.target_id, {
+    message: "Must differ from source_id",
+    path: ["target_id"],
+  });
+
+export type GraphPathRequest = z.input<typeof graphPathRequestSchema>;
+export type GraphPathParams = z.output<typeof graphPathRequestSchema>;
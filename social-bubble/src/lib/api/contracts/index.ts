@@ -0,0 +1,9 @@
+export * from "./analytics";
+export * from "./candles";
+export * from "./common";
+export * from "./graph";
+export * from "./meta";
+export * from "./presets";
+export * from "./tokens";
+export * from "./tweet";
+export * from "./user";
@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+/**
+ * GET /api/meta/data-range
+ */
+export const coverageRequestSchema = z.object({
+  token: z.string().trim().optional(), // 为空时返回全部代币
+});
+
+export type CoverageRequest = z.input<typeof coverageRequestSchema>;
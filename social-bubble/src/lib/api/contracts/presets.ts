@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+import { graphRequestSchema } from "./graph";
+
+// 预设按同步密钥归属，每个密钥只能读写自己的预设；在另一台机器上填入同一密钥即可同步
+export const PRESET_KEY_HEADER = "X-Preset-Key";
+
+/**
+ * /api/presets 系列接口的 X-Preset-Key 请求头，由浏览器生成的随机密钥
+ */
+export const presetKeySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9_-]{16,128}$/, "Must be 16-128 letters, digits, - or _");
+
+/**
+ * POST /api/presets、PUT /api/presets/[id]
+ *
+ * 预设保存的筛选条件与 /api/graph 的同名参数一致
+ */
+export const presetInputSchema = graphRequestSchema
+  .pick({
+    token: true,
+    filter_followers: true,
+    ttl: true,
+    bubble_num: true,
+    add_user_list: true,
+    sub_user_list: true,
+  })
+  .extend({
+    name: z.string().trim().min(1).max(64),
+  });
+
+export type PresetInput = z.input<typeof presetInputSchema>;
+export type PresetInputParams = z.output<typeof presetInputSchema>;
+
+/**
+ * POST /api/presets/import
+ *
+ * 导入导出的 JSON 文件，其中的 id、updated 等字段会被忽略
+ */
+export const presetImportSchema = z.array(presetInputSchema).min(1).max(500);
+
+export type PresetImport = z.input<typeof presetImportSchema>;
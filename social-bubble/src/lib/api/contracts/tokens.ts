@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+/**
+ * GET /api/tokens
+ */
+export const tokensRequestSchema = z.object({
+  query: z.string().trim().default(""), // 按代币名称模糊匹配，为空时返回全部
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+export type TokensRequest = z.input<typeof tokensRequestSchema>;
+export type TokensRequestParams = z.output<typeof tokensRequestSchema>;
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+import { int64IdSchema, timestampSchema } from "./common";
+
+/**
+ * POST /api/tweet
+ */
+export const tweetRequestSchema = z
+  .object({
+    author_id: int64IdSchema, // 主用户 A
+    label_id: int64IdSchema.nullish().transform((value) => value ?? null), // 可选：用户 B
+    token: z.string().trim().default(""), // 当 label_id 为空时必填
+    ttl: z.number().int().min(1).max(3650).default(30), // 时间窗口天数
+    page_size: z.number().int().min(1).max(100), // 每页条数
+    page_num: z.number().int().min(1), // 页码，从 1 开始
+    filter_time: timestampSchema, // 参考时间戳 ms
+  })
+  .refine((params) => params.label_id !== null || params.token !== "", {
+    message: "Required when label_id is empty",
+    path: ["token"],
+  });
+
+export type TweetRequest = z.input<typeof tweetRequestSchema>;
+export type TweetRequestParams = z.output<typeof tweetRequestSchema>;
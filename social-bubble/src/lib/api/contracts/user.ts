@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+import { int64IdSchema, timestampStringSchema } from "./common";
+
+/**
+ * GET /api/user
+ */
+export const userRequestSchema = z.object({
+  id: int64IdSchema,
+});
+
+/**
+ * GET /api/user/search
+ */
+export const userSearchRequestSchema = z.object({
+  query: z.string().trim().min(1, "Missing search keyword"),
+});
+
+/**
+ * GET /api/user/sentiment-series
+ */
+export const userSentimentSeriesRequestSchema = z.object({
+  id: int64IdSchema,
+  token: z.string().trim().min(1),
+  filter_time: timestampStringSchema, // 序列的截止时间，毫秒时间戳
+  days: z.coerce.number().int().min(1).max(365).default(90), // 向前回溯的天数
+});
+
+export type UserRequest = z.input<typeof userRequestSchema>;
+export type UserSearchRequest = z.input<typeof userSearchRequestSchema>;
+export type UserSentimentSeriesRequest = z.input<
+  typeof userSentimentSeriesRequestSchema
+>;
@@ -0,0 +1,62 @@
+import { HttpError } from "@/http/client";
+import { toast } from "sonner";
+
+import { ApiErrorCode } from "@/types/api";
+
+export interface ErrorMessage {
+  title: string;
+  description: string;
+}
+
+const MESSAGES: Record<ApiErrorCode, ErrorMessage> = {
+  [ApiErrorCode.Unknown]: {
+    title: "Something went wrong",
+    description: "The server could not complete the request.",
+  },
+  [ApiErrorCode.Validation]: {
+    title: "Invalid filters",
+    description: "Some request parameters were rejected by the server.",
+  },
+  [ApiErrorCode.NotFound]: {
+    title: "Not found",
+    description: "The requested item does not exist.",
+  },
+  [ApiErrorCode.Timeout]: {
+    title: "Request timed out",
+    description: "The query took too long. Try a shorter time window.",
+  },
+  [ApiErrorCode.UpstreamClickhouse]: {
+    title: "Database unavailable",
+    description: "The graph database is not responding. Try again later.",
+  },
+  [ApiErrorCode.UpstreamOkx]: {
+    title: "Market data unavailable",
+    description: "Candlestick data from OKX could not be loaded.",
+  },
+};
+
+/**
+ * 将请求错误映射为面向用户的标题和描述
+ *
+ * @param error http 客户端 reject 的错误
+ */
+export function getErrorMessage(error: unknown): ErrorMessage {
+  const code = error instanceof HttpError ? error.code : ApiErrorCode.Unknown;
+  const message = MESSAGES[code] ?? MESSAGES[ApiErrorCode.Unknown];
+  if (code === ApiErrorCode.Validation && error instanceof HttpError) {
+    const fields = error.errors?.map((e) => e.field).join(", ");
+    if (fields) {
+      return { ...message, description: `Check: ${fields}` };
+    }
+  }
+  return message;
+}
+
+/**
+ * 以 toast 提示请求错误，同一错误码的提示会合并为一条
+ */
+export function toastError(error: unknown) {
+  const code = error instanceof HttpError ? error.code : ApiErrorCode.Unknown;
+  const { title, description } = getErrorMessage(error);
+  toast.error(title, { id: `api-error-${code}`, description });
+}
@@ -0,0 +1,60 @@
+import { ApiErrorCode } from "@/types/api";
+
+/**
+ * 错误码对应的默认 HTTP 状态
+ */
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  [ApiErrorCode.Unknown]: 500,
+  [ApiErrorCode.Validation]: 400,
+  [ApiErrorCode.NotFound]: 404,
+  [ApiErrorCode.Timeout]: 504,
+  [ApiErrorCode.UpstreamClickhouse]: 502,
+  [ApiErrorCode.UpstreamOkx]: 502,
+};
+
+/**
+ * 携带错误码的服务端错误，由数据访问层抛出，路由层统一转换为响应
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+
+  constructor(code: ApiErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+/**
+ * 判断底层错误是否为超时（axios、Node socket、ClickHouse 客户端）
+ */
+export function isTimeoutError(error: any): boolean {
+  return (
+    error?.code === "ECONNABORTED" ||
+    error?.code === "ETIMEDOUT" ||
+    error?.name === "TimeoutError" ||
+    /timeout/i.test(error?.message ?? "")
+  );
+}
+
+/**
+ * 将上游错误包装为 ApiError，超时优先归类为 Timeout
+ *
+ * @param error 原始错误
+ * @param code 非超时情况下使用的上游错误码
+ * @param message 对外展示的错误信息
+ */
+export function toUpstreamError(
+  error: unknown,
+  code: ApiErrorCode,
+  message: string,
+): ApiError {
+  if (error instanceof ApiError) return error;
+  return isTimeoutError(error)
+    ? new ApiError(ApiErrorCode.Timeout, `${message}: timeout`, {
+        cause: error,
+      })
+    : new ApiError(code, message, { cause: error });
+}
@@ -1,9 +1,49 @@
 import { NextResponse } from "next/server";
 
-export function ok<T>(data: T) {
-  return NextResponse.json({ code: 0, data });
+import {
+  ApiErrorCode,
+  type ApiFailure,
+  type ApiSuccess,
+  type FieldError,
+} from "@/types/api";
+import { ApiError } from "@/lib/api/errors";
+
+export function ok<T>(data: T, init?: ResponseInit) {
+  return NextResponse.json<ApiSuccess<T>>({ code: 0, data }, init);
+}
+
+interface FailOptions {
+  code?: ApiErrorCode; // 缺省时按 HTTP 状态推断
+  errors?: FieldError[];
+}
+
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 400) return ApiErrorCode.Validation;
+  if (status === 404) return ApiErrorCode.NotFound;
+  if (status === 504) return ApiErrorCode.Timeout;
+  return ApiErrorCode.Unknown;
+}
+
+export function fail(
+  message = "请求失败",
+  status = 500,
+  { code = codeForStatus(status), errors }: FailOptions = {},
+) {
+  return NextResponse.json<ApiFailure>(
+    { code, message, ...(errors && { errors }) },
+    { status },
+  );
 }
 
-export function fail(message = "请求失败", status = 500) {
-  return NextResponse.json({ code: -1, message }, { status });
+/**
+ * 将路由捕获的异常转换为失败响应，ApiError 保留其错误码和状态
+ *
+ * @param error 捕获的异常
+ * @param message 非 ApiError 时使用的错误信息
+ */
+export function failWith(error: unknown, message = "请求失败") {
+  if (error instanceof ApiError) {
+    return fail(error.message, error.status, { code: error.code });
+  }
+  return fail(message);
 }
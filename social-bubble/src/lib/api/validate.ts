@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+
+import { ApiErrorCode } from "@/types/api";
+import { fail } from "@/lib/api/response";
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; response: NextResponse };
+
+/**
+ * 将 zod 校验错误转换为 400 响应，附带字段级错误
+ *
+ * @param error 校验错误
+ * @param field 被校验的值本身不是对象时，作为错误的字段名
+ */
+function invalid(error: z.ZodError, field?: string) {
+  return fail("Invalid request parameters", 400, {
+    code: ApiErrorCode.Validation,
+    errors: error.issues.map((issue) => ({
+      field: [field, ...issue.path]
+        .filter((key) => key !== undefined)
+        .join("."),
+      message: issue.message,
+    })),
+  });
+}
+
+/**
+ * 读取并校验 JSON 请求体
+ *
+ * @param req 请求对象
+ * @param schema 路由对应的请求契约
+ * @returns 校验通过时返回补全默认值后的参数，否则返回 400 响应
+ */
+export async function parseJsonBody<S extends z.ZodTypeAny>(
+  req: Request,
+  schema: S,
+): Promise<ParseResult<z.output<S>>> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return {
+      success: false,
+      response: fail("Request body must be valid JSON", 400),
+    };
+  }
+  const result = schema.safeParse(body);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, response: invalid(result.error) };
+}
+
+/**
+ * 读取并校验查询字符串
+ *
+ * @param req 请求对象
+ * @param schema 路由对应的请求契约
+ * @returns 校验通过时返回参数，否则返回 400 响应
+ */
+export function parseSearchParams<S extends z.ZodTypeAny>(
+  req: Request,
+  schema: S,
+): ParseResult<z.output<S>> {
+  const { searchParams } = new URL(req.url);
+  const result = schema.safeParse(Object.fromEntries(searchParams));
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, response: invalid(result.error) };
+}
+
+/**
+ * 读取并校验单个请求头
+ *
+ * @param req 请求对象
+ * @param name 请求头名称
+ * @param schema 请求头取值的契约
+ * @returns 校验通过时返回请求头的值，否则返回 400 响应
+ */
+export function parseHeader<S extends z.ZodTypeAny>(
+  req: Request,
+  name: string,
+  schema: S,
+): ParseResult<z.output<S>> {
+  const result = schema.safeParse(req.headers.get(name) ?? undefined);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, response: invalid(result.error, name) };
+}
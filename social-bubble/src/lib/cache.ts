@@ -0,0 +1,54 @@
+/**
+ * 缓存后端接口，方法均为异步以便接入 Redis 等外部存储
+ */
+export interface CacheBackend<V> {
+  get(key: string): Promise<V | undefined>;
+  set(key: string, value: V, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface LruEntry<V> {
+  value: V;
+  expiresAt: number; // 过期时间，毫秒时间戳
+}
+
+/**
+ * 进程内 LRU 缓存，利用 Map 的插入顺序淘汰最久未访问的条目
+ */
+export class LruCache<V> implements CacheBackend<V> {
+  private readonly entries = new Map<string, LruEntry<V>>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // 重新插入，标记为最近访问
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: V, ttlMs: number) {
+    if (ttlMs <= 0 || this.maxEntries <= 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
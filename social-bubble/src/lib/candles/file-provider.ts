@@ -0,0 +1,154 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import type { UTCTimestamp } from "lightweight-charts";
+
+import { ApiErrorCode } from "@/types/api";
+import type { CandleData } from "@/types/candlestick";
+import { ApiError } from "@/lib/api/errors";
+import { LruCache } from "@/lib/cache";
+import type { CandleProvider } from "@/lib/candles/provider";
+
+// 与 newsline/public/data/btc_kline_1d.jsonl 相同的行格式
+interface KlineRow {
+  timestamp: number; // 开始时间，毫秒时间戳
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  amount: number; // 成交量（交易币种）
+  turnover: number; // 成交额（计价币种）
+}
+
+const DEFAULT_LIMIT = 100;
+
+// 日线文件可聚合出的更大粒度
+const AGGREGATE_FROM_DAILY = ["1W", "1M"];
+
+const dataDir = () =>
+  process.env.CANDLE_DATA_DIR ?? path.join(process.cwd(), "data", "candles");
+
+// 已读取的文件按路径缓存，null 表示文件不存在；录制文件不会变化，条目只按数量淘汰
+const FILE_CACHE_MAX_ENTRIES = 32;
+const FILE_CACHE_TTL_MS = Infinity;
+const fileCache = new LruCache<Promise<CandleData[] | null>>(
+  FILE_CACHE_MAX_ENTRIES,
+);
+
+/**
+ * 文件名形如 btc_kline_1d.jsonl：币种取 instId 的基础币，粒度去掉 utc 后缀，
+ * 小时 / 日 / 周使用小写，分钟 m 与月 M 保持原样以便区分
+ */
+function fileNameFor(instId: string, bar: string) {
+  const base = instId.split("-")[0].toLowerCase();
+  const suffix = bar
+    .replace(/utc$/i, "")
+    .replace(/[HDW]$/, (unit) => unit.toLowerCase());
+  return `${base}_kline_${suffix}.jsonl`;
+}
+
+function toCandle(row: KlineRow): CandleData {
+  return {
+    time: Math.floor(row.timestamp / 1000) as UTCTimestamp,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.amount,
+    volumeBase: row.amount,
+    volumeQuote: row.turnover,
+    confirm: true,
+  };
+}
+
+async function readCandleFile(fileName: string) {
+  const filePath = path.join(dataDir(), fileName);
+  const cached = await fileCache.get(filePath);
+  if (cached) return cached;
+  const pending = fs
+    .readFile(filePath, "utf8")
+    .then((content) =>
+      content
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => toCandle(JSON.parse(line)))
+        .sort((a, b) => a.time - b.time),
+    )
+    .catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return null;
+      fileCache.delete(filePath);
+      throw error;
+    });
+  await fileCache.set(filePath, pending, FILE_CACHE_TTL_MS);
+  return pending;
+}
+
+/**
+ * 周线从周一、月线从每月 1 日开始（UTC），返回该根 K 线的起始秒级时间戳
+ */
+function periodStart(time: number, bar: string) {
+  const date = new Date(time * 1000);
+  if (bar === "1M") {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000;
+  }
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return (
+    Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate() - daysSinceMonday,
+    ) / 1000
+  );
+}
+
+/**
+ * 将升序的日线聚合为周线或月线
+ */
+function aggregateCandles(daily: CandleData[], bar: string): CandleData[] {
+  const candles: CandleData[] = [];
+  daily.forEach((candle) => {
+    const start = periodStart(candle.time, bar) as UTCTimestamp;
+    const last = candles[candles.length - 1];
+    if (last && last.time === start) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+      last.volume += candle.volume;
+      last.volumeBase += candle.volumeBase;
+      last.volumeQuote += candle.volumeQuote;
+    } else {
+      candles.push({ ...candle, time: start });
+    }
+  });
+  return candles;
+}
+
+async function loadCandles(instId: string, bar: string) {
+  const candles = await readCandleFile(fileNameFor(instId, bar));
+  if (candles) return candles;
+  if (AGGREGATE_FROM_DAILY.includes(bar)) {
+    const daily = await readCandleFile(fileNameFor(instId, "1D"));
+    if (daily) return aggregateCandles(daily, bar);
+  }
+  throw new ApiError(
+    ApiErrorCode.NotFound,
+    `No recorded candles for ${instId} ${bar}`,
+  );
+}
+
+/**
+ * 读取 CANDLE_DATA_DIR 下录制好的 JSONL K 线，按 OKX 的 after / before / limit 语义分页
+ */
+export const fileCandleProvider: CandleProvider = {
+  async getCandles({ instId, bar, after, before, limit }) {
+    const candles = await loadCandles(instId, bar);
+    // after：早于该时间戳；before：晚于该时间戳（毫秒）
+    const matched = candles.filter(
+      (candle) =>
+        (after === undefined || candle.time * 1000 < Number(after)) &&
+        (before === undefined || candle.time * 1000 > Number(before)),
+    );
+    // OKX 从最新一根开始返回 limit 根，这里取末尾再保持升序
+    return matched.slice(-(limit ? Number(limit) : DEFAULT_LIMIT));
+  },
+};
@@ -0,0 +1,29 @@
+import { okxHttp } from "@/http/server";
+import type { UTCTimestamp } from "lightweight-charts";
+
+import type { CandleData, RawCandleData } from "@/types/candlestick";
+import type { CandleProvider } from "@/lib/candles/provider";
+
+/**
+ * 代理 OKX history-candles，完成 parseFloat、时间戳换算和倒序
+ */
+export const okxCandleProvider: CandleProvider = {
+  async getCandles(params) {
+    const okxResponse = await okxHttp.get("/v5/market/history-candles", params);
+    const rawData: RawCandleData[] = okxResponse.data;
+
+    return rawData
+      .map((item) => ({
+        time: Math.floor(Number(item[0]) / 1000) as UTCTimestamp,
+        open: parseFloat(item[1]),
+        high: parseFloat(item[2]),
+        low: parseFloat(item[3]),
+        close: parseFloat(item[4]),
+        volume: parseFloat(item[5]),
+        volumeBase: parseFloat(item[6]),
+        volumeQuote: parseFloat(item[7]),
+        confirm: item[8] === "1",
+      }))
+      .reverse();
+  },
+};
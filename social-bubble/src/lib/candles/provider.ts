@@ -0,0 +1,31 @@
+import type { CandleData } from "@/types/candlestick";
+import type { CandleRequestQuery } from "@/lib/api/contracts";
+import { fileCandleProvider } from "@/lib/candles/file-provider";
+import { okxCandleProvider } from "@/lib/candles/okx-provider";
+
+/**
+ * K 线数据源：默认请求 OKX，离线时可切换为本地 JSONL 文件
+ */
+export interface CandleProvider {
+  /**
+   * 按 OKX history-candles 的语义查询 K 线，结果按时间升序
+   */
+  getCandles(params: CandleRequestQuery): Promise<CandleData[]>;
+}
+
+// CANDLE_PROVIDER=file 时读取 CANDLE_DATA_DIR 下的 JSONL 文件，无需访问外网
+let provider: CandleProvider =
+  process.env.CANDLE_PROVIDER === "file"
+    ? fileCandleProvider
+    : okxCandleProvider;
+
+/**
+ * 替换 /api/market/candles 使用的 K 线数据源
+ */
+export function setCandleProvider(next: CandleProvider) {
+  provider = next;
+}
+
+export function getCandleProvider(): CandleProvider {
+  return provider;
+}
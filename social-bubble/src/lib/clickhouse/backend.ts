@@ -0,0 +1,27 @@
+import { fixtureQueryBackend } from "@/lib/clickhouse/fixture";
+import { httpQueryBackend } from "@/lib/clickhouse/http-backend";
+import type { ClickhouseQuery } from "@/lib/clickhouse/query";
+
+/**
+ * 查询后端：默认直连 ClickHouse，本地开发可切换为 fixture 数据
+ */
+export interface QueryBackend {
+  query<T>(query: ClickhouseQuery): Promise<T[]>;
+}
+
+// CLICKHOUSE_BACKEND=fixture 时使用内置离线数据，无需 CK_HOST
+let backend: QueryBackend =
+  process.env.CLICKHOUSE_BACKEND === "fixture"
+    ? fixtureQueryBackend
+    : httpQueryBackend;
+
+/**
+ * 替换 queryClickhouse 使用的查询后端
+ */
+export function setQueryBackend(next: QueryBackend) {
+  backend = next;
+}
+
+export function getQueryBackend(): QueryBackend {
+  return backend;
+}
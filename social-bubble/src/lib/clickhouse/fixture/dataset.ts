@@ -0,0 +1,217 @@
+import type { KOL } from "@/types/kol";
+import type { InteractionType } from "@/lib/api/contracts";
+
+// fixture 数据覆盖的时间范围，与线上离线数据的最大时间戳对齐
+export const FIXTURE_END = 1743544033000;
+export const FIXTURE_DAYS = 180;
+export const FIXTURE_TOKENS = ["BTC", "ETH", "SOL"] as const;
+
+const DAY_MS = 86400000;
+// 生成 19 位的 Int64 ID，与线上 ID 长度一致
+const USER_ID_BASE = BigInt("1000000000000000000");
+const TWEET_ID_BASE = BigInt("1900000000000000000");
+
+export type UserInfoRow = KOL;
+
+/**
+ * user_graph_detail_score 的一行：作者对 token 或其他用户的一次互动及情绪分
+ */
+export interface DetailScoreRow {
+  author_id: string;
+  username: string;
+  name: string;
+  followers: number;
+  label: string; // token
+  object_type: "user" | "token";
+  label_user_id: string; // object_type 为 user 时的对方用户 ID
+  active_type: InteractionType;
+  score: number; // -100 ~ 100
+  created: number; // 毫秒时间戳
+  tweet_id: string;
+  text: string;
+  like_count: number;
+  quote_count: number;
+  retweet_count: number;
+  reply_count: number;
+  view_count: number | null;
+  bookmarked_count: number;
+}
+
+export interface FixtureDataset {
+  users: UserInfoRow[];
+  scores: DetailScoreRow[];
+}
+
+const PROFILES: [username: string, name: string][] = [
+  ["satoshi_echo", "Satoshi Echo"],
+  ["chain_oracle", "Chain Oracle"],
+  ["defi_dana", "DeFi Dana"],
+  ["macro_mike", "Macro Mike"],
+  ["hodl_hanna", "Hodl Hanna"],
+  ["gas_fee_gary", "Gas Fee Gary"],
+  ["onchain_olive", "Onchain Olive"],
+  ["whale_watcher", "Whale Watcher"],
+  ["layer2_leo", "Layer2 Leo"],
+  ["mempool_mia", "Mempool Mia"],
+  ["validator_vic", "Validator Vic"],
+  ["alpha_ava", "Alpha Ava"],
+  ["bear_bruno", "Bear Bruno"],
+  ["bull_bella", "Bull Bella"],
+  ["staking_sam", "Staking Sam"],
+  ["rug_radar", "Rug Radar"],
+  ["node_nora", "Node Nora"],
+  ["yield_yuri", "Yield Yuri"],
+  ["chart_chen", "Chart Chen"],
+  ["block_betty", "Block Betty"],
+  ["sol_summer", "Sol Summer"],
+  ["eth_ezra", "Eth Ezra"],
+  ["btc_basil", "BTC Basil"],
+  ["quant_quinn", "Quant Quinn"],
+  ["meme_max", "Meme Max"],
+  ["ledger_lina", "Ledger Lina"],
+  ["fork_felix", "Fork Felix"],
+  ["pump_paula", "Pump Paula"],
+  ["dex_diego", "DEX Diego"],
+  ["sats_sofia", "Sats Sofia"],
+];
+
+const TOKEN_PHRASES = [
+  "looking strong into the weekly close",
+  "funding is getting too hot here",
+  "accumulating on every dip",
+  "this range is boring, waiting for a breakout",
+  "on-chain flows turned negative",
+  "ETF inflows keep surprising",
+  "taking profit, risk/reward is poor",
+];
+
+/**
+ * 固定种子的伪随机数，保证每次生成的数据一致
+ */
+function mulberry32(seed: number) {
+  let a = seed;
+  return () => {
+    a |= 0;
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function generateDataset(): FixtureDataset {
+  const random = mulberry32(20250401);
+  const pick = <T>(items: readonly T[]) =>
+    items[Math.floor(random() * items.length)];
+  const clampScore = (value: number) =>
+    Math.round(Math.max(-100, Math.min(100, value)));
+
+  const users: UserInfoRow[] = PROFILES.map(([username, name], index) => ({
+    id: String(USER_ID_BASE + BigInt(index + 1)),
+    username,
+    name,
+    verified: index % 4 === 0 ? 1 : 0,
+    verified_type: index % 4 === 0 ? "blue" : "none",
+    // 粉丝数按序号递减，保证 Top 排序有明确结果
+    followers: Math.round(2000000 / (index + 1) + random() * 1000),
+    bio: `${name} writes about crypto markets.`,
+    created: FIXTURE_END - (2000 + index * 37) * DAY_MS,
+    friendsCount: Math.round(100 + random() * 2000),
+    statusesCount: Math.round(1000 + random() * 50000),
+    favouritesCount: Math.round(500 + random() * 20000),
+    listedCount: Math.round(random() * 500),
+    mediaCount: Math.round(random() * 3000),
+  }));
+
+  const scores: DetailScoreRow[] = [];
+  let tweetSeq = 0;
+  const push = (
+    author: UserInfoRow,
+    row: Pick<
+      DetailScoreRow,
+      | "label"
+      | "object_type"
+      | "label_user_id"
+      | "active_type"
+      | "score"
+      | "created"
+      | "text"
+    >,
+  ) => {
+    tweetSeq += 1;
+    scores.push({
+      author_id: author.id,
+      username: author.username,
+      name: author.name,
+      followers: author.followers,
+      tweet_id: String(TWEET_ID_BASE + BigInt(tweetSeq)),
+      like_count: Math.round(random() * 5000),
+      quote_count: Math.round(random() * 200),
+      retweet_count: Math.round(random() * 800),
+      reply_count: Math.round(random() * 400),
+      view_count: random() < 0.1 ? null : Math.round(random() * 500000),
+      bookmarked_count: Math.round(random() * 300),
+      ...row,
+    });
+  };
+
+  FIXTURE_TOKENS.forEach((token) => {
+    users.forEach((user) => {
+      // 每个用户对每个 token 有一个基准情绪，逐日随机波动
+      const bias = (random() - 0.5) * 160;
+      for (let day = 0; day < FIXTURE_DAYS; day++) {
+        if (random() > 0.35) continue;
+        const created =
+          FIXTURE_END - day * DAY_MS - Math.floor(random() * DAY_MS);
+        push(user, {
+          label: token,
+          object_type: "token",
+          label_user_id: "0",
+          active_type: "comment",
+          score: clampScore(bias + (random() - 0.5) * 80),
+          created,
+          text: `$${token} ${pick(TOKEN_PHRASES)}`,
+        });
+      }
+    });
+
+    // 用户之间的互动：每个用户固定关注若干其他用户
+    users.forEach((author, index) => {
+      const peers = users.filter((_, peer) => peer !== index && random() < 0.2);
+      peers.forEach((target) => {
+        const stance = (random() - 0.4) * 150;
+        for (let n = 0; n < 6; n++) {
+          const activeType = pick<InteractionType>([
+            "comment",
+            "comment",
+            "retweeted",
+            "quoted",
+            "liked",
+            "follow",
+          ]);
+          push(author, {
+            label: token,
+            object_type: "user",
+            label_user_id: target.id,
+            active_type: activeType,
+            score: clampScore(stance + (random() - 0.5) * 40),
+            created: FIXTURE_END - Math.floor(random() * FIXTURE_DAYS * DAY_MS),
+            text: `@${target.username} ${pick(TOKEN_PHRASES)} $${token}`,
+          });
+        }
+      });
+    });
+  });
+
+  return { users, scores };
+}
+
+let dataset: FixtureDataset | null = null;
+
+/**
+ * 首次访问时生成 fixture 数据，之后复用
+ */
+export function getFixtureDataset(): FixtureDataset {
+  if (!dataset) dataset = generateDataset();
+  return dataset;
+}
@@ -0,0 +1,431 @@
+import type { QueryBackend } from "@/lib/clickhouse/backend";
+import {
+  getFixtureDataset,
+  type DetailScoreRow,
+} from "@/lib/clickhouse/fixture/dataset";
+
+/**
+ * 各查询构造函数传入的参数的并集，每个 handler 只读取自身 SQL 中出现的占位符
+ */
+interface QueryParams {
+  token: string;
+  filter_time: number | string; // 查询字符串中的时间戳保持字符串原样
+  ttl: number;
+  days: number;
+  filter_followers: number;
+  top_count: number;
+  pos_count: number;
+  neg_count: number;
+  add_user_list: string[];
+  sub_user_list: string[];
+  user_ids: string[];
+  steps: number[];
+  interaction_types: string[];
+  interaction_weights: number[];
+  min_link_strength: number;
+  id: string;
+  author_id: string;
+  label_id: string | null;
+  page_size: number;
+  offset: number;
+  kw: string;
+}
+
+type FixtureHandler = (params: QueryParams) => Record<string, unknown>[];
+
+const DAY_MS = 86400000;
+
+// Int64 参数以十进制字符串传入，可直接与 fixture 中的字符串 ID 比较
+const idSet = (ids: string[]) => new Set(ids);
+
+const inWindow = (row: DetailScoreRow, refTime: number, ttl: number) =>
+  row.created <= refTime && row.created > refTime - ttl * DAY_MS;
+
+function groupBy<T>(rows: T[], keyOf: (row: T) => string) {
+  const groups = new Map<string, T[]>();
+  rows.forEach((row) => {
+    const key = keyOf(row);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  });
+  return groups;
+}
+
+/**
+ * 与 DECAY_SCORE_SQL / DECAY_OPACITY_SQL 相同的时间衰减聚合
+ */
+function decayAggregate(rows: DetailScoreRow[], refTime: number, ttl: number) {
+  let weighted = 0;
+  let weights = 0;
+  let maxAge = 0;
+  rows.forEach((row) => {
+    const age = (refTime - row.created) / DAY_MS;
+    const weight = 1 - age / ttl;
+    weighted += row.score * weight;
+    weights += weight;
+    maxAge = Math.max(maxAge, age);
+  });
+  return {
+    score_metrics: weighted / weights,
+    opacity: 1 - maxAge / ttl,
+  };
+}
+
+/**
+ * 与 buildGraphLinksSQL 相同的连线计算：按行为权重加权平均，双向分之和超过阈值才保留
+ */
+function computeLinks(rows: DetailScoreRow[], params: QueryParams) {
+  const weightOf = new Map<string, number>(
+    params.interaction_types.map((type, index) => [
+      type,
+      params.interaction_weights[index],
+    ]),
+  );
+  const directional = new Map<string, number>();
+  groupBy(
+    rows.filter((row) => weightOf.has(row.active_type)),
+    (row) => `${row.author_id}:${row.label_user_id}`,
+  ).forEach((group, key) => {
+    let weighted = 0;
+    let weights = 0;
+    group.forEach((row) => {
+      const weight = weightOf.get(row.active_type)!;
+      weighted += row.score * weight;
+      weights += weight;
+    });
+    directional.set(key, weighted / weights);
+  });
+
+  const links: Record<string, unknown>[] = [];
+  directional.forEach((score, key) => {
+    const [sourceId, targetId] = key.split(":");
+    // LEFT JOIN 未匹配时 ClickHouse 填充默认值 0
+    const reverse = directional.get(`${targetId}:${sourceId}`) ?? 0;
+    if (sourceId === targetId) return;
+    if (score + reverse <= params.min_link_strength) return;
+    links.push({
+      source_id: sourceId,
+      target_id: targetId,
+      source2target_score: score,
+      target2source_score: reverse,
+    });
+  });
+  return links;
+}
+
+function linkRows(params: QueryParams) {
+  const userIds = idSet(params.user_ids);
+  return getFixtureDataset().scores.filter(
+    (row) =>
+      row.object_type === "user" &&
+      userIds.has(row.author_id) &&
+      userIds.has(row.label_user_id),
+  );
+}
+
+const toNodeRow = (
+  author: Pick<DetailScoreRow, "author_id" | "username" | "name" | "followers">,
+  state: { score_metrics: number; opacity: number },
+) => ({
+  author_id: author.author_id,
+  username: author.username,
+  name: author.name,
+  followers: String(author.followers),
+  ...state,
+});
+
+const handlers: Record<string, FixtureHandler> = {
+  "graph.nodes": (params) => {
+    const { users, scores } = getFixtureDataset();
+    const filterTime = Number(params.filter_time);
+    const excluded = idSet(params.sub_user_list);
+    const raw = scores.filter(
+      (row) =>
+        row.active_type === "comment" &&
+        row.label === params.token &&
+        inWindow(row, filterTime, params.ttl) &&
+        row.followers >= params.filter_followers &&
+        !excluded.has(row.author_id),
+    );
+    const aggregated = Array.from(
+      groupBy(raw, (row) => row.author_id).values(),
+    ).map((group) =>
+      toNodeRow(
+        group[group.length - 1],
+        decayAggregate(group, filterTime, params.ttl),
+      ),
+    );
+    const byFollowers = (a: { followers: string }, b: { followers: string }) =>
+      Number(b.followers) - Number(a.followers);
+
+    const top = [...aggregated].sort(byFollowers).slice(0, params.top_count);
+    const topIds = new Set(top.map((row) => row.author_id));
+    const rest = aggregated.filter((row) => !topIds.has(row.author_id));
+    const positive = rest
+      .filter((row) => row.score_metrics > 0)
+      .sort(byFollowers)
+      .slice(0, params.pos_count);
+    const negative = rest
+      .filter((row) => row.score_metrics < 0)
+      .sort(byFollowers)
+      .slice(0, params.neg_count);
+    const added = idSet(params.add_user_list);
+    const addUsers = users
+      .filter((user) => added.has(user.id))
+      .map((user) =>
+        toNodeRow(
+          { ...user, author_id: user.id },
+          { score_metrics: 0, opacity: 1 },
+        ),
+      );
+    const tag = (bucket: string) => (row: object) => ({ ...row, bucket });
+    return [
+      ...top.map(tag("top")),
+      ...positive.map(tag("positive")),
+      ...negative.map(tag("negative")),
+      ...addUsers.map(tag("added")),
+    ];
+  },
+
+  "graph.links": (params) =>
+    computeLinks(
+      linkRows(params).filter((row) =>
+        inWindow(row, Number(params.filter_time), params.ttl),
+      ),
+      params,
+    ),
+
+  "graph.timelineNodeStates": (params) => {
+    const userIds = idSet(params.user_ids);
+    const raw = getFixtureDataset().scores.filter(
+      (row) =>
+        row.active_type === "comment" &&
+        row.label === params.token &&
+        userIds.has(row.author_id),
+    );
+    return params.steps.flatMap((step) =>
+      Array.from(
+        groupBy(
+          raw.filter((row) => inWindow(row, step, params.ttl)),
+          (row) => row.author_id,
+        ),
+      ).map(([authorId, group]) => ({
+        step_time: step,
+        author_id: authorId,
+        ...decayAggregate(group, step, params.ttl),
+      })),
+    );
+  },
+
+  "graph.timelineLinks": (params) => {
+    const raw = linkRows(params);
+    return params.steps.flatMap((step) =>
+      computeLinks(
+        raw.filter((row) => inWindow(row, step, params.ttl)),
+        params,
+      ).map((link) => ({ step_time: step, ...link })),
+    );
+  },
+
+  "graph.egoLinks": (params) => {
+    const userIds = idSet(params.user_ids);
+    const filterTime = Number(params.filter_time);
+    return computeLinks(
+      getFixtureDataset().scores.filter(
+        (row) =>
+          row.object_type === "user" &&
+          (userIds.has(row.author_id) || userIds.has(row.label_user_id)) &&
+          inWindow(row, filterTime, params.ttl),
+      ),
+      params,
+    );
+  },
+
+  "graph.egoNodes": (params) => {
+    const { users, scores } = getFixtureDataset();
+    const userIds = idSet(params.user_ids);
+    const filterTime = Number(params.filter_time);
+    const byAuthor = groupBy(
+      scores.filter(
+        (row) =>
+          row.active_type === "comment" &&
+          row.label === params.token &&
+          userIds.has(row.author_id) &&
+          inWindow(row, filterTime, params.ttl),
+      ),
+      (row) => row.author_id,
+    );
+    return users
+      .filter((user) => userIds.has(user.id))
+      .map((user) => {
+        const group = byAuthor.get(user.id);
+        return toNodeRow(
+          { ...user, author_id: user.id },
+          group
+            ? decayAggregate(group, filterTime, params.ttl)
+            : { score_metrics: 0, opacity: 1 },
+        );
+      });
+  },
+
+  "tweet.list": (params) =>
+    tweetRows(params)
+      .sort((a, b) => b.created - a.created)
+      .slice(params.offset, params.offset + params.page_size)
+      .map((row) => ({
+        tweet_id: row.tweet_id,
+        active_type: row.active_type,
+        created: String(row.created),
+        text: row.text,
+        like_count: row.like_count,
+        quote_count: row.quote_count,
+        retweet_count: row.retweet_count,
+        reply_count: row.reply_count,
+        view_count: row.view_count,
+        bookmarked_count: row.bookmarked_count,
+      })),
+
+  "tweet.count": (params) => [{ total: String(tweetRows(params).length) }],
+
+  "tokens.list": () =>
+    Array.from(
+      groupBy(getFixtureDataset().scores, (row) => row.label).entries(),
+    )
+      .map(([symbol, rows]) => ({
+        symbol,
+        count: String(rows.length),
+        first_seen: String(Math.min(...rows.map((row) => row.created))),
+        last_seen: String(Math.max(...rows.map((row) => row.created))),
+      }))
+      .sort((a, b) => Number(b.count) - Number(a.count)),
+
+  "user.sentimentSeries": (params) => {
+    const end = Number(params.filter_time);
+    const rows = getFixtureDataset().scores.filter(
+      (row) =>
+        row.author_id === params.id &&
+        row.active_type === "comment" &&
+        row.label === params.token &&
+        inWindow(row, end, params.days),
+    );
+    return Array.from(
+      groupBy(rows, (row) =>
+        String(Math.floor(row.created / DAY_MS) * DAY_MS),
+      ).entries(),
+    )
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([day, group]) => ({
+        day,
+        score: group.reduce((sum, row) => sum + row.score, 0) / group.length,
+        count: String(group.length),
+      }));
+  },
+
+  "analytics.dailySentiment": (params) => {
+    const userIds = idSet(params.user_ids);
+    const rows = getFixtureDataset().scores.filter(
+      (row) =>
+        userIds.has(row.author_id) &&
+        row.active_type === "comment" &&
+        row.label === params.token &&
+        inWindow(row, Number(params.filter_time), params.days),
+    );
+    return Array.from(
+      groupBy(
+        rows,
+        (row) =>
+          `${row.author_id}:${Math.floor(row.created / DAY_MS) * DAY_MS}`,
+      ).entries(),
+    )
+      .map(([key, group]) => {
+        const [author_id, day] = key.split(":");
+        return {
+          author_id,
+          day,
+          score: group.reduce((sum, row) => sum + row.score, 0) / group.length,
+        };
+      })
+      .sort(
+        (a, b) =>
+          a.author_id.localeCompare(b.author_id) ||
+          Number(a.day) - Number(b.day),
+      );
+  },
+
+  "user.detail": (params) =>
+    getFixtureDataset()
+      .users.filter((user) => user.id === params.id)
+      .slice(0, 1)
+      .map((user) => ({
+        ...user,
+        followers: String(user.followers),
+        created: String(user.created),
+      })),
+
+  "user.search": (params) => {
+    // ClickHouse 的 position 为区分大小写的子串匹配
+    const { kw } = params;
+    const kwLower = kw.toLowerCase();
+    return getFixtureDataset()
+      .users.filter(
+        (user) => user.username.includes(kw) || user.name.includes(kw),
+      )
+      .map((user) => ({
+        user,
+        prefix: Number(
+          user.username.toLowerCase().startsWith(kwLower) ||
+            user.name.toLowerCase().startsWith(kwLower),
+        ),
+        relevance:
+          Number(user.username.includes(kw)) * 2 +
+          Number(user.name.includes(kw)),
+      }))
+      .sort(
+        (a, b) =>
+          b.prefix - a.prefix ||
+          b.relevance - a.relevance ||
+          b.user.followers - a.user.followers,
+      )
+      .slice(0, 50)
+      .map(({ user }) => ({
+        id: user.id,
+        username: user.username,
+        name: user.name,
+        followers: String(user.followers),
+      }));
+  },
+};
+
+/**
+ * 与 buildTweetSQL 相同的筛选：指定 label_id 时取双方互动，否则取作者对 token 的记录
+ */
+function tweetRows(params: QueryParams) {
+  const authorId = params.author_id;
+  const labelId = params.label_id;
+  const filterTime = Number(params.filter_time);
+  return getFixtureDataset().scores.filter((row) => {
+    if (row.created > filterTime) return false;
+    if (labelId === null) {
+      return row.author_id === authorId && row.label === params.token;
+    }
+    return (
+      row.object_type === "user" &&
+      ((row.author_id === authorId && row.label_user_id === labelId) ||
+        (row.author_id === labelId && row.label_user_id === authorId))
+    );
+  });
+}
+
+/**
+ * 离线查询后端：按 ClickhouseQuery.name 分发到基于 fixture 数据的实现，不解析 SQL
+ */
+export const fixtureQueryBackend: QueryBackend = {
+  async query<T>({ name, params }: Parameters<QueryBackend["query"]>[0]) {
+    const handler = handlers[name];
+    if (!handler) {
+      throw new Error(`No fixture handler for query "${name}"`);
+    }
+    // 参数由查询构造函数生成，字段与 QueryParams 一致
+    return handler(params as unknown as QueryParams) as T[];
+  },
+};
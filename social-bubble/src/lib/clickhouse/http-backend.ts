@@ -0,0 +1,17 @@
+import { getClickhouseClient } from "@/http/server/clickhouse-http";
+
+import type { QueryBackend } from "@/lib/clickhouse/backend";
+
+/**
+ * 通过 @clickhouse/client 直连 CK_HOST
+ */
+export const httpQueryBackend: QueryBackend = {
+  async query<T>({ query, params }: Parameters<QueryBackend["query"]>[0]) {
+    const resultSet = await getClickhouseClient().query({
+      query,
+      format: "JSONEachRow",
+      query_params: params,
+    });
+    return await resultSet.json<T>();
+  },
+};
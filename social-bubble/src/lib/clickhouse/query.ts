@@ -1,13 +1,26 @@
-import { clickhouseClient } from "@/http/server/clickhouse-http";
+import { ApiErrorCode } from "@/types/api";
+import { toUpstreamError } from "@/lib/api/errors";
+import { getQueryBackend } from "@/lib/clickhouse/backend";
+
+/**
+ * 参数化查询：SQL 中只使用 {name:Type} 占位符，取值全部放在 params 中
+ */
+export interface ClickhouseQuery {
+  name: string; // 查询标识，离线后端按此分发到对应的 fixture 实现
+  query: string;
+  params: Record<string, unknown>; // Int64 取值以十进制字符串传入
+}
 
 export async function queryClickhouse<T = any>(
-  sql: string,
-  params: Record<string, any> = {},
+  query: ClickhouseQuery,
 ): Promise<T[]> {
-  const resultSet = await clickhouseClient.query({
-    query: sql,
-    format: "JSONEachRow",
-    query_params: params,
-  });
-  return await resultSet.json();
+  try {
+    return await getQueryBackend().query<T>(query);
+  } catch (error) {
+    throw toUpstreamError(
+      error,
+      ApiErrorCode.UpstreamClickhouse,
+      "ClickHouse query failed",
+    );
+  }
 }
@@ -0,0 +1,77 @@
+import type { ForceGraphParams, GraphData } from "@/types/graph";
+import { INTERACTION_TYPES } from "@/lib/api/contracts";
+import { CacheBackend, LruCache } from "@/lib/cache";
+
+// 数据入库存在延迟，早于该时间的窗口视为历史窗口，结果不再变化
+const INGEST_LAG_MS = 60 * 60 * 1000;
+const HISTORICAL_TTL_MS = 24 * 60 * 60 * 1000;
+const LIVE_TTL_MS = 60 * 1000;
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * 读取缓存条目上限，未配置或不是非负整数时使用默认值，避免 NaN 使淘汰失效
+ */
+function maxEntriesFromEnv() {
+  const value = Number(process.env.GRAPH_CACHE_MAX_ENTRIES);
+  return process.env.GRAPH_CACHE_MAX_ENTRIES?.trim() &&
+    Number.isInteger(value) &&
+    value >= 0
+    ? value
+    : DEFAULT_MAX_ENTRIES;
+}
+
+let backend: CacheBackend<GraphData> = new LruCache<GraphData>(
+  maxEntriesFromEnv(),
+);
+
+/**
+ * 替换 /api/graph 使用的缓存后端，例如接入共享的 Redis
+ */
+export function setGraphCacheBackend(next: CacheBackend<GraphData>) {
+  backend = next;
+}
+
+export function getGraphCache(): CacheBackend<GraphData> {
+  return backend;
+}
+
+/**
+ * 根据归一化后的请求参数生成缓存键：ID 列表去重排序，浮点数固定精度
+ *
+ * @param params 已通过契约校验的图谱参数
+ */
+export function graphCacheKey(params: ForceGraphParams): string {
+  const normalizeIds = (ids: string[]) => Array.from(new Set(ids)).sort();
+  return JSON.stringify([
+    "graph",
+    params.token,
+    params.filter_time,
+    params.filter_followers,
+    params.ttl,
+    params.bubble_num,
+    params.top_ratio.toFixed(4),
+    params.rank_by,
+    params.volatility.toFixed(4),
+    normalizeIds(params.add_user_list),
+    normalizeIds(params.sub_user_list),
+    INTERACTION_TYPES.map((type) =>
+      params.interaction_types.includes(type)
+        ? params.weights[type].toFixed(4)
+        : null,
+    ),
+    params.min_link_strength.toFixed(4),
+  ]);
+}
+
+/**
+ * 历史窗口的结果不可变，缓存较长时间；接近当前时间的窗口只做短暂缓存
+ *
+ * @param params 图谱参数
+ * @param now 当前时间，毫秒时间戳
+ */
+export function graphCacheTtl(params: ForceGraphParams, now = Date.now()) {
+  return params.filter_time <= now - INGEST_LAG_MS
+    ? HISTORICAL_TTL_MS
+    : LIVE_TTL_MS;
+}
@@ -0,0 +1,182 @@
+import type { GraphLink, GraphNode, NodeCentrality } from "@/types/graph";
+import { linkEndId } from "@/lib/graph/links";
+
+// PageRank 阻尼系数
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-8;
+
+export const EMPTY_CENTRALITY: NodeCentrality = {
+  pagerank: 0,
+  in_degree: 0,
+  out_degree: 0,
+  betweenness: 0,
+  eigenvector: 0,
+};
+
+interface DirectedEdge {
+  from: number;
+  to: number;
+  weight: number; // 情绪分绝对值，衡量互动强度而非立场
+}
+
+/**
+ * 将双向连线拆成有向边，source2target_score 为 source → target 的互动
+ */
+function toDirectedEdges(nodes: GraphNode[], links: GraphLink[]) {
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+  const edges: DirectedEdge[] = [];
+  links.forEach((link) => {
+    const source = indexById.get(linkEndId(link.source));
+    const target = indexById.get(linkEndId(link.target));
+    if (source === undefined || target === undefined || source === target) {
+      return;
+    }
+    const forward = Math.abs(link.source2target_score || 0);
+    const backward = Math.abs(link.target2source_score || 0);
+    if (forward > 0) edges.push({ from: source, to: target, weight: forward });
+    if (backward > 0)
+      edges.push({ from: target, to: source, weight: backward });
+  });
+  return edges;
+}
+
+/**
+ * 加权 PageRank，出度为 0 的节点将得分均匀分给所有节点，结果之和为 1
+ */
+function pageRank(size: number, edges: DirectedEdge[], outDegree: number[]) {
+  let rank = new Array<number>(size).fill(1 / size);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const dangling = rank.reduce(
+      (sum, value, index) => (outDegree[index] > 0 ? sum : sum + value),
+      0,
+    );
+    const next = new Array<number>(size).fill(
+      (1 - DAMPING) / size + (DAMPING * dangling) / size,
+    );
+    edges.forEach(({ from, to, weight }) => {
+      next[to] += (DAMPING * rank[from] * weight) / outDegree[from];
+    });
+    const delta = next.reduce(
+      (sum, value, index) => sum + Math.abs(value - rank[index]),
+      0,
+    );
+    rank = next;
+    if (delta < TOLERANCE) break;
+  }
+  return rank;
+}
+
+/**
+ * Brandes 算法计算有向图的介数中心性，路径长度按跳数计算，
+ * 结果除以 (n - 1)(n - 2) 归一化到 0 ~ 1
+ */
+function betweenness(size: number, edges: DirectedEdge[]) {
+  const successors: number[][] = Array.from({ length: size }, () => []);
+  edges.forEach(({ from, to }) => successors[from].push(to));
+
+  const score = new Array<number>(size).fill(0);
+  for (let source = 0; source < size; source++) {
+    const stack: number[] = [];
+    const predecessors: number[][] = Array.from({ length: size }, () => []);
+    const paths = new Array<number>(size).fill(0);
+    const distance = new Array<number>(size).fill(-1);
+    paths[source] = 1;
+    distance[source] = 0;
+
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      stack.push(node);
+      successors[node].forEach((next) => {
+        if (distance[next] < 0) {
+          distance[next] = distance[node] + 1;
+          queue.push(next);
+        }
+        if (distance[next] === distance[node] + 1) {
+          paths[next] += paths[node];
+          predecessors[next].push(node);
+        }
+      });
+    }
+
+    const dependency = new Array<number>(size).fill(0);
+    while (stack.length) {
+      const node = stack.pop()!;
+      predecessors[node].forEach((prev) => {
+        dependency[prev] +=
+          (paths[prev] / paths[node]) * (1 + dependency[node]);
+      });
+      if (node !== source) score[node] += dependency[node];
+    }
+  }
+
+  const scale = size > 2 ? 1 / ((size - 1) * (size - 2)) : 0;
+  return score.map((value) => value * scale);
+}
+
+/**
+ * 幂迭代计算特征向量中心性。有向图中只被单向关注的节点会收敛到 0，
+ * 因此按无向图计算（两个方向的权重相加），结果按最大值归一化到 0 ~ 1
+ */
+function eigenvector(size: number, edges: DirectedEdge[]) {
+  let vector = new Array<number>(size).fill(1 / Math.sqrt(size));
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // 加上自身分量（A + I），避免二分图上来回震荡而不收敛
+    const next = [...vector];
+    edges.forEach(({ from, to, weight }) => {
+      next[to] += vector[from] * weight;
+      next[from] += vector[to] * weight;
+    });
+    const norm = Math.sqrt(next.reduce((sum, value) => sum + value ** 2, 0));
+    if (norm === 0) break;
+    const normalized = next.map((value) => value / norm);
+    const delta = normalized.reduce(
+      (sum, value, index) => sum + Math.abs(value - vector[index]),
+      0,
+    );
+    vector = normalized;
+    if (delta < TOLERANCE) break;
+  }
+  if (!edges.length) return vector.map(() => 0);
+  const max = Math.max(...vector);
+  return vector.map((value) => (max > 0 ? value / max : 0));
+}
+
+/**
+ * 基于有向连线计算节点的中心性指标，原地写入 centrality。
+ * 连线权重取情绪分的绝对值：无论正负，强烈的互动都说明对方受到关注。
+ *
+ * @param nodes 图谱节点
+ * @param links 节点间连线
+ */
+export function computeCentrality(
+  nodes: GraphNode[],
+  links: GraphLink[],
+): GraphNode[] {
+  const size = nodes.length;
+  if (!size) return nodes;
+  const edges = toDirectedEdges(nodes, links);
+
+  const inDegree = new Array<number>(size).fill(0);
+  const outDegree = new Array<number>(size).fill(0);
+  edges.forEach(({ from, to, weight }) => {
+    outDegree[from] += weight;
+    inDegree[to] += weight;
+  });
+
+  const pageRanks = pageRank(size, edges, outDegree);
+  const betweennessScores = betweenness(size, edges);
+  const eigenvectorScores = eigenvector(size, edges);
+
+  nodes.forEach((node, index) => {
+    node.centrality = {
+      pagerank: pageRanks[index],
+      in_degree: inDegree[index],
+      out_degree: outDegree[index],
+      betweenness: betweennessScores[index],
+      eigenvector: eigenvectorScores[index],
+    } satisfies NodeCentrality;
+  });
+  return nodes;
+}
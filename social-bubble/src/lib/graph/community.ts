@@ -0,0 +1,151 @@
+import type { GraphLink, GraphNode } from "@/types/graph";
+import { linkEndId } from "@/lib/graph/links";
+
+// 不属于任何社区（没有正向连线）的节点
+export const NO_COMMUNITY = -1;
+
+// 单层局部移动的最大轮数，防止在平坦区域来回震荡
+const MAX_PASSES = 20;
+
+/**
+ * 无向加权图的邻接表，adjacency[i] 中 i 到自身的权重为社区内部连线权重的两倍
+ */
+type Adjacency = Map<number, number>[];
+
+/**
+ * Louvain 第一阶段：逐个将节点移入模块度增益最大的相邻社区，直到没有节点移动
+ *
+ * @returns 每个节点所属的社区，以及是否发生过移动
+ */
+function moveNodes(adjacency: Adjacency) {
+  const size = adjacency.length;
+  const degree = adjacency.map((edges) =>
+    Array.from(edges.values()).reduce((sum, weight) => sum + weight, 0),
+  );
+  const totalWeight = degree.reduce((sum, value) => sum + value, 0);
+  const membership = adjacency.map((_, index) => index);
+  const communityDegree = [...degree];
+  let moved = false;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let changed = false;
+    for (let node = 0; node < size; node++) {
+      const current = membership[node];
+      // 与各相邻社区之间的连线权重
+      const weightTo = new Map<number, number>();
+      adjacency[node].forEach((weight, neighbor) => {
+        if (neighbor === node) return;
+        const community = membership[neighbor];
+        weightTo.set(community, (weightTo.get(community) ?? 0) + weight);
+      });
+
+      communityDegree[current] -= degree[node];
+      const gainOf = (community: number) =>
+        (weightTo.get(community) ?? 0) -
+        (communityDegree[community] * degree[node]) / totalWeight;
+
+      let best = current;
+      let bestGain = gainOf(current);
+      weightTo.forEach((_, community) => {
+        const gain = gainOf(community);
+        if (gain > bestGain + 1e-12) {
+          best = community;
+          bestGain = gain;
+        }
+      });
+
+      communityDegree[best] += degree[node];
+      if (best !== current) {
+        membership[node] = best;
+        changed = true;
+        moved = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return { membership, moved };
+}
+
+/**
+ * Louvain 第二阶段：将每个社区合并为一个节点，社区间连线权重相加
+ */
+function aggregate(adjacency: Adjacency, membership: number[]) {
+  const ids = Array.from(new Set(membership));
+  const indexOf = new Map(ids.map((id, index) => [id, index]));
+  const next: Adjacency = ids.map(() => new Map());
+  adjacency.forEach((edges, node) => {
+    const from = indexOf.get(membership[node])!;
+    edges.forEach((weight, neighbor) => {
+      const to = indexOf.get(membership[neighbor])!;
+      next[from].set(to, (next[from].get(to) ?? 0) + weight);
+    });
+  });
+  return { adjacency: next, mapping: membership.map((id) => indexOf.get(id)!) };
+}
+
+/**
+ * 使用 Louvain 算法对图谱节点做社区划分，原地写入 community。
+ *
+ * 连线权重为两个方向上正向情绪分之和，负向互动代表立场对立，不参与聚类。
+ * 社区按成员数降序编号（0 为最大社区），没有正向连线的孤立节点为 NO_COMMUNITY。
+ * 节点按传入顺序处理，相同输入得到相同结果。
+ *
+ * @param nodes 图谱节点
+ * @param links 节点间连线
+ */
+export function detectCommunities(
+  nodes: GraphNode[],
+  links: GraphLink[],
+): GraphNode[] {
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+  let adjacency: Adjacency = nodes.map(() => new Map());
+  links.forEach((link) => {
+    const source = indexById.get(linkEndId(link.source));
+    const target = indexById.get(linkEndId(link.target));
+    if (source === undefined || target === undefined || source === target) {
+      return;
+    }
+    const weight =
+      Math.max(0, link.source2target_score || 0) +
+      Math.max(0, link.target2source_score || 0);
+    if (weight <= 0) return;
+    adjacency[source].set(
+      target,
+      (adjacency[source].get(target) ?? 0) + weight,
+    );
+    adjacency[target].set(
+      source,
+      (adjacency[target].get(source) ?? 0) + weight,
+    );
+  });
+
+  // 每个原始节点当前所属的（聚合后）节点
+  let assignment = nodes.map((_, index) => index);
+  const hasEdges = adjacency.some((edges) => edges.size > 0);
+  while (hasEdges) {
+    const { membership, moved } = moveNodes(adjacency);
+    if (!moved) break;
+    const next = aggregate(adjacency, membership);
+    assignment = assignment.map((node) => next.mapping[node]);
+    adjacency = next.adjacency;
+  }
+
+  const members = new Map<number, number[]>();
+  assignment.forEach((community, index) => {
+    if (!members.has(community)) members.set(community, []);
+    members.get(community)!.push(index);
+  });
+  const ordered = Array.from(members.values())
+    .filter((group) => group.length > 1)
+    .sort((a, b) => b.length - a.length || a[0] - b[0]);
+
+  nodes.forEach((node) => {
+    node.community = NO_COMMUNITY;
+  });
+  ordered.forEach((group, community) => {
+    group.forEach((index) => {
+      nodes[index].community = community;
+    });
+  });
+  return nodes;
+}
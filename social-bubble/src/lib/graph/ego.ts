@@ -0,0 +1,98 @@
+import { ApiErrorCode } from "@/types/api";
+import type {
+  GraphEgo,
+  GraphLink,
+  GraphLinkRaw,
+  GraphNodeRaw,
+} from "@/types/graph";
+import type { GraphEgoParams } from "@/lib/api/contracts";
+import { ApiError } from "@/lib/api/errors";
+import { queryClickhouse } from "@/lib/clickhouse/query";
+import { computeCentrality } from "@/lib/graph/centrality";
+import { detectCommunities } from "@/lib/graph/community";
+import { linkEndId } from "@/lib/graph/links";
+import {
+  buildEgoLinksSQL,
+  buildEgoNodesSQL,
+  buildGraphLinksSQL,
+} from "@/lib/graph/queries";
+import { rankGraphNodes } from "@/lib/graph/ranking";
+import { toGraphLinks, toGraphNodes } from "@/lib/graph/transform";
+
+/**
+ * 从与已选节点相连的连线中挑出新的邻居，按与已选节点的互动强度（情绪分绝对值之和）降序
+ *
+ * @param links 至少一端属于上一层的连线
+ * @param members 已选节点
+ * @param limit 最多新增的邻居数
+ */
+export function selectEgoNeighbors(
+  links: GraphLink[],
+  members: Set<string>,
+  limit: number,
+): string[] {
+  const strength = new Map<string, number>();
+  links.forEach((link) => {
+    const sourceId = linkEndId(link.source);
+    const targetId = linkEndId(link.target);
+    const weight =
+      Math.abs(link.source2target_score || 0) +
+      Math.abs(link.target2source_score || 0);
+    if (members.has(sourceId) && !members.has(targetId)) {
+      strength.set(targetId, (strength.get(targetId) ?? 0) + weight);
+    } else if (members.has(targetId) && !members.has(sourceId)) {
+      strength.set(sourceId, (strength.get(sourceId) ?? 0) + weight);
+    }
+  });
+  return Array.from(strength.entries())
+    .sort(([aId, a], [bId, b]) => b - a || aId.localeCompare(bId))
+    .slice(0, Math.max(0, limit))
+    .map(([id]) => id);
+}
+
+/**
+ * 以 user_id 为中心逐跳展开 depth 层邻居（不受 bubble_num 采样和粉丝数限制），
+ * 再查询这些节点之间的全部连线，并计算排名、社区和中心性
+ *
+ * @param params /api/graph/ego 的请求参数
+ */
+export async function getEgoGraph(params: GraphEgoParams): Promise<GraphEgo> {
+  const { user_id, depth, max_nodes } = params;
+  const members = new Set([user_id]);
+  let frontier = [user_id];
+
+  for (let hop = 0; hop < depth && frontier.length; hop++) {
+    const rawLinks = await queryClickhouse<GraphLinkRaw>(
+      buildEgoLinksSQL({ ...params, userIds: frontier }),
+    );
+    frontier = selectEgoNeighbors(
+      toGraphLinks(rawLinks),
+      members,
+      max_nodes - members.size,
+    );
+    frontier.forEach((id) => members.add(id));
+  }
+
+  const userIds = Array.from(members);
+  const nodes = toGraphNodes(
+    await queryClickhouse<GraphNodeRaw>(
+      buildEgoNodesSQL({ ...params, userIds }),
+    ),
+  );
+  if (!nodes.some((node) => node.id === user_id)) {
+    throw new ApiError(ApiErrorCode.NotFound, `User ${user_id} not found`);
+  }
+
+  const links =
+    nodes.length > 1
+      ? toGraphLinks(
+          await queryClickhouse<GraphLinkRaw>(
+            buildGraphLinksSQL({ ...params, nodes }),
+          ),
+        )
+      : [];
+  rankGraphNodes(nodes, links, params);
+  detectCommunities(nodes, links);
+  computeCentrality(nodes, links);
+  return { center: user_id, nodes, links };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import type { GraphData } from "@/types/graph";
+import type { SimpleKOL } from "@/types/kol";
+import { graphToGexf, kolsToCsv } from "@/lib/graph/export";
+import { getRadius } from "@/lib/graph/render";
+import { toGraphNodes } from "@/lib/graph/transform";
+
+const FILTERS = { token: "BTC", filter_time: 1743544033000 };
+
+const csvLines = (csv: string) => csv.replace(/^\ufeff/, "").split("\r\n");
+
+describe("kolsToCsv", () => {
+  it("prefixes text that spreadsheets would evaluate as a formula", () => {
+    const kols = ["=HYPERLINK(1)", "+1", "-cmd", "@SUM(A1)", "alice"].map(
+      (name, index): SimpleKOL => ({
+        id: String(index + 1),
+        username: name,
+        name,
+        followers: 100 - index,
+        score_metrics: -10,
+      }),
+    );
+    const rows = csvLines(kolsToCsv(kols)).slice(1);
+    expect(rows.map((row) => row.split(",")[2])).toEqual([
+      "'=HYPERLINK(1)",
+      "'+1",
+      "'-cmd",
+      "'@SUM(A1)",
+      "alice",
+    ]);
+    // 数值不是文本，负数保持原样
+    expect(rows[0].split(",")[5]).toBe("-10");
+  });
+});
+
+describe("graphToGexf", () => {
+  const nodes = toGraphNodes([
+    {
+      author_id: "1",
+      username: "a",
+      name: "A",
+      followers: "900",
+      score_metrics: 0,
+      opacity: 1,
+    },
+    {
+      author_id: "2",
+      username: "b",
+      name: "B",
+      followers: "100",
+      score_metrics: 0,
+      opacity: 1,
+    },
+  ]);
+  nodes[0].centrality = { ...nodes[0].centrality, pagerank: 0.25 };
+  nodes[1].centrality = { ...nodes[1].centrality, pagerank: 0.75 };
+  const graph: GraphData = { nodes, links: [] };
+
+  const sizes = (gexf: string) =>
+    Array.from(gexf.matchAll(/<viz:size value="([\d.]+)"/g), (match) =>
+      Number(match[1]),
+    );
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  it("sizes nodes by follower share", () => {
+    expect(sizes(graphToGexf(graph, FILTERS, "followers"))).toEqual([
+      round(getRadius(90)),
+      round(getRadius(10)),
+    ]);
+  });
+
+  it("sizes nodes by the selected centrality metric", () => {
+    expect(sizes(graphToGexf(graph, FILTERS, "pagerank"))).toEqual([
+      round(getRadius(25)),
+      round(getRadius(75)),
+    ]);
+  });
+});
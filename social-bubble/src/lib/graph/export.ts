@@ -0,0 +1,550 @@
+import type {
+  GraphData,
+  GraphLink,
+  GraphNode,
+  GraphScene,
+  NodeSizeBy,
+} from "@/types/graph";
+import type { SimpleKOL } from "@/types/kol";
+import type { GraphRequest } from "@/lib/api/contracts";
+import { linkEndId } from "@/lib/graph/links";
+import {
+  computeSizeShares,
+  drawCommunityHulls,
+  drawLink,
+  drawNodeLabel,
+  getArrowPoints,
+  getCommunityHulls,
+  getLinkGeometry,
+  getNodeLabel,
+  getRadius,
+  GRAPH_BACKGROUND,
+  PATH_COLOR,
+} from "@/lib/graph/render";
+import { community2color, score2color } from "@/lib/utils";
+
+// 导出数据时附带的筛选条件，写入 GEXF / GraphML 的描述
+export type GraphExportFilters = GraphRequest & {
+  ego_center?: string; // 邻域图模式下的中心 KOL 用户名
+};
+
+type AttributeType = "string" | "integer" | "long" | "double" | "boolean";
+
+interface ExportAttribute<T> {
+  id: string;
+  type: AttributeType;
+  value: (item: T) => string | number | boolean | undefined;
+}
+
+// 节点导出的属性，GEXF 与 GraphML 共用
+const NODE_ATTRIBUTES: ExportAttribute<GraphNode>[] = [
+  { id: "username", type: "string", value: (node) => node.username },
+  { id: "followers", type: "long", value: (node) => node.followers },
+  { id: "score_metrics", type: "double", value: (node) => node.score_metrics },
+  { id: "percentage", type: "double", value: (node) => node.percentage },
+  { id: "rank", type: "integer", value: (node) => node.rank },
+  { id: "is_top", type: "boolean", value: (node) => node.isTop },
+  { id: "community", type: "integer", value: (node) => node.community },
+  { id: "bucket", type: "string", value: (node) => node.bucket },
+  { id: "pagerank", type: "double", value: (node) => node.centrality.pagerank },
+  {
+    id: "in_degree",
+    type: "double",
+    value: (node) => node.centrality.in_degree,
+  },
+  {
+    id: "out_degree",
+    type: "double",
+    value: (node) => node.centrality.out_degree,
+  },
+  {
+    id: "betweenness",
+    type: "double",
+    value: (node) => node.centrality.betweenness,
+  },
+  {
+    id: "eigenvector",
+    type: "double",
+    value: (node) => node.centrality.eigenvector,
+  },
+];
+
+// 连线导出的属性
+const LINK_ATTRIBUTES: ExportAttribute<GraphLink>[] = [
+  {
+    id: "source2target_score",
+    type: "double",
+    value: (link) => link.source2target_score,
+  },
+  {
+    id: "target2source_score",
+    type: "double",
+    value: (link) => link.target2source_score,
+  },
+];
+
+/**
+ * 连线权重：双向情绪分绝对值之和，与影响路径的互动强度一致
+ */
+const linkWeight = (link: GraphLink) =>
+  Math.abs(link.source2target_score) + Math.abs(link.target2source_score);
+
+// 坐标保留两位小数，减小文件体积
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+/**
+ * 生成 XML 元素的属性串，跳过值为 undefined 的属性
+ */
+const xmlAttrs = (attrs: Record<string, string | number | undefined>) =>
+  Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join("");
+
+/**
+ * 导出为 GEXF 1.3，可直接在 Gephi 中打开；节点带有当前布局的坐标和大小
+ *
+ * @param graph 当前展示的图
+ * @param filters 生成该图时的筛选条件
+ * @param sizeBy 节点大小依据，与画布上的节点大小一致
+ */
+export function graphToGexf(
+  graph: GraphData,
+  filters: GraphExportFilters,
+  sizeBy: NodeSizeBy,
+) {
+  const attributeDefs = (attributes: ExportAttribute<never>[]) =>
+    attributes
+      .map(
+        ({ id, type }) =>
+          `      <attribute${xmlAttrs({ id, title: id, type })}/>`,
+      )
+      .join("\n");
+  const attValues = <T>(attributes: ExportAttribute<T>[], item: T) =>
+    attributes
+      .map(({ id, value }) => [id, value(item)] as const)
+      .filter(([, value]) => value !== undefined)
+      .map(
+        ([id, value]) =>
+          `          <attvalue${xmlAttrs({ for: id, value: String(value) })}/>`,
+      )
+      .join("\n");
+
+  const sizeShares = computeSizeShares(graph.nodes, sizeBy);
+  const nodes = graph.nodes.map((node) => {
+    const radius = getRadius(sizeShares?.get(node.id) ?? node.percentage);
+    const viz =
+      node.x === undefined || node.y === undefined
+        ? ""
+        : `\n        <viz:position${xmlAttrs({ x: round(node.x), y: round(node.y), z: 0 })}/>`;
+    return [
+      `      <node${xmlAttrs({ id: node.id, label: node.name || node.username })}>`,
+      "        <attvalues>",
+      attValues(NODE_ATTRIBUTES, node),
+      `        </attvalues>${viz}`,
+      `        <viz:size${xmlAttrs({ value: round(radius) })}/>`,
+      "      </node>",
+    ].join("\n");
+  });
+  const edges = graph.links.map((link, index) =>
+    [
+      `      <edge${xmlAttrs({
+        id: index,
+        source: linkEndId(link.source),
+        target: linkEndId(link.target),
+        weight: round(linkWeight(link)),
+      })}>`,
+      "        <attvalues>",
+      attValues(LINK_ATTRIBUTES, link),
+      "        </attvalues>",
+      "      </edge>",
+    ].join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    "    <creator>Social Bubble</creator>",
+    `    <description>${escapeXml(JSON.stringify(filters))}</description>`,
+    "  </meta>",
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    attributeDefs(NODE_ATTRIBUTES),
+    "    </attributes>",
+    '    <attributes class="edge">',
+    attributeDefs(LINK_ATTRIBUTES),
+    "    </attributes>",
+    "    <nodes>",
+    ...nodes,
+    "    </nodes>",
+    "    <edges>",
+    ...edges,
+    "    </edges>",
+    "  </graph>",
+    "</gexf>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * 导出为 GraphML，节点坐标写入 x、y 属性
+ *
+ * @param graph 当前展示的图
+ * @param filters 生成该图时的筛选条件
+ */
+export function graphToGraphml(graph: GraphData, filters: GraphExportFilters) {
+  // GraphML 的整数类型名为 int
+  const graphmlType = (type: AttributeType) =>
+    type === "integer" ? "int" : type;
+  const keyDefs = (
+    domain: "node" | "edge",
+    attributes: ExportAttribute<never>[],
+  ) =>
+    attributes.map(
+      ({ id, type }) =>
+        `  <key${xmlAttrs({ id, for: domain, "attr.name": id, "attr.type": graphmlType(type) })}/>`,
+    );
+  const dataValues = <T>(attributes: ExportAttribute<T>[], item: T) =>
+    attributes
+      .map(({ id, value }) => [id, value(item)] as const)
+      .filter(([, value]) => value !== undefined)
+      .map(
+        ([id, value]) =>
+          `      <data key="${id}">${escapeXml(String(value))}</data>`,
+      );
+
+  const positionAttributes: ExportAttribute<GraphNode>[] = [
+    { id: "label", type: "string", value: (node) => node.name },
+    {
+      id: "x",
+      type: "double",
+      value: (node) => (node.x === undefined ? undefined : round(node.x)),
+    },
+    {
+      id: "y",
+      type: "double",
+      value: (node) => (node.y === undefined ? undefined : round(node.y)),
+    },
+  ];
+  const nodeAttributes = [...positionAttributes, ...NODE_ATTRIBUTES];
+  const linkAttributes: ExportAttribute<GraphLink>[] = [
+    { id: "weight", type: "double", value: (link) => round(linkWeight(link)) },
+    ...LINK_ATTRIBUTES,
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    `  <desc>${escapeXml(JSON.stringify(filters))}</desc>`,
+    ...keyDefs("node", nodeAttributes),
+    ...keyDefs("edge", linkAttributes),
+    '  <graph id="G" edgedefault="directed">',
+    ...graph.nodes.flatMap((node) => [
+      `    <node${xmlAttrs({ id: node.id })}>`,
+      ...dataValues(nodeAttributes, node),
+      "    </node>",
+    ]),
+    ...graph.links.flatMap((link, index) => [
+      `    <edge${xmlAttrs({
+        id: `e${index}`,
+        source: linkEndId(link.source),
+        target: linkEndId(link.target),
+      })}>`,
+      ...dataValues(linkAttributes, link),
+      "    </edge>",
+    ]),
+    "  </graph>",
+    "</graphml>",
+    "",
+  ].join("\n");
+}
+
+const csvCell = (value: string | number | undefined) => {
+  // 以 = + - @ 开头的文本会被表格软件当作公式执行，加单引号前缀按文本显示
+  const text =
+    typeof value === "string" && /^[=+\-@]/.test(value)
+      ? `'${value}`
+      : value === undefined
+        ? ""
+        : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 导出 KOL 排名为 CSV，顺序与列表一致；带 BOM 以便 Excel 正确识别 UTF-8 的昵称
+ *
+ * @param kols 当前图谱的 KOL 列表
+ */
+export function kolsToCsv(kols: SimpleKOL[]) {
+  const header = [
+    "rank",
+    "id",
+    "username",
+    "name",
+    "followers",
+    "score_metrics",
+    "bucket",
+    "pagerank",
+    "in_degree",
+    "out_degree",
+    "betweenness",
+    "eigenvector",
+  ];
+  const rows = kols.map((kol, index) => [
+    index + 1,
+    kol.id,
+    kol.username,
+    kol.name,
+    kol.followers,
+    kol.score_metrics,
+    kol.bucket,
+    kol.centrality?.pagerank,
+    kol.centrality?.in_degree,
+    kol.centrality?.out_degree,
+    kol.centrality?.betweenness,
+    kol.centrality?.eigenvector,
+  ]);
+  return (
+    "\ufeff" +
+    [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n")
+  );
+}
+
+/**
+ * 按当前视图重新绘制一张高分辨率的 PNG
+ *
+ * @param scene 当前视图的快照
+ * @param pixelRatio 输出像素与 CSS 像素之比
+ */
+export function sceneToPng(
+  scene: GraphScene,
+  pixelRatio: number,
+): Promise<Blob | null> {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(scene.width * pixelRatio);
+  canvas.height = Math.round(scene.height * pixelRatio);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.resolve(null);
+
+  ctx.fillStyle = GRAPH_BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const { k, x, y } = scene.transform;
+  ctx.setTransform(
+    pixelRatio * k,
+    0,
+    0,
+    pixelRatio * k,
+    pixelRatio * x,
+    pixelRatio * y,
+  );
+
+  if (scene.showHulls) drawCommunityHulls(ctx, scene.nodes, scene.radiusOf);
+  scene.links.forEach((link) => drawLink(ctx, link, scene.isPathLink(link), 0));
+  scene.nodes.forEach((node) => {
+    if (node.x === undefined || node.y === undefined) return;
+    const { fillColor, strokeColor, lineWidth } = scene.styleOf(node);
+    ctx.beginPath();
+    ctx.arc(node.x, node.y, scene.radiusOf(node), 0, 2 * Math.PI);
+    ctx.fillStyle = fillColor;
+    ctx.fill();
+    ctx.strokeStyle = strokeColor;
+    ctx.lineWidth = lineWidth;
+    ctx.stroke();
+  });
+  scene.nodes.forEach((node) =>
+    drawNodeLabel(ctx, node, scene.radiusOf(node), k, scene.isLabelled(node)),
+  );
+
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/png"));
+}
+
+/**
+ * 按当前视图生成 SVG，图形与画布渲染一致，便于在幻灯片或矢量工具中编辑
+ *
+ * @param scene 当前视图的快照
+ */
+export function sceneToSvg(scene: GraphScene) {
+  const { k, x, y } = scene.transform;
+  const defs: string[] = [];
+  const body: string[] = [];
+  const points = (list: [number, number][]) =>
+    list.map(([px, py]) => `${round(px)},${round(py)}`).join(" ");
+
+  if (scene.showHulls) {
+    getCommunityHulls(scene.nodes, scene.radiusOf).forEach(
+      ({ community, hull }) =>
+        body.push(
+          `<polygon${xmlAttrs({
+            points: points(hull),
+            fill: community2color(community, 0.08).fillColor,
+            stroke: community2color(community, 0.5).fillColor,
+            "stroke-width": 1.5,
+            "stroke-linejoin": "round",
+          })}/>`,
+        ),
+    );
+  }
+
+  scene.links.forEach((link, index) => {
+    const source = link.source as GraphNode;
+    const target = link.target as GraphNode;
+    const geometry = source && target ? getLinkGeometry(source, target) : null;
+    if (!geometry) return;
+    const { angle, startX, startY, endX, endY, forwardTip, backwardTip } =
+      geometry;
+    const forward = link.source2target_score ?? 0;
+    const backward = link.target2source_score ?? 0;
+    const sColor = score2color(forward, 1).strokeColor;
+    const tColor = score2color(backward, 1).strokeColor;
+    const line = { x1: round(startX), y1: round(startY) };
+
+    if (scene.isPathLink(link)) {
+      body.push(
+        `<line${xmlAttrs({
+          x1: round(source.x!),
+          y1: round(source.y!),
+          x2: round(target.x!),
+          y2: round(target.y!),
+          stroke: PATH_COLOR,
+          "stroke-width": 6,
+          "stroke-opacity": 0.6,
+        })}/>`,
+      );
+    }
+    if (forward > 0 && backward > 0) {
+      defs.push(
+        `<linearGradient${xmlAttrs({
+          id: `link-${index}`,
+          gradientUnits: "userSpaceOnUse",
+          ...line,
+          x2: round(endX),
+          y2: round(endY),
+        })}><stop offset="0" stop-color="${sColor}"/><stop offset="1" stop-color="${tColor}"/></linearGradient>`,
+      );
+    }
+    body.push(
+      `<line${xmlAttrs({
+        ...line,
+        x2: round(endX),
+        y2: round(endY),
+        stroke:
+          forward > 0 && backward > 0
+            ? `url(#link-${index})`
+            : forward > 0
+              ? sColor
+              : tColor,
+        "stroke-width": 1.5,
+        "stroke-dasharray": forward > 0 && backward > 0 ? undefined : "6 4",
+      })}/>`,
+    );
+    if (forward > 0) {
+      body.push(
+        `<polygon${xmlAttrs({
+          points: points(getArrowPoints(forwardTip[0], forwardTip[1], angle)),
+          fill: sColor,
+        })}/>`,
+      );
+    }
+    if (backward > 0) {
+      body.push(
+        `<polygon${xmlAttrs({
+          points: points(
+            getArrowPoints(backwardTip[0], backwardTip[1], angle + Math.PI),
+          ),
+          fill: tColor,
+        })}/>`,
+      );
+    }
+  });
+
+  scene.nodes.forEach((node) => {
+    if (node.x === undefined || node.y === undefined) return;
+    const { fillColor, strokeColor, lineWidth } = scene.styleOf(node);
+    body.push(
+      `<circle${xmlAttrs({
+        cx: round(node.x),
+        cy: round(node.y),
+        r: round(scene.radiusOf(node)),
+        fill: fillColor,
+        stroke: strokeColor,
+        "stroke-width": lineWidth,
+      })}/>`,
+    );
+  });
+
+  // 用离屏画布测量文本，名称的截断与画布渲染一致
+  const measureCtx = document.createElement("canvas").getContext("2d");
+  if (measureCtx) {
+    scene.nodes.forEach((node) => {
+      const label = getNodeLabel(
+        measureCtx,
+        node,
+        scene.radiusOf(node),
+        k,
+        scene.isLabelled(node),
+      );
+      if (!label) return;
+      if (label.background) {
+        body.push(
+          `<rect${xmlAttrs({
+            x: round(label.background.x),
+            y: round(label.background.y),
+            width: round(label.background.width),
+            height: round(label.background.height),
+            fill: "rgba(0, 0, 0, 0.5)",
+          })}/>`,
+        );
+      }
+      body.push(
+        `<text${xmlAttrs({
+          x: round(label.x),
+          y: round(label.y),
+          "font-size": round(label.fontSize),
+          "font-family": "sans-serif",
+          "text-anchor": "middle",
+          "dominant-baseline": "middle",
+          fill: "#ffffff",
+        })}>${escapeXml(label.text)}</text>`,
+      );
+    });
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg"${xmlAttrs({
+      width: scene.width,
+      height: scene.height,
+      viewBox: `0 0 ${scene.width} ${scene.height}`,
+    })}>`,
+    `<rect width="100%" height="100%" fill="${GRAPH_BACKGROUND}"/>`,
+    `<defs>${defs.join("")}</defs>`,
+    `<g transform="matrix(${k} 0 0 ${k} ${x} ${y})">`,
+    ...body,
+    "</g>",
+    "</svg>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * 触发浏览器下载
+ *
+ * @param blob 文件内容
+ * @param filename 文件名
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,61 @@
+import * as d3 from "d3";
+
+// 布局线程中的节点，只保留受力计算所需的字段
+export interface LayoutNode extends d3.SimulationNodeDatum {
+  id: string;
+  radial: number; // 径向力的目标半径
+  collide: number; // 碰撞半径
+}
+
+export interface LayoutLink extends d3.SimulationLinkDatum<LayoutNode> {
+  source: string | LayoutNode;
+  target: string | LayoutNode;
+}
+
+// 单个节点的固定坐标，为 null 时释放
+export interface LayoutFix {
+  id: string;
+  fx: number | null;
+  fy: number | null;
+}
+
+// 主线程发给布局线程的消息
+export type LayoutRequest =
+  | {
+      type: "init";
+      version: number; // 每次重建布局递增，用于丢弃过期的坐标
+      nodes: LayoutNode[];
+      links: LayoutLink[];
+      alpha: number; // 初始 alpha，热启动时较低
+    }
+  | {
+      type: "fix";
+      fixes: LayoutFix[];
+      alphaTarget: number; // 拖拽期间大于 0，保持布局运行
+      alpha?: number; // 需要重新加热时的最低 alpha
+    };
+
+// 布局线程发回主线程的消息，positions 按 init 中的节点顺序排列 x、y
+export type LayoutResponse =
+  | { type: "tick"; version: number; positions: Float32Array }
+  | { type: "end"; version: number };
+
+/**
+ * 图谱布局使用的各项力，径向半径与碰撞半径由主线程按节点大小算好
+ */
+export function createGraphForces() {
+  return {
+    link: d3
+      .forceLink<LayoutNode, LayoutLink>()
+      .id((d) => d.id)
+      .distance(80)
+      .strength(0.5),
+    charge: d3.forceManyBody<LayoutNode>().strength(-150),
+    center: d3.forceCenter<LayoutNode>(0, 0),
+    radial: d3.forceRadial<LayoutNode>((d) => d.radial, 0, 0),
+    collision: d3
+      .forceCollide<LayoutNode>()
+      .radius((d) => d.collide)
+      .strength(1),
+  };
+}
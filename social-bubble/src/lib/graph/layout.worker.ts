@@ -0,0 +1,115 @@
+import * as d3 from "d3";
+
+import {
+  createGraphForces,
+  type LayoutLink,
+  type LayoutNode,
+  type LayoutRequest,
+  type LayoutResponse,
+} from "@/lib/graph/forces";
+
+// 新节点放在已知邻居的重心附近，并加一点随机偏移避免重叠
+const SPAWN_JITTER = 30;
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<LayoutRequest>) => void) | null;
+  postMessage: (message: LayoutResponse, transfer?: Transferable[]) => void;
+};
+
+let simulation: d3.Simulation<LayoutNode, LayoutLink> | null = null;
+let nodeById = new Map<string, LayoutNode>();
+let version = 0;
+
+/**
+ * 没有坐标的节点取已有坐标的邻居的重心作为初始位置，使热启动时新节点出现在相关 KOL 旁边；
+ * 没有已知邻居的节点交给 d3 按默认方式摆放
+ *
+ * @param nodes 布局节点
+ * @param links 布局连线，端点为节点 ID
+ */
+const placeNewNodes = (nodes: LayoutNode[], links: LayoutLink[]) => {
+  const placed = new Set(
+    nodes
+      .filter((node) => node.x !== undefined && node.y !== undefined)
+      .map((node) => node.id),
+  );
+  if (!placed.size || placed.size === nodes.length) return;
+
+  const neighbors = new Map<string, LayoutNode[]>();
+  links.forEach(({ source, target }) => {
+    const sourceNode = nodeById.get(source as string);
+    const targetNode = nodeById.get(target as string);
+    if (!sourceNode || !targetNode) return;
+    neighbors.set(sourceNode.id, [
+      ...(neighbors.get(sourceNode.id) ?? []),
+      targetNode,
+    ]);
+    neighbors.set(targetNode.id, [
+      ...(neighbors.get(targetNode.id) ?? []),
+      sourceNode,
+    ]);
+  });
+
+  nodes.forEach((node) => {
+    if (placed.has(node.id)) return;
+    const anchors = (neighbors.get(node.id) ?? []).filter((neighbor) =>
+      placed.has(neighbor.id),
+    );
+    if (!anchors.length) return;
+    node.x =
+      d3.mean(anchors, (anchor) => anchor.x)! +
+      (Math.random() - 0.5) * SPAWN_JITTER;
+    node.y =
+      d3.mean(anchors, (anchor) => anchor.y)! +
+      (Math.random() - 0.5) * SPAWN_JITTER;
+  });
+};
+
+/**
+ * 把当前坐标按节点顺序打包发回主线程
+ */
+const postPositions = () => {
+  if (!simulation) return;
+  const nodes = simulation.nodes();
+  const positions = new Float32Array(nodes.length * 2);
+  nodes.forEach((node, index) => {
+    positions[index * 2] = node.x ?? 0;
+    positions[index * 2 + 1] = node.y ?? 0;
+  });
+  scope.postMessage({ type: "tick", version, positions }, [positions.buffer]);
+};
+
+scope.onmessage = ({ data: message }) => {
+  if (message.type === "init") {
+    simulation?.stop();
+    version = message.version;
+    nodeById = new Map(message.nodes.map((node) => [node.id, node]));
+    placeNewNodes(message.nodes, message.links);
+
+    const forces = createGraphForces();
+    forces.link.links(message.links);
+    const current = d3
+      .forceSimulation(message.nodes)
+      .alpha(message.alpha)
+      .on("tick", postPositions)
+      .on("end", () => scope.postMessage({ type: "end", version }));
+    Object.entries(forces).forEach(([name, force]) =>
+      current.force(name, force),
+    );
+    simulation = current;
+    return;
+  }
+
+  if (!simulation) return;
+  message.fixes.forEach(({ id, fx, fy }) => {
+    const node = nodeById.get(id);
+    if (!node) return;
+    node.fx = fx;
+    node.fy = fy;
+  });
+  simulation.alphaTarget(message.alphaTarget);
+  if (message.alpha !== undefined) {
+    simulation.alpha(Math.max(simulation.alpha(), message.alpha));
+  }
+  simulation.restart();
+};
@@ -0,0 +1,9 @@
+import type { GraphLink } from "@/types/graph";
+
+/**
+ * 连线端点的节点 ID；力导向布局运行后 source / target 会被替换为节点对象
+ *
+ * @param end 连线的 source 或 target
+ */
+export const linkEndId = (end: GraphLink["source"]) =>
+  typeof end === "string" ? end : end.id;
@@ -0,0 +1,30 @@
+import type { GraphData } from "@/types/graph";
+import { linkEndId } from "@/lib/graph/links";
+
+/**
+ * 将 extra 中尚未出现的节点和连线追加到 base，已有的同 id 节点、同一对 KOL 的连线沿用 base 中的对象，
+ * 以保留力导向布局的坐标
+ *
+ * @param base 当前展示的图
+ * @param extra 需要叠加的图
+ */
+export function mergeGraphData(base: GraphData, extra: GraphData): GraphData {
+  const nodeIds = new Set(base.nodes.map((node) => node.id));
+  const pairKeys = new Set(
+    base.links.map((link) =>
+      [linkEndId(link.source), linkEndId(link.target)].sort().join("|"),
+    ),
+  );
+  const nodes = extra.nodes.filter((node) => !nodeIds.has(node.id));
+  const links = extra.links.filter(
+    (link) =>
+      !pairKeys.has(
+        [linkEndId(link.source), linkEndId(link.target)].sort().join("|"),
+      ),
+  );
+  if (!nodes.length && !links.length) return base;
+  return {
+    nodes: [...base.nodes, ...nodes],
+    links: [...base.links, ...links],
+  };
+}
@@ -0,0 +1,264 @@
+import { ApiErrorCode } from "@/types/api";
+import type {
+  GraphLink,
+  GraphLinkRaw,
+  GraphNodeRaw,
+  GraphPath,
+  InfluencePath,
+} from "@/types/graph";
+import type { GraphPathParams } from "@/lib/api/contracts";
+import { ApiError } from "@/lib/api/errors";
+import { queryClickhouse } from "@/lib/clickhouse/query";
+import { selectEgoNeighbors } from "@/lib/graph/ego";
+import { linkEndId } from "@/lib/graph/links";
+import { buildEgoLinksSQL, buildEgoNodesSQL } from "@/lib/graph/queries";
+import { toGraphLinks, toGraphNodes } from "@/lib/graph/transform";
+
+// 单跳代价 = 1 + PATH_COST_SCALE / 互动强度：跳数优先，跳数相同时互动越强代价越小
+const PATH_COST_SCALE = 100;
+// 每侧每跳最多展开的新节点数，避免高连接度的 KOL 让查询规模失控
+const MAX_FRONTIER = 200;
+
+interface PathEdge {
+  id: string; // 相邻 KOL
+  cost: number;
+  strength: number;
+}
+
+/**
+ * 无向连线的键，与方向无关
+ */
+export const pairKey = (a: string, b: string) =>
+  a < b ? `${a}|${b}` : `${b}|${a}`;
+
+/**
+ * 连线的互动强度：双向情绪分绝对值之和
+ */
+const linkStrength = (link: GraphLink) =>
+  Math.abs(link.source2target_score || 0) +
+  Math.abs(link.target2source_score || 0);
+
+/**
+ * 按无向邻接表整理连线，同一对 KOL 只保留一条
+ */
+function buildAdjacency(links: GraphLink[]): Map<string, PathEdge[]> {
+  const adjacency = new Map<string, PathEdge[]>();
+  const seen = new Set<string>();
+  links.forEach((link) => {
+    const sourceId = linkEndId(link.source);
+    const targetId = linkEndId(link.target);
+    const key = pairKey(sourceId, targetId);
+    const strength = linkStrength(link);
+    if (sourceId === targetId || seen.has(key) || strength <= 0) return;
+    seen.add(key);
+    const cost = 1 + PATH_COST_SCALE / strength;
+    if (!adjacency.has(sourceId)) adjacency.set(sourceId, []);
+    if (!adjacency.has(targetId)) adjacency.set(targetId, []);
+    adjacency.get(sourceId)!.push({ id: targetId, cost, strength });
+    adjacency.get(targetId)!.push({ id: sourceId, cost, strength });
+  });
+  return adjacency;
+}
+
+/**
+ * 逐层松弛（跳数受限的 Bellman-Ford）求 source 到 target 代价最小的路径
+ *
+ * @param bannedNodes 不可经过的中间节点
+ * @param bannedPairs 不可经过的连线，键由 pairKey 生成
+ */
+function shortestPath(
+  adjacency: Map<string, PathEdge[]>,
+  source: string,
+  target: string,
+  maxHops: number,
+  bannedNodes: Set<string>,
+  bannedPairs: Set<string>,
+): InfluencePath | null {
+  // layers[h] 记录恰好 h + 1 跳到达各节点时的前驱
+  const layers: Map<string, string>[] = [];
+  let costs = new Map([[source, 0]]);
+  let best: { cost: number; hops: number } | null = null;
+
+  for (let hop = 1; hop <= maxHops && costs.size; hop++) {
+    const nextCosts = new Map<string, number>();
+    const prev = new Map<string, string>();
+    costs.forEach((cost, id) => {
+      if (id === target) return;
+      adjacency.get(id)?.forEach((edge) => {
+        if (edge.id === source) return;
+        if (edge.id !== target && bannedNodes.has(edge.id)) return;
+        if (bannedPairs.has(pairKey(id, edge.id))) return;
+        const nextCost = cost + edge.cost;
+        if (nextCost < (nextCosts.get(edge.id) ?? Infinity)) {
+          nextCosts.set(edge.id, nextCost);
+          prev.set(edge.id, id);
+        }
+      });
+    });
+    layers.push(prev);
+    const targetCost = nextCosts.get(target);
+    if (targetCost !== undefined && (!best || targetCost < best.cost)) {
+      best = { cost: targetCost, hops: hop };
+    }
+    costs = nextCosts;
+  }
+  if (!best) return null;
+
+  // 各跳代价为正，代价最小的路径不会含环
+  const nodeIds = [target];
+  for (let hop = best.hops; hop > 0; hop--) {
+    nodeIds.unshift(layers[hop - 1].get(nodeIds[0])!);
+  }
+  const strength = Math.min(
+    ...nodeIds
+      .slice(1)
+      .map(
+        (id, index) =>
+          adjacency.get(nodeIds[index])!.find((edge) => edge.id === id)!
+            .strength,
+      ),
+  );
+  return { node_ids: nodeIds, cost: best.cost, strength };
+}
+
+/**
+ * 在连线集合中依次找出至多 maxPaths 条互不共享中间节点的路径，按代价升序；
+ * 直连路径之后的备选路径不再使用该直连连线
+ *
+ * @param links 候选连线
+ * @param source 起点 KOL
+ * @param target 终点 KOL
+ * @param maxHops 路径最多经过的连线数
+ * @param maxPaths 最多返回的路径数
+ */
+export function findInfluencePaths(
+  links: GraphLink[],
+  source: string,
+  target: string,
+  maxHops: number,
+  maxPaths: number,
+): InfluencePath[] {
+  const adjacency = buildAdjacency(links);
+  const bannedNodes = new Set<string>();
+  const bannedPairs = new Set<string>();
+  const paths: InfluencePath[] = [];
+
+  while (paths.length < maxPaths) {
+    const path = shortestPath(
+      adjacency,
+      source,
+      target,
+      maxHops,
+      bannedNodes,
+      bannedPairs,
+    );
+    if (!path) break;
+    paths.push(path);
+    if (path.node_ids.length === 2) {
+      bannedPairs.add(pairKey(source, target));
+    } else {
+      path.node_ids.slice(1, -1).forEach((id) => bannedNodes.add(id));
+    }
+  }
+  return paths;
+}
+
+/**
+ * 在完整的互动表上查找两个 KOL 之间的影响路径（不受 bubble_num 采样和粉丝数限制）。
+ * 从两端交替逐跳展开邻居，两侧相遇且已有 max_paths 条路径或用完 max_hops 后，在已展开的连线上求代价最小的路径
+ *
+ * @param params /api/graph/path 的请求参数
+ */
+export async function getInfluencePaths(
+  params: GraphPathParams,
+): Promise<GraphPath> {
+  const { source_id, target_id, max_hops, max_paths } = params;
+  const sides = [source_id, target_id].map((id) => ({
+    visited: new Set([id]),
+    frontier: [id],
+  }));
+  const links = new Map<string, GraphLink>();
+
+  for (let hop = 0; hop < max_hops; hop++) {
+    const expandable = sides.filter((side) => side.frontier.length);
+    if (!expandable.length) break;
+    // 优先展开边界较小的一侧
+    const side = expandable.reduce((a, b) =>
+      b.frontier.length < a.frontier.length ? b : a,
+    );
+    const other = sides[0] === side ? sides[1] : sides[0];
+
+    const found = toGraphLinks(
+      await queryClickhouse<GraphLinkRaw>(
+        buildEgoLinksSQL({ ...params, userIds: side.frontier }),
+      ),
+    );
+    let met = false;
+    found.forEach((link) => {
+      const sourceId = linkEndId(link.source);
+      const targetId = linkEndId(link.target);
+      const key = pairKey(sourceId, targetId);
+      if (!links.has(key)) links.set(key, link);
+      if (
+        (side.visited.has(sourceId) && other.visited.has(targetId)) ||
+        (side.visited.has(targetId) && other.visited.has(sourceId))
+      ) {
+        met = true;
+      }
+    });
+    // 两侧相遇后，已有足够的备选路径时停止展开
+    if (
+      met &&
+      findInfluencePaths(
+        Array.from(links.values()),
+        source_id,
+        target_id,
+        max_hops,
+        max_paths,
+      ).length >= max_paths
+    ) {
+      break;
+    }
+
+    side.frontier = selectEgoNeighbors(found, side.visited, MAX_FRONTIER);
+    side.frontier.forEach((id) => side.visited.add(id));
+  }
+
+  const paths = findInfluencePaths(
+    Array.from(links.values()),
+    source_id,
+    target_id,
+    max_hops,
+    max_paths,
+  );
+
+  const userIds = new Set([source_id, target_id]);
+  const pathLinks = new Map<string, GraphLink>();
+  paths.forEach((path) => {
+    path.node_ids.forEach((id, index) => {
+      userIds.add(id);
+      if (index === 0) return;
+      const key = pairKey(path.node_ids[index - 1], id);
+      pathLinks.set(key, links.get(key)!);
+    });
+  });
+
+  const nodes = toGraphNodes(
+    await queryClickhouse<GraphNodeRaw>(
+      buildEgoNodesSQL({ ...params, userIds: Array.from(userIds) }),
+    ),
+  );
+  [source_id, target_id].forEach((id) => {
+    if (!nodes.some((node) => node.id === id)) {
+      throw new ApiError(ApiErrorCode.NotFound, `User ${id} not found`);
+    }
+  });
+
+  return {
+    source: source_id,
+    target: target_id,
+    paths,
+    nodes,
+    links: Array.from(pathLinks.values()),
+  };
+}
@@ -0,0 +1,555 @@
+import dayjs from "dayjs";
+
+import type { ForceGraphParams, TimelineStep } from "@/types/graph";
+import {
+  INTERACTION_TYPES,
+  type GraphRequestParams,
+} from "@/lib/api/contracts";
+import type { ClickhouseQuery } from "@/lib/clickhouse/query";
+import { samplingQuotas } from "@/lib/graph/sampling";
+
+// 时间衰减加权：越接近参考时间的记录权重越高，窗口起点处权重为 0
+const DECAY_SCORE_SQL = `sum(score_metrics * (1 - age_days/ttl_days))
+        / sum(1 - age_days/ttl_days)`;
+// 透明度由窗口内最早一条记录的时间决定
+const DECAY_OPACITY_SQL = `1 - max(age_days)/ttl_days`;
+
+// 按 active_type 查表取行为权重，未参与计算的类型权重为 0
+const INTERACTION_WEIGHT_SQL = `transform(active_type,
+            {interaction_types:Array(String)},
+            {interaction_weights:Array(Float64)},
+            0.0)`;
+
+// 按行为权重对 A→B 的情绪分做加权平均
+const WEIGHTED_SCORE_SQL = `sum(score * ${INTERACTION_WEIGHT_SQL})
+        /
+        sum(${INTERACTION_WEIGHT_SQL})`;
+
+// 双向情绪分之和需超过阈值才保留连线
+const LINK_STRENGTH_SQL = `source2target_score + target2source_score  > {min_link_strength:Float64}`;
+
+type LinkWeightParams = Pick<
+  GraphRequestParams,
+  "weights" | "interaction_types" | "min_link_strength"
+>;
+
+/**
+ * 只保留启用且权重大于 0 的互动类型，避免加权平均的分母为 0
+ */
+function linkWeightQueryParams(params: LinkWeightParams) {
+  const { weights, interaction_types, min_link_strength } = params;
+  const types = INTERACTION_TYPES.filter(
+    (type) => interaction_types.includes(type) && weights[type] > 0,
+  );
+  return {
+    interaction_types: types,
+    interaction_weights: types.map((type) => weights[type]),
+    min_link_strength,
+  };
+}
+
+export function buildGraphNodesSQL(params: ForceGraphParams): ClickhouseQuery {
+  const {
+    token,
+    filter_time, // 毫秒时间戳
+    filter_followers, // 最小粉丝数
+    add_user_list, // array<Int>
+    sub_user_list, // array<Int>
+    ttl, // 天数
+  } = params;
+
+  // 1) 计算各部分数量
+  const quotas = samplingQuotas(params);
+
+  const query = `
+WITH
+  toDateTime({filter_time:Int64} / 1000)                              AS ts,
+  {ttl:UInt32}                                                        AS ttl_days,
+  toDateTime(( {filter_time:Int64} - ttl_days * 86400000 ) / 1000)   AS ts_start
+
+, raw AS (
+    SELECT author_id, username, name, followers, CAST(score AS Float32) AS score_metrics, created
+    FROM user_graph_detail_score
+    WHERE active_type = 'comment'
+      AND label = {token:String}
+      AND created <= {filter_time:Int64}
+      AND created > {filter_time:Int64} - ttl_days * 86400000
+      AND followers >= {filter_followers:UInt64}
+      AND NOT has({sub_user_list:Array(Int64)}, author_id)
+)
+
+, aggregated AS (
+    SELECT
+      author_id,
+      anyLast(username)  AS username,
+      anyLast(name)      AS name,
+      anyLast(followers) AS followers,
+      ${DECAY_SCORE_SQL}                                 AS score_metrics,
+      ${DECAY_OPACITY_SQL}                               AS opacity
+    FROM (
+      SELECT *, dateDiff('second', toDateTime(created/1000), ts)/86400.0 AS age_days
+      FROM raw
+    )
+    GROUP BY author_id
+)
+
+-- Top 粉丝的大V
+, top_users AS (
+    SELECT author_id, username, name, followers, score_metrics, opacity
+    FROM aggregated
+    ORDER BY followers DESC
+    LIMIT {top_count:UInt32}
+)
+, top_ids AS (
+    SELECT author_id FROM top_users
+)
+
+-- 分离正/负情绪
+, positive AS (SELECT * FROM aggregated WHERE score_metrics > 0 AND author_id NOT IN (SELECT author_id FROM top_ids))
+, negative AS (SELECT * FROM aggregated WHERE score_metrics < 0 AND author_id NOT IN (SELECT author_id FROM top_ids))
+
+-- 剩余部分：按粉丝降序取 posCount、negCount
+, sampled_pos AS (
+    SELECT author_id, username, name, followers, score_metrics, opacity
+    FROM positive
+    ORDER BY followers DESC
+    LIMIT {pos_count:UInt32}
+)
+, sampled_neg AS (
+    SELECT author_id, username, name, followers, score_metrics, opacity
+    FROM negative
+    ORDER BY followers DESC
+    LIMIT {neg_count:UInt32}
+)
+
+-- 自定义加入
+, add_users AS (
+    SELECT id AS author_id, username, name, followers, CAST(0.0 AS Float32) AS score_metrics, 1.0 AS opacity
+    FROM user_info
+    WHERE has({add_user_list:Array(Int64)}, id)
+)
+
+-- 合并最终结果，bucket 标记每个节点的采样来源
+SELECT author_id, username, name, followers, score_metrics, opacity, 'top' AS bucket FROM top_users
+UNION ALL
+SELECT author_id, username, name, followers, score_metrics, opacity, 'positive' AS bucket FROM sampled_pos
+UNION ALL
+SELECT author_id, username, name, followers, score_metrics, opacity, 'negative' AS bucket FROM sampled_neg
+UNION ALL
+SELECT author_id, username, name, followers, score_metrics, opacity, 'added' AS bucket FROM add_users;
+`;
+
+  return {
+    name: "graph.nodes",
+    query,
+    params: {
+      token,
+      filter_time,
+      filter_followers,
+      ttl,
+      top_count: quotas.top,
+      pos_count: quotas.positive,
+      neg_count: quotas.negative,
+      add_user_list,
+      sub_user_list,
+    },
+  };
+}
+
+export function buildGraphLinksSQL(
+  params: Pick<ForceGraphParams, "filter_time" | "ttl" | "nodes"> &
+    LinkWeightParams,
+): ClickhouseQuery {
+  const {
+    filter_time, // 毫秒时间戳
+    ttl, // 天数
+    nodes,
+  } = params;
+  if (!nodes || nodes.length === 0) {
+    throw new Error("nodes is empty");
+  }
+  const userIds = nodes.map((node) => node.id);
+  const query = `
+    WITH
+-- 1) 先算出每个方向（A→B）的加权平均分
+ds AS (
+    SELECT
+        author_id     AS source_id,
+        label_user_id AS target_id,
+        ${WEIGHTED_SCORE_SQL} AS source2target_score
+    FROM user_graph_detail_score
+    WHERE
+        object_type = 'user'
+        AND has({interaction_types:Array(String)}, active_type)
+        AND created <= {filter_time:Int64}
+        AND created > {filter_time:Int64} - {ttl:UInt32} * 86400000
+        AND has({user_ids:Array(Int64)}, author_id)
+        AND has({user_ids:Array(Int64)}, label_user_id)
+    GROUP BY source_id, target_id
+)
+
+-- 2) 对于存在 A→B 记录的行，LEFT JOIN 取出 B→A（如果有）
+, directional AS (
+    SELECT
+        d1.source_id,
+        d1.target_id,
+        d1.source2target_score,
+        d2.source2target_score AS target2source_score
+    FROM ds AS d1
+    LEFT JOIN ds AS d2
+      ON d1.source_id = d2.target_id
+     AND d1.target_id = d2.source_id
+)
+
+-- 3) 对于只有 B→A 而没有 A→B 的情形，需要补一行 (A,B) 且 A→B=NULL
+, inverse_only AS (
+    SELECT
+        d2.target_id AS source_id,
+        d2.source_id AS target_id,
+        CAST(NULL AS Nullable(Float64)) AS source2target_score,
+        d2.source2target_score AS target2source_score
+    FROM ds AS d2
+    LEFT JOIN ds AS d1
+      ON d1.source_id = d2.target_id
+     AND d1.target_id = d2.source_id
+    WHERE d1.source_id IS NULL
+)
+
+
+-- 4) 合并并排序
+SELECT source_id, target_id, source2target_score, target2source_score 
+FROM directional
+WHERE source_id <> target_id
+AND ${LINK_STRENGTH_SQL}
+UNION ALL
+SELECT source_id, target_id, source2target_score, target2source_score FROM inverse_only
+WHERE source_id <> target_id
+AND ${LINK_STRENGTH_SQL};`;
+
+  return {
+    name: "graph.links",
+    query,
+    params: {
+      filter_time,
+      ttl,
+      user_ids: userIds,
+      ...linkWeightQueryParams(params),
+    },
+  };
+}
+
+interface TimelineQueryParams extends LinkWeightParams {
+  token: string;
+  ttl: number; // 天数
+  steps: number[]; // 每个快照的参考时间，毫秒时间戳
+  userIds: string[]; // 稳定的节点集合
+}
+
+/**
+ * 按日历步长生成时间序列的快照时间点，包含起点，不超过终点
+ *
+ * @param start 起始时间，毫秒时间戳
+ * @param end 结束时间，毫秒时间戳
+ * @param step 步长单位
+ */
+export function buildTimelineSteps(
+  start: number,
+  end: number,
+  step: TimelineStep,
+) {
+  const steps: number[] = [];
+  for (let t = dayjs(start); t.valueOf() <= end; t = t.add(1, step)) {
+    steps.push(t.valueOf());
+  }
+  return steps;
+}
+
+/**
+ * 在每个快照时间点上，按与 buildGraphNodesSQL 相同的衰减规则计算节点情绪和透明度
+ */
+export function buildTimelineNodeStatesSQL(
+  params: TimelineQueryParams,
+): ClickhouseQuery {
+  const { token, ttl, steps, userIds } = params;
+  const query = `
+WITH
+  {ttl:UInt32}                                                        AS ttl_days
+
+, steps AS (
+    SELECT arrayJoin({steps:Array(Int64)}) AS step_time
+)
+
+, raw AS (
+    SELECT author_id, CAST(score AS Float32) AS score_metrics, created
+    FROM user_graph_detail_score
+    WHERE active_type = 'comment'
+      AND label = {token:String}
+      AND has({user_ids:Array(Int64)}, author_id)
+      AND created <= {end:Int64}
+      AND created > {start:Int64} - ttl_days * 86400000
+)
+
+SELECT
+  step_time,
+  author_id,
+  ${DECAY_SCORE_SQL}                                 AS score_metrics,
+  ${DECAY_OPACITY_SQL}                               AS opacity
+FROM (
+  SELECT
+    step_time,
+    author_id,
+    score_metrics,
+    dateDiff('second', toDateTime(created/1000), toDateTime(step_time/1000))/86400.0 AS age_days
+  FROM raw
+  CROSS JOIN steps
+  WHERE created <= step_time
+    AND created > step_time - ttl_days * 86400000
+)
+GROUP BY step_time, author_id;
+`;
+
+  return {
+    name: "graph.timelineNodeStates",
+    query,
+    params: {
+      token,
+      ttl,
+      steps,
+      start: steps[0],
+      end: steps[steps.length - 1],
+      user_ids: userIds,
+    },
+  };
+}
+
+/**
+ * 在每个快照时间点上，按与 buildGraphLinksSQL 相同的规则计算节点间连线
+ */
+export function buildTimelineLinksSQL(
+  params: TimelineQueryParams,
+): ClickhouseQuery {
+  const { ttl, steps, userIds } = params;
+  const query = `
+    WITH
+    {ttl:UInt32} AS ttl_days
+
+, steps AS (
+    SELECT arrayJoin({steps:Array(Int64)}) AS step_time
+)
+
+, raw AS (
+    SELECT author_id, label_user_id, active_type, score, created
+    FROM user_graph_detail_score
+    WHERE
+        object_type = 'user'
+        AND has({interaction_types:Array(String)}, active_type)
+        AND created <= {end:Int64}
+        AND created > {start:Int64} - ttl_days * 86400000
+        AND has({user_ids:Array(Int64)}, author_id)
+        AND has({user_ids:Array(Int64)}, label_user_id)
+)
+
+-- 1) 每个快照内每个方向（A→B）的加权平均分
+, ds AS (
+    SELECT
+        step_time,
+        author_id     AS source_id,
+        label_user_id AS target_id,
+        ${WEIGHTED_SCORE_SQL} AS source2target_score
+    FROM raw
+    CROSS JOIN steps
+    WHERE created <= step_time
+      AND created > step_time - ttl_days * 86400000
+    GROUP BY step_time, source_id, target_id
+)
+
+-- 2) 同一快照内 LEFT JOIN 取出 B→A（如果有）
+, directional AS (
+    SELECT
+        d1.step_time,
+        d1.source_id,
+        d1.target_id,
+        d1.source2target_score,
+        d2.source2target_score AS target2source_score
+    FROM ds AS d1
+    LEFT JOIN ds AS d2
+      ON d1.step_time = d2.step_time
+     AND d1.source_id = d2.target_id
+     AND d1.target_id = d2.source_id
+)
+
+-- 3) 只有 B→A 而没有 A→B 的情形，补一行 (A,B) 且 A→B=NULL
+, inverse_only AS (
+    SELECT
+        d2.step_time,
+        d2.target_id AS source_id,
+        d2.source_id AS target_id,
+        CAST(NULL AS Nullable(Float64)) AS source2target_score,
+        d2.source2target_score AS target2source_score
+    FROM ds AS d2
+    LEFT JOIN ds AS d1
+      ON d1.step_time = d2.step_time
+     AND d1.source_id = d2.target_id
+     AND d1.target_id = d2.source_id
+    WHERE d1.source_id IS NULL
+)
+
+SELECT step_time, source_id, target_id, source2target_score, target2source_score
+FROM directional
+WHERE source_id <> target_id
+AND ${LINK_STRENGTH_SQL}
+UNION ALL
+SELECT step_time, source_id, target_id, source2target_score, target2source_score FROM inverse_only
+WHERE source_id <> target_id
+AND ${LINK_STRENGTH_SQL};`;
+
+  return {
+    name: "graph.timelineLinks",
+    query,
+    params: {
+      ttl,
+      steps,
+      start: steps[0],
+      end: steps[steps.length - 1],
+      user_ids: userIds,
+      ...linkWeightQueryParams(params),
+    },
+  };
+}
+
+interface EgoQueryParams extends LinkWeightParams {
+  token: string;
+  filter_time: number; // 毫秒时间戳
+  ttl: number; // 天数
+  userIds: string[];
+}
+
+/**
+ * 查询至少一端属于 userIds 的连线，用于从中心 KOL 逐跳展开邻居，规则与 buildGraphLinksSQL 相同
+ */
+export function buildEgoLinksSQL(params: EgoQueryParams): ClickhouseQuery {
+  const { filter_time, ttl, userIds } = params;
+  const query = `
+    WITH
+-- 1) 每个方向（A→B）的加权平均分，只要有一端在当前层
+ds AS (
+    SELECT
+        author_id     AS source_id,
+        label_user_id AS target_id,
+        ${WEIGHTED_SCORE_SQL} AS source2target_score
+    FROM user_graph_detail_score
+    WHERE
+        object_type = 'user'
+        AND has({interaction_types:Array(String)}, active_type)
+        AND created <= {filter_time:Int64}
+        AND created > {filter_time:Int64} - {ttl:UInt32} * 86400000
+        AND (has({user_ids:Array(Int64)}, author_id)
+             OR has({user_ids:Array(Int64)}, label_user_id))
+    GROUP BY source_id, target_id
+)
+
+-- 2) LEFT JOIN 取出 B→A（如果有）
+, directional AS (
+    SELECT
+        d1.source_id,
+        d1.target_id,
+        d1.source2target_score,
+        d2.source2target_score AS target2source_score
+    FROM ds AS d1
+    LEFT JOIN ds AS d2
+      ON d1.source_id = d2.target_id
+     AND d1.target_id = d2.source_id
+)
+
+-- 3) 只有 B→A 而没有 A→B 的情形，补一行 (A,B) 且 A→B=NULL
+, inverse_only AS (
+    SELECT
+        d2.target_id AS source_id,
+        d2.source_id AS target_id,
+        CAST(NULL AS Nullable(Float64)) AS source2target_score,
+        d2.source2target_score AS target2source_score
+    FROM ds AS d2
+    LEFT JOIN ds AS d1
+      ON d1.source_id = d2.target_id
+     AND d1.target_id = d2.source_id
+    WHERE d1.source_id IS NULL
+)
+
+SELECT source_id, target_id, source2target_score, target2source_score
+FROM directional
+WHERE source_id <> target_id
+AND ${LINK_STRENGTH_SQL}
+UNION ALL
+SELECT source_id, target_id, source2target_score, target2source_score FROM inverse_only
+WHERE source_id <> target_id
+AND ${LINK_STRENGTH_SQL};`;
+
+  return {
+    name: "graph.egoLinks",
+    query,
+    params: {
+      filter_time,
+      ttl,
+      user_ids: userIds,
+      ...linkWeightQueryParams(params),
+    },
+  };
+}
+
+/**
+ * 查询指定用户的节点信息，不受粉丝数和采样限制；窗口内没有评论的用户情绪为 0、完全不透明
+ */
+export function buildEgoNodesSQL(
+  params: Pick<EgoQueryParams, "token" | "filter_time" | "ttl" | "userIds">,
+): ClickhouseQuery {
+  const { token, filter_time, ttl, userIds } = params;
+  const query = `
+WITH
+  toDateTime({filter_time:Int64} / 1000)                              AS ts,
+  {ttl:UInt32}                                                        AS ttl_days
+
+, aggregated AS (
+    SELECT
+      author_id,
+      1                                                  AS matched,
+      ${DECAY_SCORE_SQL}                                 AS score_metrics,
+      ${DECAY_OPACITY_SQL}                               AS opacity
+    FROM (
+      SELECT
+        author_id,
+        CAST(score AS Float32) AS score_metrics,
+        dateDiff('second', toDateTime(created/1000), ts)/86400.0 AS age_days
+      FROM user_graph_detail_score
+      WHERE active_type = 'comment'
+        AND label = {token:String}
+        AND created <= {filter_time:Int64}
+        AND created > {filter_time:Int64} - ttl_days * 86400000
+        AND has({user_ids:Array(Int64)}, author_id)
+    )
+    GROUP BY author_id
+)
+
+-- LEFT JOIN 未匹配时 ClickHouse 填充默认值 0，用 matched 区分
+SELECT
+  u.id                                               AS author_id,
+  u.username                                         AS username,
+  u.name                                             AS name,
+  u.followers                                        AS followers,
+  if(a.matched = 1, a.score_metrics, 0.0)            AS score_metrics,
+  if(a.matched = 1, a.opacity, 1.0)                  AS opacity
+FROM user_info AS u
+LEFT JOIN aggregated AS a ON u.id = a.author_id
+WHERE has({user_ids:Array(Int64)}, u.id);
+`;
+
+  return {
+    name: "graph.egoNodes",
+    query,
+    params: {
+      token,
+      filter_time,
+      ttl,
+      user_ids: userIds,
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import type { GraphLinkRaw } from "@/types/graph";
+import type { RankBy } from "@/lib/api/contracts";
+import { rankGraphNodes } from "@/lib/graph/ranking";
+import { toGraphLinks, toGraphNodes } from "@/lib/graph/transform";
+
+// 与 buildGraphNodesSQL 查询结果结构相同的节点行
+const NODE_ROWS = [
+  {
+    author_id: "101",
+    username: "alpha",
+    name: "Alpha",
+    followers: "50000",
+    score_metrics: 10,
+    opacity: 1,
+  },
+  {
+    author_id: "102",
+    username: "bravo",
+    name: "Bravo",
+    followers: "20000",
+    score_metrics: -80,
+    opacity: 1,
+  },
+  {
+    author_id: "103",
+    username: "charlie",
+    name: "Charlie",
+    followers: "20000",
+    score_metrics: 80,
+    opacity: 1,
+  },
+  {
+    author_id: "104",
+    username: "delta",
+    name: "Delta",
+    followers: "8000",
+    score_metrics: 40,
+    opacity: 1,
+  },
+];
+
+// 与 buildGraphLinksSQL 查询结果结构相同的连线行，101 没有任何连线
+const LINK_ROWS: GraphLinkRaw[] = [
+  {
+    source_id: "104",
+    target_id: "102",
+    source2target_score: 60,
+    target2source_score: -20,
+  },
+  {
+    source_id: "103",
+    target_id: "104",
+    source2target_score: 10,
+    target2source_score: 0,
+  },
+];
+
+const rank = (rank_by: RankBy, top_ratio = 0.5, linkRows = LINK_ROWS) => {
+  const nodes = rankGraphNodes(
+    toGraphNodes(NODE_ROWS),
+    toGraphLinks(linkRows),
+    { rank_by, top_ratio },
+  );
+  return [...nodes].sort((a, b) => a.rank - b.rank);
+};
+
+const ids = (nodes: { id: string }[]) => nodes.map((node) => node.id);
+
+describe("rankGraphNodes", () => {
+  it("ranks by followers and marks ceil(n × top_ratio) nodes as Top", () => {
+    const ranked = rank("followers", 0.3);
+    expect(ids(ranked)).toEqual(["101", "102", "103", "104"]);
+    expect(ranked.map((node) => node.rank)).toEqual([1, 2, 3, 4]);
+    expect(ranked.map((node) => node.isTop)).toEqual([
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it("ranks by followers weighted by the absolute sentiment score", () => {
+    // 101: 5000, 102/103: 16000, 104: 3200
+    expect(ids(rank("influence"))).toEqual(["102", "103", "101", "104"]);
+  });
+
+  it("ranks by weighted degree over link scores", () => {
+    // 104: 90, 102: 80, 103: 10, 101: 0
+    expect(ids(rank("centrality"))).toEqual(["104", "102", "103", "101"]);
+  });
+
+  it("breaks ties by followers, then by id", () => {
+    // 102 与 103 的粉丝数和影响力都相同，按 ID 升序
+    const ranked = rank("influence");
+    expect(ranked.find((node) => node.id === "102")!.rank).toBe(1);
+    expect(ranked.find((node) => node.id === "103")!.rank).toBe(2);
+
+    // 没有连线时中心性都为 0，按粉丝数排列
+    expect(ids(rank("centrality", 0.5, []))).toEqual([
+      "101",
+      "102",
+      "103",
+      "104",
+    ]);
+  });
+
+  it("treats a missing centrality or a non-finite score as zero", () => {
+    const ranked = rank("centrality", 0.5, [
+      ...LINK_ROWS,
+      {
+        source_id: "101",
+        target_id: "104",
+        source2target_score: Number.NaN,
+        target2source_score: Number.NaN,
+      },
+    ]);
+    // 101 只有 NaN 分值的连线，与没有连线时相同，排在最后
+    expect(ids(ranked)).toEqual(["104", "102", "103", "101"]);
+    expect(ranked[3].isTop).toBe(false);
+  });
+});
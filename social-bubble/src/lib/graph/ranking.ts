@@ -0,0 +1,71 @@
+import type { GraphLink, GraphNode } from "@/types/graph";
+import type { RankBy } from "@/lib/api/contracts";
+import { linkEndId } from "@/lib/graph/links";
+
+interface RankOptions {
+  rank_by: RankBy;
+  top_ratio: number; // Top 样本比例（0～1）
+}
+
+/**
+ * 连线加权度中心性：与节点相连的所有连线的情绪分绝对值之和
+ */
+function weightedDegree(links: GraphLink[]) {
+  const degree = new Map<string, number>();
+  const add = (id: string, score: number) => {
+    if (!Number.isFinite(score)) return;
+    degree.set(id, (degree.get(id) ?? 0) + Math.abs(score));
+  };
+  links.forEach((link) => {
+    const sourceId = linkEndId(link.source);
+    const targetId = linkEndId(link.target);
+    add(sourceId, link.source2target_score);
+    add(targetId, link.source2target_score);
+    add(sourceId, link.target2source_score);
+    add(targetId, link.target2source_score);
+  });
+  return degree;
+}
+
+/**
+ * 按 rank_by 为节点排名，名次从 1 开始，前 ceil(节点数 × top_ratio) 名标记为 Top。
+ * 分值相同时依次按粉丝数降序、ID 升序排列，保证结果确定。
+ *
+ * @param nodes 图谱节点，原地写入 rank 与 isTop
+ * @param links 节点间连线，rank_by 为 centrality 时使用
+ * @param options 排序依据与 Top 比例
+ */
+export function rankGraphNodes(
+  nodes: GraphNode[],
+  links: GraphLink[],
+  options: RankOptions,
+): GraphNode[] {
+  const { rank_by, top_ratio } = options;
+  const degree = rank_by === "centrality" ? weightedDegree(links) : null;
+
+  const scoreOf = (node: GraphNode) => {
+    switch (rank_by) {
+      case "influence":
+        return node.followers * (Math.abs(node.score_metrics) / 100);
+      case "centrality":
+        return degree!.get(node.id) ?? 0;
+      default:
+        return node.followers;
+    }
+  };
+
+  const scores = new Map(nodes.map((node) => [node.id, scoreOf(node)]));
+  const sorted = [...nodes].sort(
+    (a, b) =>
+      scores.get(b.id)! - scores.get(a.id)! ||
+      b.followers - a.followers ||
+      a.id.localeCompare(b.id),
+  );
+
+  const topCount = Math.ceil(nodes.length * top_ratio);
+  sorted.forEach((node, index) => {
+    node.rank = index + 1;
+    node.isTop = index < topCount;
+  });
+  return nodes;
+}
@@ -0,0 +1,497 @@
+import * as d3 from "d3";
+
+import type {
+  GraphLink,
+  GraphNode,
+  GraphPath,
+  GraphScene,
+  NodeColorBy,
+  NodeSizeBy,
+  NodeStyle,
+} from "@/types/graph";
+import { community2color, score2color } from "@/lib/utils";
+
+// 画布背景色
+export const GRAPH_BACKGROUND = "#101827";
+// 影响路径的高亮颜色
+export const PATH_COLOR = "#facc15";
+
+// 连线两端相对节点中心的留白与箭头长度
+export const LINK_INSET = 4;
+export const ARROW_LENGTH = 8;
+
+// 社区轮廓与节点边缘的间距
+const HULL_PADDING = 12;
+// 用多边形近似节点圆周时的采样点数
+const HULL_CIRCLE_SAMPLES = 8;
+
+export const linkPairKey = (a: string, b: string) =>
+  a < b ? `${a}|${b}` : `${b}|${a}`;
+
+/**
+ * 计算节点的半径
+ *
+ * @param percentage 粉丝数百分比
+ * @returns 半径
+ */
+export const getRadius = (percentage: number) =>
+  Math.min(100, 30.2 * Math.sqrt(percentage) + 2);
+
+/**
+ * 按中心性决定大小时各节点的占比（0 ~ 100），返回 null 表示沿用粉丝占比
+ *
+ * @param nodes 图谱节点
+ * @param sizeBy 节点大小依据
+ */
+export function computeSizeShares(nodes: GraphNode[], sizeBy: NodeSizeBy) {
+  if (sizeBy === "followers") return null;
+  const total = nodes.reduce((sum, node) => sum + node.centrality[sizeBy], 0);
+  if (total <= 0) return null;
+  return new Map(
+    nodes.map((node) => [node.id, (node.centrality[sizeBy] / total) * 100]),
+  );
+}
+
+/**
+ * 当前高亮的影响路径经过的节点和连线，连线的键由 linkPairKey 生成
+ *
+ * @param influencePath 两个 KOL 之间的备选路径
+ * @param activeIndex 当前选中的路径
+ */
+export function getPathHighlight(
+  influencePath: GraphPath | null,
+  activeIndex: number,
+) {
+  const path = influencePath?.paths[activeIndex];
+  if (!path) return null;
+  return {
+    nodeIds: new Set(path.node_ids),
+    pairKeys: new Set(
+      path.node_ids
+        .slice(1)
+        .map((id, index) => linkPairKey(path.node_ids[index], id)),
+    ),
+  };
+}
+
+export type PathHighlight = ReturnType<typeof getPathHighlight>;
+
+// 生成导出快照所需的渲染器状态
+export interface SceneState {
+  nodeColorBy: NodeColorBy;
+  highlightedPath: PathHighlight;
+  selectedId?: string;
+  targetId?: string;
+  targetHoveredId?: string;
+  visualOf: (node: GraphNode) => Pick<GraphNode, "score_metrics" | "opacity">;
+  radiusOf: (node: GraphNode) => number;
+}
+
+/**
+ * 按渲染器当前的状态生成视图快照，悬停效果不导出
+ *
+ * @param view 画布尺寸、缩放平移和图谱数据
+ * @param state 渲染器状态
+ */
+export function createGraphScene(
+  view: Pick<GraphScene, "width" | "height" | "transform" | "nodes" | "links">,
+  state: SceneState,
+): GraphScene {
+  const { highlightedPath } = state;
+  return {
+    ...view,
+    showHulls: state.nodeColorBy === "community",
+    radiusOf: state.radiusOf,
+    styleOf: (node) =>
+      getNodeStyle(node, state.visualOf(node), state.nodeColorBy, {
+        hovered: false,
+        selected: state.selectedId === node.id,
+        targetHovered: state.targetHoveredId === node.id,
+        targetSelected: state.targetId === node.id,
+        onPath: !!highlightedPath?.nodeIds.has(node.id),
+      }),
+    isLabelled: (node) =>
+      state.selectedId === node.id ||
+      state.targetId === node.id ||
+      !!highlightedPath?.nodeIds.has(node.id),
+    isPathLink: (link) =>
+      !!highlightedPath?.pairKeys.has(
+        linkPairKey(
+          (link.source as GraphNode).id,
+          (link.target as GraphNode).id,
+        ),
+      ),
+  };
+}
+
+export interface NodeHighlight {
+  hovered: boolean;
+  selected: boolean;
+  targetHovered: boolean;
+  targetSelected: boolean;
+  onPath: boolean;
+}
+
+/**
+ * 按交互状态和着色依据计算节点的填充色、边框色与边框宽度
+ *
+ * @param node 图谱节点
+ * @param visual 插值中的情绪分与透明度
+ * @param colorBy 着色依据
+ * @param highlight 节点的交互状态
+ */
+export function getNodeStyle(
+  node: GraphNode,
+  visual: Pick<GraphNode, "score_metrics" | "opacity">,
+  colorBy: NodeColorBy,
+  highlight: NodeHighlight,
+): NodeStyle {
+  if (highlight.hovered) {
+    // 节点被 hover
+    return {
+      fillColor: "rgba(255,255,255,0.2)",
+      strokeColor: "#ffffff",
+      lineWidth: 3,
+    };
+  }
+  if (highlight.selected) {
+    // 节点被点击
+    return {
+      fillColor: "rgba(255,255,255,0.2)",
+      strokeColor: "#ffffff",
+      lineWidth: 4,
+    };
+  }
+  if (highlight.targetHovered) {
+    // hover 了目标 kol
+    return {
+      fillColor: "rgba(59,130,246,0.15)",
+      strokeColor: "#3b82f6",
+      lineWidth: 2.5,
+    };
+  }
+  if (highlight.targetSelected) {
+    // 选中了目标 kol
+    return {
+      fillColor: "rgba(59,130,246,0.25)",
+      strokeColor: "#3b82f6",
+      lineWidth: 3,
+    };
+  }
+  const colors =
+    colorBy === "community"
+      ? community2color(node.community, visual.opacity)
+      : score2color(visual.score_metrics, visual.opacity);
+  return {
+    fillColor: colors.fillColor,
+    strokeColor: highlight.onPath ? PATH_COLOR : colors.strokeColor,
+    lineWidth: highlight.onPath ? 3 : 2,
+  };
+}
+
+/**
+ * 计算连线的绘制位置：起点略缩避免压住节点，终点留出箭头的长度；两端过近时返回 null
+ *
+ * @param source 起点节点
+ * @param target 终点节点
+ */
+export function getLinkGeometry(source: GraphNode, target: GraphNode) {
+  if (
+    source.x === undefined ||
+    source.y === undefined ||
+    target.x === undefined ||
+    target.y === undefined
+  ) {
+    return null;
+  }
+  const angle = Math.atan2(target.y - source.y, target.x - source.x);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const startX = source.x + cos * LINK_INSET;
+  const startY = source.y + sin * LINK_INSET;
+  const endX = target.x - cos * (LINK_INSET + ARROW_LENGTH);
+  const endY = target.y - sin * (LINK_INSET + ARROW_LENGTH);
+  if (Math.hypot(endX - startX, endY - startY) < 2) return null;
+  return {
+    angle,
+    startX,
+    startY,
+    endX,
+    endY,
+    // 两端箭头的尖端，分别指向 target 和 source
+    forwardTip: [target.x - cos * LINK_INSET, target.y - sin * LINK_INSET],
+    backwardTip: [source.x + cos * LINK_INSET, source.y + sin * LINK_INSET],
+  } as const;
+}
+
+/**
+ * 箭头三角形的三个顶点
+ *
+ * @param x 箭头尖端的横坐标
+ * @param y 箭头尖端的纵坐标
+ * @param angle 箭头指向的角度
+ */
+export const getArrowPoints = (
+  x: number,
+  y: number,
+  angle: number,
+): [number, number][] => [
+  [x, y],
+  [
+    x - Math.cos(angle - Math.PI / 8) * ARROW_LENGTH,
+    y - Math.sin(angle - Math.PI / 8) * ARROW_LENGTH,
+  ],
+  [
+    x - Math.cos(angle + Math.PI / 8) * ARROW_LENGTH,
+    y - Math.sin(angle + Math.PI / 8) * ARROW_LENGTH,
+  ],
+];
+
+/**
+ * 绘制一条连线：双向为渐变实线，单向为单色虚线，并在有情绪的一端画箭头
+ *
+ * @param ctx CanvasRenderingContext2D 上下文，坐标系为图谱坐标
+ * @param link 图谱连线，端点已解析为节点
+ * @param highlighted 是否位于高亮的影响路径上
+ * @param dashOffset 虚线的偏移，用于流动动画
+ */
+export const drawLink = (
+  ctx: CanvasRenderingContext2D,
+  link: GraphLink,
+  highlighted: boolean,
+  dashOffset: number,
+) => {
+  const source = link.source as GraphNode;
+  const target = link.target as GraphNode;
+  const geometry = source && target ? getLinkGeometry(source, target) : null;
+  if (!geometry) return;
+  const { angle, startX, startY, endX, endY, forwardTip, backwardTip } =
+    geometry;
+
+  const forward = link.source2target_score ?? 0;
+  const backward = link.target2source_score ?? 0;
+  const sColor = score2color(forward, 1).strokeColor;
+  const tColor = score2color(backward, 1).strokeColor;
+
+  // 影响路径上的连线先画一层较粗的高亮底色
+  if (highlighted) {
+    ctx.save();
+    ctx.lineWidth = 6;
+    ctx.strokeStyle = PATH_COLOR;
+    ctx.globalAlpha = 0.6;
+    ctx.beginPath();
+    ctx.moveTo(source.x!, source.y!);
+    ctx.lineTo(target.x!, target.y!);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  let strokeStyle: CanvasGradient | string;
+  let dash: number[] = [];
+  if (forward > 0 && backward > 0) {
+    // 在双向情况下用 source -> target 坐标创建渐变
+    const grad = ctx.createLinearGradient(startX, startY, endX, endY);
+    grad.addColorStop(0, sColor);
+    grad.addColorStop(1, tColor);
+    strokeStyle = grad;
+  } else {
+    // 单向用虚线 + 单色
+    strokeStyle = forward > 0 ? sColor : tColor;
+    dash = [6, 4];
+  }
+
+  ctx.save();
+  ctx.setLineDash(dash);
+  ctx.lineDashOffset = dashOffset;
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = strokeStyle;
+  ctx.beginPath();
+  ctx.moveTo(startX, startY);
+  ctx.lineTo(endX, endY);
+  ctx.stroke();
+  ctx.restore();
+
+  const drawArrow = (points: [number, number][], color: string) => {
+    ctx.beginPath();
+    points.forEach(([x, y], index) =>
+      index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y),
+    );
+    ctx.closePath();
+    ctx.fillStyle = color;
+    ctx.fill();
+  };
+  if (forward > 0) {
+    // source → target
+    drawArrow(getArrowPoints(forwardTip[0], forwardTip[1], angle), sColor);
+  }
+  if (backward > 0) {
+    // target → source
+    drawArrow(
+      getArrowPoints(backwardTip[0], backwardTip[1], angle + Math.PI),
+      tColor,
+    );
+  }
+};
+
+/**
+ * 计算各社区的凸包轮廓，轮廓包住成员节点的圆周并留出 HULL_PADDING 的间距
+ *
+ * @param nodes 图谱节点
+ * @param radiusOf 节点当前的半径
+ * @returns 社区编号与轮廓多边形
+ */
+export function getCommunityHulls(
+  nodes: GraphNode[],
+  radiusOf: (node: GraphNode) => number,
+) {
+  const pointsByCommunity = new Map<number, [number, number][]>();
+  nodes.forEach((node) => {
+    if (node.community < 0 || node.x === undefined || node.y === undefined) {
+      return;
+    }
+    const radius = radiusOf(node) + HULL_PADDING;
+    const points = pointsByCommunity.get(node.community) ?? [];
+    for (let i = 0; i < HULL_CIRCLE_SAMPLES; i++) {
+      const angle = (2 * Math.PI * i) / HULL_CIRCLE_SAMPLES;
+      points.push([
+        node.x + Math.cos(angle) * radius,
+        node.y + Math.sin(angle) * radius,
+      ]);
+    }
+    pointsByCommunity.set(node.community, points);
+  });
+
+  const hulls: { community: number; hull: [number, number][] }[] = [];
+  pointsByCommunity.forEach((points, community) => {
+    const hull = d3.polygonHull(points);
+    if (hull) hulls.push({ community, hull });
+  });
+  return hulls;
+}
+
+/**
+ * 绘制各社区的凸包轮廓
+ *
+ * @param ctx CanvasRenderingContext2D 上下文
+ * @param nodes 图谱节点
+ * @param radiusOf 节点当前的半径
+ */
+export const drawCommunityHulls = (
+  ctx: CanvasRenderingContext2D,
+  nodes: GraphNode[],
+  radiusOf: (node: GraphNode) => number,
+) => {
+  ctx.save();
+  ctx.lineJoin = "round";
+  getCommunityHulls(nodes, radiusOf).forEach(({ community, hull }) => {
+    ctx.beginPath();
+    hull.forEach(([x, y], index) =>
+      index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y),
+    );
+    ctx.closePath();
+    ctx.fillStyle = community2color(community, 0.08).fillColor;
+    ctx.fill();
+    ctx.strokeStyle = community2color(community, 0.5).fillColor;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+/**
+ * 截断文本以适应指定的最大宽度
+ *
+ * @param ctx CanvasRenderingContext2D 上下文
+ * @param text 原始文本
+ * @param maxWidth 最大宽度
+ * @returns 截断后的文本
+ */
+const truncateTextToFit = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+): string => {
+  let truncated = text;
+  while (ctx.measureText(truncated).width > maxWidth && truncated.length > 0) {
+    truncated = truncated.slice(0, -1);
+  }
+  return truncated + (truncated.length < text.length ? "..." : "");
+};
+
+// 节点名称的字号（屏幕像素）与背景框的内边距
+const LABEL_FONT_SIZE = 12;
+const LABEL_PADDING = 4;
+
+/**
+ * 计算节点名称的文本和背景框，减少不必要的文本渲染：只显示足够大的 Top 节点和被选中、位于路径上的节点
+ *
+ * @param ctx CanvasRenderingContext2D 上下文，用于测量文本宽度
+ * @param node 图谱节点
+ * @param radius 节点当前的半径
+ * @param scale 当前缩放比例
+ * @param selected 是否被选中或位于高亮路径上
+ * @returns 不需要显示时返回 null，坐标和字号均为图谱坐标系
+ */
+export function getNodeLabel(
+  ctx: CanvasRenderingContext2D,
+  node: GraphNode,
+  radius: number,
+  scale: number,
+  selected: boolean,
+) {
+  if (node.x === undefined || node.y === undefined) return null;
+  if (!(node.isTop && radius > 25 && scale > 0.35) && !selected) return null;
+
+  const fontSize = LABEL_FONT_SIZE / scale;
+  ctx.font = `${fontSize}px sans-serif`;
+  const text = selected
+    ? (node.name ?? node.id)
+    : truncateTextToFit(ctx, node.name ?? node.id, radius * 2 - 12);
+  const textWidth = ctx.measureText(text).width;
+
+  return {
+    text,
+    x: node.x,
+    y: node.y,
+    fontSize,
+    // 选中的节点在名称下方垫一层半透明背景
+    background: selected
+      ? {
+          x: node.x - textWidth / 2 - LABEL_PADDING,
+          y: node.y - fontSize / 2,
+          width: textWidth + LABEL_PADDING * 2,
+          height: fontSize + 4,
+        }
+      : null,
+  };
+}
+
+/**
+ * 绘制节点名称
+ *
+ * @param ctx CanvasRenderingContext2D 上下文，坐标系为图谱坐标
+ * @param node 图谱节点
+ * @param radius 节点当前的半径
+ * @param scale 当前缩放比例
+ * @param selected 是否被选中或位于高亮路径上
+ */
+export const drawNodeLabel = (
+  ctx: CanvasRenderingContext2D,
+  node: GraphNode,
+  radius: number,
+  scale: number,
+  selected: boolean,
+) => {
+  const label = getNodeLabel(ctx, node, radius, scale, selected);
+  if (!label) return;
+
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  if (label.background) {
+    const { x, y, width, height } = label.background;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+    ctx.fillRect(x, y, width, height);
+  }
+  ctx.fillStyle = "#ffffff";
+  ctx.fillText(label.text, label.x, label.y);
+};
@@ -0,0 +1,67 @@
+import type { GraphNode, SamplingBucket, SamplingSummary } from "@/types/graph";
+import type { GraphRequestParams } from "@/lib/api/contracts";
+
+type SamplingParams = Pick<
+  GraphRequestParams,
+  | "bubble_num"
+  | "top_ratio"
+  | "volatility"
+  | "add_user_list"
+  | "sub_user_list"
+  | "filter_followers"
+>;
+
+// 采样来源，按 buildGraphNodesSQL 的合并顺序排列
+export const SAMPLING_BUCKETS: SamplingBucket[] = [
+  "top",
+  "positive",
+  "negative",
+  "added",
+];
+
+/**
+ * 各采样来源的配额：先取 ceil(bubble_num × top_ratio) 个粉丝最多的 KOL，
+ * 扣除手动加入的 KOL 后，剩余名额按 volatility 在正负情绪之间分配
+ *
+ * @param params /api/graph 的请求参数
+ */
+export function samplingQuotas(
+  params: SamplingParams,
+): Record<SamplingBucket, number> {
+  const { bubble_num, top_ratio, volatility, add_user_list } = params;
+  const top = Math.ceil(bubble_num * top_ratio);
+  const added = add_user_list.length;
+  const remain = Math.max(0, bubble_num - top - added);
+  // 根据 volatility 简单分配剩余正负数量
+  const clampedVolatility = Math.max(-1, Math.min(1, volatility));
+  const positive = Math.round(remain * (0.5 + clampedVolatility / 2));
+  return { top, positive, negative: remain - positive, added };
+}
+
+/**
+ * 汇总各采样来源的配额与实际入选数
+ *
+ * @param nodes 带 bucket 标记的图谱节点
+ * @param params /api/graph 的请求参数
+ */
+export function summarizeSampling(
+  nodes: GraphNode[],
+  params: SamplingParams,
+): SamplingSummary {
+  const quotas = samplingQuotas(params);
+  const buckets = Object.fromEntries(
+    SAMPLING_BUCKETS.map((bucket) => [
+      bucket,
+      {
+        quota: quotas[bucket],
+        count: nodes.filter((node) => node.bucket === bucket).length,
+      },
+    ]),
+  ) as SamplingSummary["buckets"];
+  return {
+    buckets,
+    filter_followers: params.filter_followers,
+    excluded: params.sub_user_list.length,
+    volatility: Math.max(-1, Math.min(1, params.volatility)),
+  };
+}
@@ -0,0 +1,50 @@
+import type {
+  GraphLink,
+  GraphLinkRaw,
+  GraphNode,
+  GraphNodeRaw,
+} from "@/types/graph";
+import { EMPTY_CENTRALITY } from "@/lib/graph/centrality";
+import { NO_COMMUNITY } from "@/lib/graph/community";
+
+/**
+ * 将节点查询结果转换为 GraphNode，并计算粉丝占比；名次和 Top 标记由 rankGraphNodes 赋值，社区由 detectCommunities 赋值，中心性由 computeCentrality 赋值
+ *
+ * @param rows buildGraphNodesSQL 的查询结果
+ */
+export function toGraphNodes(rows: GraphNodeRaw[]): GraphNode[] {
+  const nodes: GraphNode[] = rows.map((row) => ({
+    ...row,
+    id: row.author_id.toString(),
+    followers: Number(row.followers),
+    score_metrics: Number(row.score_metrics),
+    opacity: Number(row.opacity),
+    percentage: 0,
+    rank: 0,
+    isTop: false,
+    community: NO_COMMUNITY,
+    centrality: EMPTY_CENTRALITY,
+  }));
+  // 计算每个节点的粉丝占比
+  const totalFollowers = nodes.reduce((acc, node) => acc + node.followers, 0);
+  nodes.forEach((node) => {
+    node.percentage = totalFollowers
+      ? (node.followers / totalFollowers) * 100
+      : 0;
+  });
+  return nodes;
+}
+
+/**
+ * 将连线查询结果转换为 GraphLink
+ *
+ * @param rows buildGraphLinksSQL 的查询结果
+ */
+export function toGraphLinks(rows: GraphLinkRaw[]): GraphLink[] {
+  return rows.map((row) => ({
+    source: row.source_id.toString(),
+    target: row.target_id.toString(),
+    source2target_score: Number(row.source2target_score),
+    target2source_score: Number(row.target2source_score),
+  }));
+}
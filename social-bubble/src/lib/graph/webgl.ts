@@ -0,0 +1,400 @@
+// 每个节点实例的浮点数：圆心 (2)、半径 (1)、填充色 (4)、边框色 (4)、边框宽度 (1)
+export const NODE_STRIDE = 12;
+// 每条线段实例的浮点数：起点 (2)、终点 (2)、起点颜色 (4)、终点颜色 (4)、起止宽度 (2)、是否虚线 (1)
+export const SEGMENT_STRIDE = 15;
+// 虚线的实线段与间隔长度，与 Canvas 渲染器的 setLineDash([6, 4]) 一致
+const DASH_LENGTH = 6;
+const DASH_GAP = 4;
+
+export type RGBA = [number, number, number, number];
+
+// 图谱坐标到屏幕坐标的变换：screen = world × k + (x, y)
+export interface ViewTransform {
+  k: number;
+  x: number;
+  y: number;
+}
+
+const hexCache = new Map<string, RGBA>();
+
+/**
+ * 将 #rrggbb 或 rgba(r,g,b,a) 颜色解析为 0 ~ 1 的 RGBA 分量
+ *
+ * @param color 颜色字符串
+ * @param alpha 覆盖颜色自带的透明度
+ */
+export function parseRgba(color: string, alpha?: number): RGBA {
+  let rgba: RGBA | undefined;
+  if (color.startsWith("#")) {
+    rgba = hexCache.get(color);
+    if (!rgba) {
+      const value = parseInt(color.slice(1), 16);
+      rgba = [
+        ((value >> 16) & 255) / 255,
+        ((value >> 8) & 255) / 255,
+        (value & 255) / 255,
+        1,
+      ];
+      hexCache.set(color, rgba);
+    }
+  } else {
+    const [r = 156, g = 163, b = 175, a = 1] = (color.match(/[\d.]+/g) ?? [])
+      .slice(0, 4)
+      .map(Number);
+    rgba = [r / 255, g / 255, b / 255, a];
+  }
+  return alpha === undefined ? rgba : [rgba[0], rgba[1], rgba[2], alpha];
+}
+
+const COMMON_GLSL = `#version 300 es
+precision highp float;
+uniform vec2 u_resolution;
+uniform vec3 u_transform;
+
+vec4 toClip(vec2 world) {
+  vec2 screen = world * u_transform.x + u_transform.yz;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  return vec4(clip.x, -clip.y, 0.0, 1.0);
+}
+`;
+
+// 节点：实例化的四边形，在片元着色器中按到圆心的距离画出填充和边框
+const NODE_VERTEX = `${COMMON_GLSL}
+in vec2 a_corner;
+in vec2 a_center;
+in float a_radius;
+in vec4 a_fill;
+in vec4 a_stroke;
+in float a_strokeWidth;
+out vec2 v_local;
+out float v_radius;
+out float v_strokeWidth;
+out vec4 v_fill;
+out vec4 v_stroke;
+
+void main() {
+  float outer = a_radius + a_strokeWidth * 0.5 + 1.0 / u_transform.x;
+  v_local = a_corner * outer;
+  v_radius = a_radius;
+  v_strokeWidth = a_strokeWidth;
+  v_fill = a_fill;
+  v_stroke = a_stroke;
+  gl_Position = toClip(a_center + v_local);
+}
+`;
+
+const NODE_FRAGMENT = `#version 300 es
+precision highp float;
+uniform vec3 u_transform;
+in vec2 v_local;
+in float v_radius;
+in float v_strokeWidth;
+in vec4 v_fill;
+in vec4 v_stroke;
+out vec4 outColor;
+
+void main() {
+  float d = length(v_local);
+  float aa = 1.0 / u_transform.x;
+  float halfStroke = v_strokeWidth * 0.5;
+  float coverage = 1.0 - smoothstep(v_radius + halfStroke - aa, v_radius + halfStroke, d);
+  float strokeMix = smoothstep(v_radius - halfStroke - aa, v_radius - halfStroke, d);
+  vec4 color = mix(v_fill, v_stroke, strokeMix);
+  color.a *= coverage;
+  if (color.a <= 0.0) discard;
+  outColor = vec4(color.rgb * color.a, color.a);
+}
+`;
+
+// 线段：实例化的四边形，沿线段方向插值颜色和宽度；终点宽度为 0 时即为箭头三角形
+const SEGMENT_VERTEX = `${COMMON_GLSL}
+in vec2 a_corner;
+in vec2 a_start;
+in vec2 a_end;
+in vec4 a_color0;
+in vec4 a_color1;
+in vec2 a_width;
+in float a_dashed;
+out vec4 v_color;
+out float v_along;
+out float v_across;
+out float v_halfWidth;
+out float v_dashed;
+
+void main() {
+  // 四边形的角沿长度方向映射到 0 ~ 1
+  float along = (a_corner.x + 1.0) * 0.5;
+  vec2 dir = a_end - a_start;
+  float len = length(dir);
+  vec2 normal = len > 0.0 ? vec2(-dir.y, dir.x) / len : vec2(0.0);
+  float halfWidth = mix(a_width.x, a_width.y, along) * 0.5;
+  float across = a_corner.y * (halfWidth + 1.0 / u_transform.x);
+  v_color = mix(a_color0, a_color1, along);
+  v_along = along * len;
+  v_across = across;
+  v_halfWidth = halfWidth;
+  v_dashed = a_dashed;
+  gl_Position = toClip(a_start + dir * along + normal * across);
+}
+`;
+
+const SEGMENT_FRAGMENT = `#version 300 es
+precision highp float;
+uniform vec3 u_transform;
+uniform float u_dashOffset;
+in vec4 v_color;
+in float v_along;
+in float v_across;
+in float v_halfWidth;
+in float v_dashed;
+out vec4 outColor;
+
+void main() {
+  if (v_dashed > 0.5 && mod(v_along + u_dashOffset, ${DASH_LENGTH + DASH_GAP}.0) > ${DASH_LENGTH}.0) discard;
+  float aa = 0.5 / u_transform.x;
+  vec4 color = v_color;
+  color.a *= 1.0 - smoothstep(v_halfWidth - aa, v_halfWidth + aa, abs(v_across));
+  if (color.a <= 0.0) discard;
+  outColor = vec4(color.rgb * color.a, color.a);
+}
+`;
+
+interface InstancedProgram {
+  program: WebGLProgram;
+  vao: WebGLVertexArrayObject;
+  buffer: WebGLBuffer;
+  capacity: number; // buffer 当前可容纳的浮点数
+  uniforms: Record<string, WebGLUniformLocation | null>;
+}
+
+/**
+ * 编译并链接着色器程序
+ */
+function createProgram(
+  gl: WebGL2RenderingContext,
+  vertexSource: string,
+  fragmentSource: string,
+): WebGLProgram {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(gl.getShaderInfoLog(shader) ?? "Shader compile failed");
+    }
+    return shader;
+  };
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, vertexSource));
+  gl.attachShader(program, compile(gl.FRAGMENT_SHADER, fragmentSource));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) ?? "Program link failed");
+  }
+  return program;
+}
+
+/**
+ * 用 WebGL2 批量绘制图谱：所有连线和箭头合并为一次实例化绘制，所有节点合并为另一次
+ */
+export class GraphGLRenderer {
+  private readonly gl: WebGL2RenderingContext;
+  private readonly corners: WebGLBuffer;
+  private readonly nodes: InstancedProgram;
+  private readonly segments: InstancedProgram;
+  private width = 0;
+  private height = 0;
+
+  /**
+   * @throws 浏览器不支持 WebGL2 时抛出错误
+   */
+  constructor(canvas: HTMLCanvasElement) {
+    const gl = canvas.getContext("webgl2", {
+      antialias: false,
+      premultipliedAlpha: true,
+      preserveDrawingBuffer: true,
+    });
+    if (!gl) throw new Error("WebGL2 is not supported");
+    this.gl = gl;
+
+    // 单位四边形的四个角，按 TRIANGLE_STRIP 顺序排列
+    this.corners = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.corners);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+      gl.STATIC_DRAW,
+    );
+
+    this.nodes = this.createInstancedProgram(NODE_VERTEX, NODE_FRAGMENT, [
+      ["a_center", 2],
+      ["a_radius", 1],
+      ["a_fill", 4],
+      ["a_stroke", 4],
+      ["a_strokeWidth", 1],
+    ]);
+    this.segments = this.createInstancedProgram(
+      SEGMENT_VERTEX,
+      SEGMENT_FRAGMENT,
+      [
+        ["a_start", 2],
+        ["a_end", 2],
+        ["a_color0", 4],
+        ["a_color1", 4],
+        ["a_width", 2],
+        ["a_dashed", 1],
+      ],
+    );
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  /**
+   * 创建实例化绘制的程序：a_corner 逐顶点取自共享的单位四边形，其余属性逐实例步进
+   */
+  private createInstancedProgram(
+    vertexSource: string,
+    fragmentSource: string,
+    attributes: [string, number][],
+  ): InstancedProgram {
+    const { gl } = this;
+    const program = createProgram(gl, vertexSource, fragmentSource);
+    const vao = gl.createVertexArray()!;
+    gl.bindVertexArray(vao);
+
+    const cornerLocation = gl.getAttribLocation(program, "a_corner");
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.corners);
+    gl.enableVertexAttribArray(cornerLocation);
+    gl.vertexAttribPointer(cornerLocation, 2, gl.FLOAT, false, 0, 0);
+
+    const buffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    const stride = attributes.reduce((sum, [, size]) => sum + size, 0) * 4;
+    let offset = 0;
+    attributes.forEach(([name, size]) => {
+      const location = gl.getAttribLocation(program, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+      gl.vertexAttribDivisor(location, 1);
+      offset += size * 4;
+    });
+    gl.bindVertexArray(null);
+
+    return {
+      program,
+      vao,
+      buffer,
+      capacity: 0,
+      uniforms: Object.fromEntries(
+        ["u_resolution", "u_transform", "u_dashOffset"].map((name) => [
+          name,
+          gl.getUniformLocation(program, name),
+        ]),
+      ),
+    };
+  }
+
+  /**
+   * 调整绘图缓冲区大小
+   *
+   * @param width CSS 像素宽度
+   * @param height CSS 像素高度
+   * @param pixelRatio 设备像素比
+   */
+  resize(width: number, height: number, pixelRatio: number) {
+    const canvas = this.gl.canvas as HTMLCanvasElement;
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+    this.width = width;
+    this.height = height;
+    this.gl.viewport(0, 0, canvas.width, canvas.height);
+  }
+
+  private drawInstances(
+    target: InstancedProgram,
+    data: Float32Array,
+    count: number,
+    stride: number,
+    transform: ViewTransform,
+    dashOffset: number,
+  ) {
+    if (count === 0) return;
+    const { gl } = this;
+    gl.useProgram(target.program);
+    gl.uniform2f(target.uniforms.u_resolution, this.width, this.height);
+    gl.uniform3f(
+      target.uniforms.u_transform,
+      transform.k,
+      transform.x,
+      transform.y,
+    );
+    if (target.uniforms.u_dashOffset) {
+      gl.uniform1f(target.uniforms.u_dashOffset, dashOffset);
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, target.buffer);
+    const used = data.subarray(0, count * stride);
+    // 容量不足时重新分配，否则只更新已用部分
+    if (used.length > target.capacity) {
+      gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
+      target.capacity = data.length;
+    } else {
+      gl.bufferSubData(gl.ARRAY_BUFFER, 0, used);
+    }
+    gl.bindVertexArray(target.vao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+    gl.bindVertexArray(null);
+  }
+
+  /**
+   * 绘制一帧：先画全部线段，再画全部节点
+   *
+   * @param segments 线段实例数据，每个实例 SEGMENT_STRIDE 个浮点数
+   * @param segmentCount 线段数
+   * @param nodes 节点实例数据，每个实例 NODE_STRIDE 个浮点数
+   * @param nodeCount 节点数
+   * @param transform 视图变换
+   * @param dashOffset 虚线的偏移量，用于单向连线的流动动画
+   */
+  draw(
+    segments: Float32Array,
+    segmentCount: number,
+    nodes: Float32Array,
+    nodeCount: number,
+    transform: ViewTransform,
+    dashOffset: number,
+  ) {
+    const { gl } = this;
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    this.drawInstances(
+      this.segments,
+      segments,
+      segmentCount,
+      SEGMENT_STRIDE,
+      transform,
+      dashOffset,
+    );
+    this.drawInstances(
+      this.nodes,
+      nodes,
+      nodeCount,
+      NODE_STRIDE,
+      transform,
+      dashOffset,
+    );
+  }
+
+  /**
+   * 释放 GPU 资源。不主动丢弃上下文，同一画布重新挂载时仍可复用
+   */
+  dispose() {
+    const { gl } = this;
+    [this.nodes, this.segments].forEach((target) => {
+      gl.deleteBuffer(target.buffer);
+      gl.deleteVertexArray(target.vao);
+      gl.deleteProgram(target.program);
+    });
+    gl.deleteBuffer(this.corners);
+  }
+}
@@ -1,4 +1,18 @@
 import { CandleData } from "@/types/candlestick";
+import type { TokenInfo } from "@/types/token";
+
+/**
+ * 取代币对应的 K 线交易对，代币列表尚未加载时按 `${SYMBOL}-USDT` 推断
+ *
+ * @param tokens /api/tokens 返回的代币列表
+ * @param symbol 代币标签
+ */
+export function instIdFor(tokens: TokenInfo[], symbol: string): string {
+  return (
+    tokens.find((token) => token.symbol === symbol)?.instId ??
+    `${symbol.toUpperCase()}-USDT`
+  );
+}
 
 /**
  * 计算一组 K 线的振幅（最高价 vs 最低价）
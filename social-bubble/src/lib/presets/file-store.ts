@@ -0,0 +1,129 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { ApiErrorCode } from "@/types/api";
+import type { ViewPreset } from "@/types/preset";
+import type { PresetInputParams } from "@/lib/api/contracts";
+import { ApiError } from "@/lib/api/errors";
+import type { PresetStore } from "@/lib/presets/store";
+
+const storePath = () =>
+  process.env.PRESET_STORE_PATH ??
+  path.join(process.cwd(), "data", "presets.json");
+
+// 文件中的预设带有 owner，返回给调用方前去掉
+interface StoredPreset extends ViewPreset {
+  owner: string;
+}
+
+// 所有读写串行执行，避免并发请求互相覆盖
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task, task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+async function readPresets(): Promise<StoredPreset[]> {
+  try {
+    return JSON.parse(await fs.readFile(storePath(), "utf8"));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+/**
+ * 先写临时文件再重命名，保证进程中断时文件不会只写了一半
+ */
+async function writePresets(presets: StoredPreset[]) {
+  const filePath = storePath();
+  const tmpPath = `${filePath}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tmpPath, JSON.stringify(presets, null, 2));
+  await fs.rename(tmpPath, filePath);
+}
+
+const toPreset = (
+  owner: string,
+  id: string,
+  input: PresetInputParams,
+): StoredPreset => ({
+  owner,
+  id,
+  name: input.name,
+  token: input.token,
+  filter_followers: input.filter_followers,
+  ttl: input.ttl,
+  bubble_num: input.bubble_num,
+  add_user_list: input.add_user_list,
+  sub_user_list: input.sub_user_list,
+  updated: Date.now(),
+});
+
+const toView = ({ owner: _, ...preset }: StoredPreset): ViewPreset => preset;
+
+const notFound = (id: string) =>
+  new ApiError(ApiErrorCode.NotFound, `Preset ${id} not found`);
+
+/**
+ * 将所有 owner 的预设保存在同一个 PRESET_STORE_PATH（默认 data/presets.json）中
+ */
+export const filePresetStore: PresetStore = {
+  list: (owner) =>
+    serialized(async () =>
+      (await readPresets())
+        .filter((preset) => preset.owner === owner)
+        .map(toView),
+    ),
+
+  create: (owner, input) =>
+    serialized(async () => {
+      const preset = toPreset(owner, randomUUID(), input);
+      await writePresets([...(await readPresets()), preset]);
+      return toView(preset);
+    }),
+
+  update: (owner, id, input) =>
+    serialized(async () => {
+      const presets = await readPresets();
+      const index = presets.findIndex(
+        (preset) => preset.owner === owner && preset.id === id,
+      );
+      if (index < 0) throw notFound(id);
+      presets[index] = toPreset(owner, id, input);
+      await writePresets(presets);
+      return toView(presets[index]);
+    }),
+
+  remove: (owner, id) =>
+    serialized(async () => {
+      const presets = await readPresets();
+      const rest = presets.filter(
+        (preset) => preset.owner !== owner || preset.id !== id,
+      );
+      if (rest.length === presets.length) throw notFound(id);
+      await writePresets(rest);
+    }),
+
+  import: (owner, inputs) =>
+    serialized(async () => {
+      const presets = await readPresets();
+      const imported = inputs.map((input) => {
+        const existing = presets.find(
+          (preset) => preset.owner === owner && preset.name === input.name,
+        );
+        const preset = toPreset(owner, existing?.id ?? randomUUID(), input);
+        if (existing) {
+          presets[presets.indexOf(existing)] = preset;
+        } else {
+          presets.push(preset);
+        }
+        return toView(preset);
+      });
+      await writePresets(presets);
+      return imported;
+    }),
+};
@@ -0,0 +1,52 @@
+import { createHash } from "crypto";
+
+import type { ViewPreset } from "@/types/preset";
+import type { PresetInputParams } from "@/lib/api/contracts";
+import { filePresetStore } from "@/lib/presets/file-store";
+
+/**
+ * 预设的服务端存储，默认保存在本地 JSON 文件中，可替换为数据库实现；
+ * 每个方法只读写 owner 名下的预设，其他 owner 的预设视为不存在
+ */
+export interface PresetStore {
+  list(owner: string): Promise<ViewPreset[]>;
+  create(owner: string, input: PresetInputParams): Promise<ViewPreset>;
+  /**
+   * 更新指定预设，不存在时抛出 NotFound
+   */
+  update(
+    owner: string,
+    id: string,
+    input: PresetInputParams,
+  ): Promise<ViewPreset>;
+  /**
+   * 删除指定预设，不存在时抛出 NotFound
+   */
+  remove(owner: string, id: string): Promise<void>;
+  /**
+   * 批量导入，与已有预设同名时覆盖
+   */
+  import(owner: string, inputs: PresetInputParams[]): Promise<ViewPreset[]>;
+}
+
+let store: PresetStore = filePresetStore;
+
+/**
+ * 替换 /api/presets 使用的存储
+ */
+export function setPresetStore(next: PresetStore) {
+  store = next;
+}
+
+export function getPresetStore(): PresetStore {
+  return store;
+}
+
+/**
+ * 由 X-Preset-Key 得到预设的 owner；只保存密钥的摘要，存储文件泄露时无法据此读写他人的预设
+ *
+ * @param key 校验通过的同步密钥
+ */
+export function presetOwner(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
@@ -0,0 +1,73 @@
+import type { TokenInfo } from "@/types/token";
+import { LruCache } from "@/lib/cache";
+import { queryClickhouse, type ClickhouseQuery } from "@/lib/clickhouse/query";
+
+interface TokenRow {
+  symbol: string;
+  count: string | number;
+  first_seen: string | number;
+  last_seen: string | number;
+}
+
+const TOKENS_CACHE_KEY = "tokens";
+// 代币列表变化很慢，统计又需要扫描全表，缓存 10 分钟
+const TOKENS_TTL_MS = 10 * 60 * 1000;
+
+const tokensCache = new LruCache<TokenInfo[]>(1);
+
+/**
+ * 统计 user_graph_detail_score 中出现过的全部代币及其记录数、时间覆盖范围
+ */
+export function buildTokensSQL(): ClickhouseQuery {
+  return {
+    name: "tokens.list",
+    query: `
+SELECT
+  label        AS symbol,
+  count()      AS count,
+  min(created) AS first_seen,
+  max(created) AS last_seen
+FROM user_graph_detail_score
+WHERE label != ''
+GROUP BY label
+ORDER BY count DESC;
+`,
+    params: {},
+  };
+}
+
+/**
+ * 代币与 OKX 交易对的映射，默认 `${SYMBOL}-USDT`。
+ * 标签与交易对不一致时通过 TOKEN_INST_IDS 覆盖，例如 "WBTC:BTC-USDT,XBT:BTC-USDT"
+ *
+ * @param symbol 代币标签
+ */
+export function resolveInstId(symbol: string) {
+  const override = (process.env.TOKEN_INST_IDS ?? "")
+    .split(",")
+    .map((pair) => pair.split(":").map((part) => part.trim()))
+    .find(
+      ([label, instId]) =>
+        instId && label.toUpperCase() === symbol.toUpperCase(),
+    );
+  return override ? override[1] : `${symbol.toUpperCase()}-USDT`;
+}
+
+/**
+ * 返回全部可选代币，按记录数降序
+ */
+export async function getTokens(): Promise<TokenInfo[]> {
+  const cached = await tokensCache.get(TOKENS_CACHE_KEY);
+  if (cached) return cached;
+
+  const rows = await queryClickhouse<TokenRow>(buildTokensSQL());
+  const tokens = rows.map((row) => ({
+    symbol: row.symbol,
+    instId: resolveInstId(row.symbol),
+    count: Number(row.count),
+    first_seen: Number(row.first_seen),
+    last_seen: Number(row.last_seen),
+  }));
+  await tokensCache.set(TOKENS_CACHE_KEY, tokens, TOKENS_TTL_MS);
+  return tokens;
+}
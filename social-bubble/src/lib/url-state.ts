@@ -0,0 +1,147 @@
+import type { TokenSymbol } from "@/types/graph";
+import {
+  BUBBLE_NUM_RANGE,
+  INTERACTION_TYPES,
+  TTL_RANGE,
+  type InteractionType,
+} from "@/lib/api/contracts";
+
+/**
+ * 可通过链接分享的视图状态，字段均可缺省，缺省时保留当前值
+ */
+export interface UrlViewState {
+  token?: TokenSymbol;
+  filterTime?: number; // 毫秒时间戳
+  filterFollowers?: number;
+  ttl?: number; // 天数
+  bubbleNum?: number;
+  topRatio?: number; // 0～1
+  volatility?: number; // 手动指定的波动率（-1 ~ 1），按 K 线推算时不输出
+  linkWeights?: Partial<Record<InteractionType, number>>; // 各互动类型的权重（0～1）
+  selectedKolId?: string | null;
+  targetKolId?: string | null;
+  interestedKolIds?: string[];
+  excludedKolIds?: string[];
+}
+
+// 查询参数名尽量简短，便于复制粘贴
+const PARAM = {
+  token: "token",
+  filterTime: "t",
+  filterFollowers: "followers",
+  ttl: "ttl",
+  bubbleNum: "bubbles",
+  topRatio: "top",
+  volatility: "vol",
+  linkWeights: "w",
+  selectedKolId: "kol",
+  targetKolId: "target",
+  interestedKolIds: "add",
+  excludedKolIds: "sub",
+} as const;
+
+const ID_PATTERN = /^\d{1,19}$/;
+
+const parseNumber = (value: string | null) => {
+  if (value === null || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+};
+
+// 超出 [min, max] 的值视为不合法
+const parseDecimal = (value: string | null, min: number, max: number) => {
+  if (value === null || !/^-?\d+(\.\d+)?$/.test(value)) return undefined;
+  const number = Number(value);
+  return number >= min && number <= max ? number : undefined;
+};
+
+const parseInteger = (value: string | null, [min, max]: readonly number[]) => {
+  const number = parseNumber(value);
+  return number !== undefined && number >= min && number <= max
+    ? number
+    : undefined;
+};
+
+// 形如 comment:0.6,follow:0.1，忽略未知的互动类型和不合法的权重
+const parseWeights = (value: string | null) => {
+  if (value === null) return undefined;
+  const weights: Partial<Record<InteractionType, number>> = {};
+  value.split(",").forEach((entry) => {
+    const [type, weight] = entry.split(":");
+    const parsed = parseDecimal(weight ?? null, 0, 1);
+    if (
+      INTERACTION_TYPES.includes(type as InteractionType) &&
+      parsed !== undefined
+    ) {
+      weights[type as InteractionType] = parsed;
+    }
+  });
+  return Object.keys(weights).length ? weights : undefined;
+};
+
+const parseId = (value: string | null) =>
+  value !== null && ID_PATTERN.test(value) ? value : undefined;
+
+const parseIdList = (value: string | null) =>
+  value === null
+    ? undefined
+    : value.split(",").filter((id) => ID_PATTERN.test(id));
+
+/**
+ * 从查询字符串中解析视图状态，忽略格式不合法的参数
+ *
+ * @param search location.search
+ */
+export function parseViewState(search: string): UrlViewState {
+  const params = new URLSearchParams(search);
+  const state: UrlViewState = {
+    token: params.get(PARAM.token)?.trim() || undefined,
+    filterTime: parseNumber(params.get(PARAM.filterTime)),
+    filterFollowers: parseNumber(params.get(PARAM.filterFollowers)),
+    ttl: parseInteger(params.get(PARAM.ttl), TTL_RANGE),
+    bubbleNum: parseInteger(params.get(PARAM.bubbleNum), BUBBLE_NUM_RANGE),
+    topRatio: parseDecimal(params.get(PARAM.topRatio), 0, 1),
+    volatility: parseDecimal(params.get(PARAM.volatility), -1, 1),
+    linkWeights: parseWeights(params.get(PARAM.linkWeights)),
+    selectedKolId: parseId(params.get(PARAM.selectedKolId)),
+    targetKolId: parseId(params.get(PARAM.targetKolId)),
+    interestedKolIds: parseIdList(params.get(PARAM.interestedKolIds)),
+    excludedKolIds: parseIdList(params.get(PARAM.excludedKolIds)),
+  };
+  return Object.fromEntries(
+    Object.entries(state).filter(([, value]) => value !== undefined),
+  ) as UrlViewState;
+}
+
+/**
+ * 将视图状态序列化为查询字符串，空值不输出
+ *
+ * @param state 视图状态
+ */
+export function serializeViewState(state: UrlViewState): string {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | null | undefined) => {
+    if (value !== null && value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  };
+  set(PARAM.token, state.token);
+  set(PARAM.filterTime, state.filterTime || null);
+  set(PARAM.filterFollowers, state.filterFollowers);
+  set(PARAM.ttl, state.ttl);
+  set(PARAM.bubbleNum, state.bubbleNum);
+  set(PARAM.topRatio, state.topRatio);
+  set(PARAM.volatility, state.volatility);
+  set(
+    PARAM.linkWeights,
+    state.linkWeights &&
+      Object.entries(state.linkWeights)
+        .map(([type, weight]) => `${type}:${weight}`)
+        .join(","),
+  );
+  set(PARAM.selectedKolId, state.selectedKolId);
+  set(PARAM.targetKolId, state.selectedKolId ? state.targetKolId : null);
+  set(PARAM.interestedKolIds, state.interestedKolIds?.join(","));
+  set(PARAM.excludedKolIds, state.excludedKolIds?.join(","));
+  // 逗号和冒号无需转义，保持链接可读
+  return params.toString().replace(/%2C/g, ",").replace(/%3A/g, ":");
+}
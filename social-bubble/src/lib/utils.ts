@@ -1,7 +1,13 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 
-import { RGBColor } from "@/types/graph";
+import {
+  CentralityMetric,
+  NodeSizeBy,
+  RGBColor,
+  SamplingBucket,
+} from "@/types/graph";
+import type { SimpleKOL } from "@/types/kol";
 
 /**
  * 合并类名
@@ -102,3 +108,100 @@ export function score2color(score: number, opacity: number) {
 
   return { strokeColor, fillColor };
 }
+
+// 社区配色，超出数量后循环使用
+const COMMUNITY_PALETTE = [
+  "#60a5fa",
+  "#f59e0b",
+  "#a78bfa",
+  "#34d399",
+  "#f472b6",
+  "#22d3ee",
+  "#fb923c",
+  "#a3e635",
+  "#e879f9",
+  "#facc15",
+];
+
+/**
+ * 根据社区编号映射颜色，不属于任何社区时为灰色
+ *
+ * @param community 社区编号，-1 表示不属于任何社区
+ * @param opacity 透明度，范围 0 到 1，1 表示完全不透明
+ * @returns 颜色对象，包含 fillColor 和 strokeColor
+ */
+export function community2color(community: number, opacity: number) {
+  const strokeColor =
+    community < 0
+      ? "#9ca3af"
+      : COMMUNITY_PALETTE[community % COMMUNITY_PALETTE.length];
+  const c = parseColor(strokeColor);
+  const fillColor = `rgba(${c.r},${c.g},${c.b},${opacity})`;
+
+  return { strokeColor, fillColor };
+}
+
+export const CENTRALITY_LABELS: Record<CentralityMetric, string> = {
+  pagerank: "PageRank",
+  in_degree: "In-degree",
+  out_degree: "Out-degree",
+  betweenness: "Betweenness",
+  eigenvector: "Eigenvector",
+};
+
+// 采样来源的名称、说明与图例颜色
+export const SAMPLING_BUCKET_LABELS: Record<
+  SamplingBucket,
+  { label: string; description: string; color: string }
+> = {
+  top: {
+    label: "Top followers",
+    description: "Most followed KOLs in the window",
+    color: "#3b82f6",
+  },
+  positive: {
+    label: "Bullish",
+    description: "Most followed of the rest with positive sentiment",
+    color: "#10b981",
+  },
+  negative: {
+    label: "Bearish",
+    description: "Most followed of the rest with negative sentiment",
+    color: "#ef4444",
+  },
+  added: {
+    label: "Added",
+    description: "Manually added KOLs",
+    color: "#a855f7",
+  },
+};
+
+/**
+ * 格式化中心性指标：加权度为互动强度之和，其余为 0 ~ 1 的比例
+ *
+ * @param metric 指标
+ * @param value 指标值
+ * @returns 格式化后的字符串
+ */
+export function formatCentrality(metric: CentralityMetric, value: number) {
+  if (metric === "in_degree" || metric === "out_degree") {
+    return formatDigital(value, 0);
+  }
+  return value.toFixed(3);
+}
+
+/**
+ * 按粉丝数或中心性指标排列 KOL 列表；按粉丝数时保持原顺序，指标相同时粉丝多的在前
+ *
+ * @param kols 按粉丝数降序的 KOL 列表
+ * @param sortBy 排序依据
+ * @returns 排序后的新数组，按粉丝数时返回原数组
+ */
+export function sortKols(kols: SimpleKOL[], sortBy: NodeSizeBy) {
+  if (sortBy === "followers") return kols;
+  return [...kols].sort(
+    (a, b) =>
+      (b.centrality?.[sortBy] ?? 0) - (a.centrality?.[sortBy] ?? 0) ||
+      b.followers - a.followers,
+  );
+}
@@ -1,46 +1,161 @@
 import { create } from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
 
-import { TokenSymbol } from "@/types/graph";
+import {
+  GraphPath,
+  GraphRenderer,
+  NodeColorBy,
+  NodeSizeBy,
+  TimeGranularity,
+  TokenSymbol,
+  VolatilityMode,
+} from "@/types/graph";
 import { SimpleKOL } from "@/types/kol";
+import type { ViewPreset } from "@/types/preset";
+import type { DataCoverage, TokenInfo } from "@/types/token";
+import {
+  DEFAULT_BUBBLE_NUM,
+  DEFAULT_INTERACTION_TYPES,
+  DEFAULT_INTERACTION_WEIGHTS,
+  DEFAULT_MIN_LINK_STRENGTH,
+  DEFAULT_TOP_RATIO,
+  DEFAULT_TTL,
+  type EgoDepth,
+  type GraphRequest,
+  type InteractionType,
+  type RankBy,
+} from "@/lib/api/contracts";
 
-interface KolState {
+/**
+ * 生成预设同步密钥；不使用 crypto.randomUUID，非 HTTPS 页面中同样可用
+ */
+const newPresetKey = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+
+export interface KolState {
   hydrated: boolean;
   setHydrated: (h: boolean) => void;
 
   needRefresh: boolean;
+  tokens: TokenInfo[]; // 可选代币
   selectedTokenSymbol: TokenSymbol;
+  coverage: DataCoverage | null; // 当前代币的数据时间范围
   selectedKol: SimpleKOL | null;
   targetKol: SimpleKOL | null;
   targetHoveredKol: SimpleKOL | null;
   filterFollowers: number;
-  filterTime: number;
+  filterTime: number; // 参考时间，毫秒时间戳；0 表示尚未选择
+  ttl: number; // 时间窗口，天数
+  bubbleNum: number; // 总节点数
+  topRatio: number; // Top 样本比例（0～1）
+  volatilityMode: VolatilityMode;
+  manualVolatility: number; // 手动指定的波动率（-1 ~ 1）
+  derivedVolatility: number | null; // 最近一次由日线推算的波动率，取不到 K 线时为 null
   filterChanged: boolean;
   leftCardsOpen: boolean;
   candlestickChartOpen: boolean;
   showLess: boolean;
+  nodeColorBy: NodeColorBy;
+  nodeSizeBy: NodeSizeBy;
+  kolListSortBy: NodeSizeBy; // KOL 列表的排序依据，导出 CSV 时沿用
+  graphRenderer: GraphRenderer;
+  pinnedLayouts: Record<TokenSymbol, Record<string, [number, number]>>; // 按代币固定的节点坐标
+
+  // 时间轴播放
+  timeGranularity: TimeGranularity;
+  timeRange: [number, number]; // 时间轴可选范围，毫秒时间戳
+  isPlaying: boolean;
+  playbackSpeed: number; // 播放倍速
+  playbackLoop: boolean;
+
+  // 连线计算参数
+  linkWeights: Record<InteractionType, number>;
+  interactionTypes: InteractionType[];
+  minLinkStrength: number;
+  rankBy: RankBy; // Top KOL 排序依据
 
   // 用户关注或屏蔽的 KOL ID
   interestedKolIds: string[];
   excludedKolIds: string[];
 
+  // 邻域图（ego）模式：依次下钻的中心 KOL，为空时展示全局图
+  egoTrail: SimpleKOL[];
+  egoDepth: EgoDepth;
+
+  // 选中 KOL 与另一 KOL 之间的影响路径及当前高亮的路径序号
+  influencePath: GraphPath | null;
+  activePathIndex: number;
+
+  // 筛选预设
+  presets: ViewPreset[];
+  activePresetId: string | null;
+  presetKey: string; // 随 X-Preset-Key 发送，在其他机器上填入同一密钥即可同步预设
+
   // Setters
   setNeedRefresh: (needRefresh: boolean) => void;
+  setTokens: (tokens: TokenInfo[]) => void;
   setSelectedTokenSymbol: (token: TokenSymbol) => void;
+  setCoverage: (coverage: DataCoverage | null) => void;
   setSelectedKol: (kol: SimpleKOL | null) => void;
   setTargetKol: (kol: SimpleKOL | null) => void;
   setTargetHoveredKol: (kol: SimpleKOL | null) => void;
   setFilterFollowers: (followers: number) => void;
   setFilterTime: (time: number) => void;
+  setTtl: (ttl: number) => void;
+  setBubbleNum: (bubbleNum: number) => void;
+  setTopRatio: (topRatio: number) => void;
+  setVolatilityMode: (mode: VolatilityMode) => void;
+  setManualVolatility: (volatility: number) => void;
+  setDerivedVolatility: (volatility: number | null) => void;
   setFilterChanged: (changed: boolean) => void;
   setLeftCardsOpen: (open: boolean) => void;
   setCandlestickChartOpen: (open: boolean) => void;
   setShowLess: (showLess: boolean) => void;
+  setNodeColorBy: (colorBy: NodeColorBy) => void;
+  setNodeSizeBy: (sizeBy: NodeSizeBy) => void;
+  setKolListSortBy: (sortBy: NodeSizeBy) => void;
+  setGraphRenderer: (renderer: GraphRenderer) => void;
+  pinLayout: (
+    token: TokenSymbol,
+    positions: Record<string, [number, number]>,
+  ) => void;
+  unpinLayout: (token: TokenSymbol) => void;
+  pinNodePosition: (
+    token: TokenSymbol,
+    kolId: string,
+    position: [number, number],
+  ) => void;
+  setTimeGranularity: (granularity: TimeGranularity) => void;
+  setTimeRange: (range: [number, number]) => void;
+  setIsPlaying: (playing: boolean) => void;
+  setPlaybackSpeed: (speed: number) => void;
+  setPlaybackLoop: (loop: boolean) => void;
+  setLinkWeight: (type: InteractionType, weight: number) => void;
+  toggleInteractionType: (type: InteractionType) => void;
+  setMinLinkStrength: (strength: number) => void;
+  resetLinkSettings: () => void;
+  setRankBy: (rankBy: RankBy) => void;
 
   addInterestedKolId: (kolId: string) => void;
   removeInterestedKolId: (kolId: string) => void;
   addExcludedKolId: (kolId: string) => void;
   removeExcludedKolId: (kolId: string) => void;
+  setInterestedKolIds: (kolIds: string[]) => void;
+  setExcludedKolIds: (kolIds: string[]) => void;
+
+  enterEgo: (kol: SimpleKOL) => void;
+  setEgoTrail: (trail: SimpleKOL[]) => void;
+  setEgoDepth: (depth: EgoDepth) => void;
+
+  setInfluencePath: (path: GraphPath | null) => void;
+  setActivePathIndex: (index: number) => void;
+
+  setPresets: (presets: ViewPreset[]) => void;
+  setActivePresetId: (id: string | null) => void;
+  applyPreset: (preset: ViewPreset) => void;
+  setPresetKey: (key: string) => void;
 }
 
 export const useKolStore = create<KolState>()(
@@ -49,33 +164,136 @@ export const useKolStore = create<KolState>()(
       hydrated: false,
       setHydrated: (h: boolean) => set({ hydrated: h }),
       needRefresh: false,
+      tokens: [],
       selectedTokenSymbol: "BTC",
+      coverage: null,
       selectedKol: null,
       targetKol: null,
       targetHoveredKol: null,
       filterFollowers: 1000,
-      // filterTime: Date.now(),
-      filterTime: 1743544033000, // 离线数据最大时间戳
+      // 由 useDataCoverage 根据数据时间范围设置
+      filterTime: 0,
+      ttl: DEFAULT_TTL,
+      bubbleNum: DEFAULT_BUBBLE_NUM,
+      topRatio: DEFAULT_TOP_RATIO,
+      volatilityMode: "candles",
+      manualVolatility: 0,
+      derivedVolatility: null,
       filterChanged: false,
       leftCardsOpen: true,
       candlestickChartOpen: false,
       showLess: true,
+      nodeColorBy: "sentiment",
+      nodeSizeBy: "followers",
+      kolListSortBy: "followers",
+      graphRenderer: "canvas",
+      pinnedLayouts: {},
+
+      timeGranularity: "day",
+      timeRange: [0, 0],
+      isPlaying: false,
+      playbackSpeed: 1,
+      playbackLoop: false,
+
+      linkWeights: DEFAULT_INTERACTION_WEIGHTS,
+      interactionTypes: DEFAULT_INTERACTION_TYPES,
+      minLinkStrength: DEFAULT_MIN_LINK_STRENGTH,
+      rankBy: "followers",
 
       interestedKolIds: [],
       excludedKolIds: [],
 
+      egoTrail: [],
+      egoDepth: 1,
+
+      influencePath: null,
+      activePathIndex: 0,
+
+      presets: [],
+      activePresetId: null,
+      presetKey: newPresetKey(),
+
       setNeedRefresh: (needRefresh: boolean) =>
         set({ needRefresh: needRefresh }),
-      setSelectedTokenSymbol: (token) => set({ selectedTokenSymbol: token }),
-      setSelectedKol: (kol) => set({ selectedKol: kol, targetKol: null }),
+      setTokens: (tokens) => set({ tokens }),
+      setSelectedTokenSymbol: (token) =>
+        set({ selectedTokenSymbol: token, influencePath: null }),
+      setCoverage: (coverage) => set({ coverage }),
+      setSelectedKol: (kol) =>
+        set((state) => ({
+          selectedKol: kol,
+          targetKol: null,
+          // 影响路径以选中的 KOL 为起点，切换起点后清除
+          influencePath:
+            state.influencePath?.source === kol?.id
+              ? state.influencePath
+              : null,
+        })),
       setTargetKol: (kol) => set({ targetKol: kol }),
       setTargetHoveredKol: (kol) => set({ targetHoveredKol: kol }),
       setFilterFollowers: (followers) => set({ filterFollowers: followers }),
       setFilterTime: (time) => set({ filterTime: time }),
+      setTtl: (ttl) => set({ ttl }),
+      setBubbleNum: (bubbleNum) => set({ bubbleNum }),
+      setTopRatio: (topRatio) => set({ topRatio }),
+      setVolatilityMode: (mode) => set({ volatilityMode: mode }),
+      setManualVolatility: (volatility) =>
+        set({ manualVolatility: volatility }),
+      setDerivedVolatility: (volatility) =>
+        set({ derivedVolatility: volatility }),
       setFilterChanged: (changed) => set({ filterChanged: changed }),
       setLeftCardsOpen: (open) => set({ leftCardsOpen: open }),
       setCandlestickChartOpen: (open) => set({ candlestickChartOpen: open }),
       setShowLess: (showLess) => set({ showLess: showLess }),
+      setNodeColorBy: (colorBy) => set({ nodeColorBy: colorBy }),
+      setNodeSizeBy: (sizeBy) => set({ nodeSizeBy: sizeBy }),
+      setKolListSortBy: (sortBy) => set({ kolListSortBy: sortBy }),
+      setGraphRenderer: (renderer) => set({ graphRenderer: renderer }),
+      pinLayout: (token, positions) =>
+        set((state) => ({
+          pinnedLayouts: { ...state.pinnedLayouts, [token]: positions },
+        })),
+      unpinLayout: (token) =>
+        set((state) => {
+          const { [token]: _, ...rest } = state.pinnedLayouts;
+          return { pinnedLayouts: rest };
+        }),
+      // 只更新已固定布局中的坐标，未固定时不做处理
+      pinNodePosition: (token, kolId, position) =>
+        set((state) => {
+          const layout = state.pinnedLayouts[token];
+          if (!layout) return {};
+          return {
+            pinnedLayouts: {
+              ...state.pinnedLayouts,
+              [token]: { ...layout, [kolId]: position },
+            },
+          };
+        }),
+      setTimeGranularity: (granularity) =>
+        set({ timeGranularity: granularity }),
+      setTimeRange: (range) => set({ timeRange: range }),
+      setIsPlaying: (playing) => set({ isPlaying: playing }),
+      setPlaybackSpeed: (speed) => set({ playbackSpeed: speed }),
+      setPlaybackLoop: (loop) => set({ playbackLoop: loop }),
+      setLinkWeight: (type, weight) =>
+        set((state) => ({
+          linkWeights: { ...state.linkWeights, [type]: weight },
+        })),
+      toggleInteractionType: (type) =>
+        set((state) => ({
+          interactionTypes: state.interactionTypes.includes(type)
+            ? state.interactionTypes.filter((item) => item !== type)
+            : [...state.interactionTypes, type],
+        })),
+      setMinLinkStrength: (strength) => set({ minLinkStrength: strength }),
+      resetLinkSettings: () =>
+        set({
+          linkWeights: DEFAULT_INTERACTION_WEIGHTS,
+          interactionTypes: DEFAULT_INTERACTION_TYPES,
+          minLinkStrength: DEFAULT_MIN_LINK_STRENGTH,
+        }),
+      setRankBy: (rankBy) => set({ rankBy }),
 
       addInterestedKolId: (kolId) =>
         set((state) => ({
@@ -99,6 +317,53 @@ export const useKolStore = create<KolState>()(
         set((state) => ({
           excludedKolIds: state.excludedKolIds.filter((id) => id !== kolId),
         })),
+      setInterestedKolIds: (kolIds) =>
+        set((state) => ({
+          interestedKolIds: kolIds,
+          excludedKolIds: state.excludedKolIds.filter(
+            (id) => !kolIds.includes(id),
+          ),
+        })),
+      setExcludedKolIds: (kolIds) =>
+        set((state) => ({
+          excludedKolIds: kolIds,
+          interestedKolIds: state.interestedKolIds.filter(
+            (id) => !kolIds.includes(id),
+          ),
+        })),
+
+      enterEgo: (kol) =>
+        set((state) =>
+          state.egoTrail[state.egoTrail.length - 1]?.id === kol.id
+            ? {}
+            : { egoTrail: [...state.egoTrail, kol], needRefresh: true },
+        ),
+      setEgoTrail: (trail) => set({ egoTrail: trail, needRefresh: true }),
+      setEgoDepth: (depth) => set({ egoDepth: depth, needRefresh: true }),
+
+      setInfluencePath: (path) =>
+        set({ influencePath: path, activePathIndex: 0 }),
+      setActivePathIndex: (index) => set({ activePathIndex: index }),
+
+      setPresets: (presets) => set({ presets }),
+      setActivePresetId: (id) => set({ activePresetId: id }),
+      // 切换预设时保留当前参考时间，由 useDataCoverage 按新代币的数据范围校正
+      applyPreset: (preset) =>
+        set({
+          activePresetId: preset.id,
+          selectedTokenSymbol: preset.token,
+          filterFollowers: preset.filter_followers,
+          ttl: preset.ttl,
+          bubbleNum: preset.bubble_num,
+          interestedKolIds: preset.add_user_list,
+          excludedKolIds: preset.sub_user_list,
+          selectedKol: null,
+          targetKol: null,
+          influencePath: null,
+        }),
+      // 换成另一个密钥后原有预设不再可见，由 PresetMenu 重新拉取
+      setPresetKey: (key) =>
+        set({ presetKey: key, presets: [], activePresetId: null }),
     }),
     {
       name: "kol-storage",
@@ -106,6 +371,9 @@ export const useKolStore = create<KolState>()(
       partialize: (state) => ({
         interestedKolIds: state.interestedKolIds,
         excludedKolIds: state.excludedKolIds,
+        graphRenderer: state.graphRenderer,
+        pinnedLayouts: state.pinnedLayouts,
+        presetKey: state.presetKey,
       }),
       onRehydrateStorage: (api) => () => {
         api.setHydrated(true);
@@ -113,3 +381,27 @@ export const useKolStore = create<KolState>()(
     },
   ),
 );
+
+/**
+ * 从同一份状态快照中取出 /api/graph 与 /api/graph/timeline 共用的筛选参数；
+ * volatility 按模式取手动值或最近一次推算值，需要最新日线时由调用方覆盖
+ */
+export const selectGraphFilters = (
+  state: KolState,
+): Omit<GraphRequest, "filter_time"> => ({
+  token: state.selectedTokenSymbol,
+  filter_followers: state.filterFollowers,
+  add_user_list: state.interestedKolIds,
+  sub_user_list: state.excludedKolIds,
+  ttl: state.ttl,
+  bubble_num: state.bubbleNum,
+  top_ratio: state.topRatio,
+  volatility:
+    state.volatilityMode === "manual"
+      ? state.manualVolatility
+      : state.derivedVolatility,
+  weights: state.linkWeights,
+  interaction_types: state.interactionTypes,
+  min_link_strength: state.minLinkStrength,
+  rank_by: state.rankBy,
+});
@@ -0,0 +1,21 @@
+// 某个滞后天数下的相关系数
+export interface LagCorrelation {
+  lag: number; // 正数表示情绪领先价格的天数，负数表示滞后
+  correlation: number; // 皮尔逊相关系数，-1 ~ 1
+  samples: number; // 参与计算的配对天数
+}
+
+// 单个 KOL 的情绪与价格涨跌的领先滞后关系
+export interface LeadLagResult {
+  user_id: string;
+  active_days: number; // 窗口内有评论的天数
+  best: LagCorrelation | null; // 相关系数绝对值最大的滞后，样本不足时为 null
+  correlations: LagCorrelation[]; // 按 lag 升序，样本不足的滞后不返回
+}
+
+export interface LeadLagReport {
+  token: string;
+  inst_id: string; // 价格所用的交易对
+  price_days: number; // 窗口内有日收益率的天数
+  results: LeadLagResult[]; // 按 best 的相关系数绝对值降序，没有结果的排在最后
+}
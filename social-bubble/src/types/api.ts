@@ -0,0 +1,32 @@
+/**
+ * 接口错误码，code 为 0 表示成功
+ */
+export enum ApiErrorCode {
+  Unknown = -1, // 未分类的服务端错误
+  Validation = 1001, // 请求参数不合法
+  NotFound = 1004, // 请求的资源不存在
+  Timeout = 2001, // 上游或网络超时
+  UpstreamClickhouse = 3001, // ClickHouse 查询失败或不可用
+  UpstreamOkx = 3002, // OKX 行情接口失败或不可用
+}
+
+/**
+ * 字段级校验错误
+ */
+export interface FieldError {
+  field: string; // 字段路径，例如 "add_user_list.0"
+  message: string;
+}
+
+export interface ApiSuccess<T> {
+  code: 0;
+  data: T;
+}
+
+export interface ApiFailure {
+  code: ApiErrorCode;
+  message: string;
+  errors?: FieldError[];
+}
+
+export type ApiResponse<T> = ApiSuccess<T> | ApiFailure;
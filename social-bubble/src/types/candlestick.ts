@@ -1,12 +1,8 @@
 import { UTCTimestamp } from "lightweight-charts";
 
-export interface CandleRequestParams {
-  instId: string; // 产品ID，例如 "BTC-USDT"
-  bar?: string; // 粒度，例如 "1m", "5m", "1H", "1Dutc"
-  after?: string; // 请求早于某时间戳的数据
-  before?: string; // 请求晚于某时间戳的数据
-  limit?: string; // 返回数量，默认 100，最大 300；如果请求的历史数据接口，最大 100
-}
+import type { CandleRequest } from "@/lib/api/contracts";
+
+export type CandleRequestParams = CandleRequest;
 
 export interface CandleData {
   time: UTCTimestamp; // 开始时间，Unix 毫秒时间戳
@@ -1,13 +1,44 @@
 import { SimulationLinkDatum, SimulationNodeDatum } from "d3";
-import {
-  ForceGraphMethods,
-  LinkObject,
-  NodeObject,
-} from "react-force-graph-2d";
 
 import { Tweet } from "@/types/tweet";
+import type {
+  GraphRequestParams,
+  TweetRequestParams,
+} from "@/lib/api/contracts";
 
-export type TokenSymbol = "BTC" | "ETH" | "SOL";
+// 代币标签，可选值由 /api/tokens 动态提供
+export type TokenSymbol = string;
+
+// 基于有向连线计算的中心性指标
+export interface NodeCentrality {
+  pagerank: number; // 加权 PageRank，全部节点之和为 1
+  in_degree: number; // 收到的互动强度之和
+  out_degree: number; // 发出的互动强度之和
+  betweenness: number; // 介数中心性，0 ~ 1
+  eigenvector: number; // 特征向量中心性，按最大值归一化到 0 ~ 1
+}
+
+export type CentralityMetric = keyof NodeCentrality;
+
+// 节点大小依据：粉丝占比或某项中心性占比
+export type NodeSizeBy = "followers" | CentralityMetric;
+
+// 节点的采样来源，对应 buildGraphNodesSQL 中的各部分
+export type SamplingBucket = "top" | "positive" | "negative" | "added";
+
+// 某个采样来源的配额与实际入选数，候选不足时 count 小于 quota
+export interface SamplingBucketCount {
+  quota: number;
+  count: number;
+}
+
+// 一次采样的明细，用于解释图中为何出现或缺少某个 KOL
+export interface SamplingSummary {
+  buckets: Record<SamplingBucket, SamplingBucketCount>;
+  filter_followers: number; // 候选需满足的最小粉丝数
+  excluded: number; // 手动排除的 KOL 数
+  volatility: number; // 实际使用的波动率，决定正负情绪的配额
+}
 
 export interface GraphNode extends SimulationNodeDatum {
   id: string;
@@ -17,7 +48,11 @@ export interface GraphNode extends SimulationNodeDatum {
   score_metrics: number;
   opacity: number;
   percentage: number;
-  isTop: boolean;
+  rank: number; // 按 rank_by 排序后的名次，从 1 开始
+  isTop: boolean; // 名次位于前 top_ratio 之内
+  community: number; // 社区编号，按成员数降序从 0 开始，-1 表示不属于任何社区
+  centrality: NodeCentrality;
+  bucket?: SamplingBucket; // 采样来源，邻域图和路径中的节点没有
   fx?: number;
   fy?: number;
 }
@@ -29,6 +64,17 @@ export interface GraphLink extends SimulationLinkDatum<GraphNode> {
   target2source_score: number;
 }
 
+// ClickHouse 以字符串返回 64 位整数
+export interface GraphNodeRaw {
+  author_id: string;
+  username: string;
+  name: string;
+  followers: number | string;
+  score_metrics: number;
+  opacity: number;
+  bucket?: SamplingBucket;
+}
+
 export interface GraphLinkRaw {
   source_id: string;
   target_id: string;
@@ -39,6 +85,55 @@ export interface GraphLinkRaw {
 export interface GraphData {
   nodes: GraphNode[];
   links: GraphLink[];
+  sampling?: SamplingSummary; // 仅 /api/graph 返回
+}
+
+// 以某个 KOL 为中心展开的邻域图
+export interface GraphEgo extends GraphData {
+  center: string; // 中心 KOL 的 ID
+}
+
+// 两个 KOL 之间的一条影响路径
+export interface InfluencePath {
+  node_ids: string[]; // 从起点到终点依次经过的 KOL ID
+  cost: number; // 各跳代价之和，越小表示联系越紧密
+  strength: number; // 路径上最弱一跳的互动强度（双向情绪分绝对值之和）
+}
+
+// 两个 KOL 之间按代价升序的备选路径，nodes / links 为路径经过的节点和连线
+export interface GraphPath extends GraphData {
+  source: string;
+  target: string;
+  paths: InfluencePath[]; // 为空表示在 max_hops 之内不连通
+}
+
+// 节点着色依据
+export type NodeColorBy = "sentiment" | "community";
+
+// 正负情绪采样比例的来源：按参考时间的日线涨跌幅推算，或手动指定
+export type VolatilityMode = "candles" | "manual";
+
+// 时间序列的快照间隔
+export type TimelineStep = "day" | "week" | "month" | "year";
+
+// 时间轴的粒度，同时决定播放时每帧前进的步长
+export type TimeGranularity = Extract<TimelineStep, "day" | "month" | "year">;
+
+// 时间序列中随时间变化的节点属性
+export type GraphNodeState = Pick<
+  GraphNode,
+  "id" | "score_metrics" | "opacity"
+>;
+
+export interface GraphTimelineFrame {
+  time: number; // 快照参考时间，毫秒时间戳
+  nodes: GraphNodeState[]; // 与 GraphTimeline.nodes 一一对应
+  links: GraphLink[];
+}
+
+export interface GraphTimeline {
+  nodes: GraphNode[]; // 整个区间内稳定的节点集合
+  frames: GraphTimelineFrame[];
 }
 
 export enum TargetObjectType {
@@ -48,15 +143,43 @@ export enum TargetObjectType {
 }
 
 export enum ActiveType {
+  Comment = "comment", // 评论
   Retweeted = "retweeted", // 转发
   Quoted = "quoted", // 引用
   Liked = "liked", // 点赞
+  Follow = "follow", // 关注
 }
 
-export type ForceGraphHandle = ForceGraphMethods<
-  NodeObject<GraphNode>,
-  LinkObject<GraphNode, GraphLink>
->;
+// 图谱渲染方式：Canvas 2D 逐个绘制，或 WebGL 批量绘制以支撑大规模图谱
+export type GraphRenderer = "canvas" | "webgl";
+
+// 节点的绘制样式
+export interface NodeStyle {
+  fillColor: string;
+  strokeColor: string;
+  lineWidth: number;
+}
+
+// 图谱当前视图的快照，用于导出图片
+export interface GraphScene {
+  width: number; // 画布尺寸（CSS 像素）
+  height: number;
+  transform: { k: number; x: number; y: number }; // 屏幕坐标 = 图谱坐标 * k + (x, y)
+  nodes: GraphNode[];
+  links: GraphLink[];
+  showHulls: boolean; // 按社区着色时绘制社区轮廓
+  radiusOf: (node: GraphNode) => number;
+  styleOf: (node: GraphNode) => NodeStyle;
+  isLabelled: (node: GraphNode) => boolean; // 被选中或位于高亮路径上，总是显示名称
+  isPathLink: (link: GraphLink) => boolean;
+}
+
+// 图谱渲染器对外暴露的视图控制方法，Canvas 与 WebGL 渲染器均实现
+export interface ForceGraphHandle {
+  zoom(scale?: number, durationMs?: number): number; // 不传 scale 时只读取当前缩放比例
+  centerAt(x: number, y: number, durationMs?: number): void;
+  getScene(): GraphScene | null; // 画布尚未就绪时返回 null
+}
 
 export type KolTweet = Pick<
   Tweet,
@@ -79,31 +202,14 @@ export type KolTweetRaw = {
   tweets: KolTweet[];
 };
 
-export interface ForceGraphParams {
-  token: string;
-  filter_time: number; // 毫秒时间戳
-  filter_followers: number; // 最小粉丝数
-  add_user_list: string[]; // array<BigInt>
-  sub_user_list: string[]; // array<BigInt>
-  ttl: number; // 天数
-  volatility: number; // 波动率（-1 ~ 1）
-  bubble_num: number; // 总节点数
-  top_ratio: number; // Top 样本比例（0～1），如 0.3
+export type ForceGraphParams = GraphRequestParams & {
   nodes?: GraphNode[];
-}
+};
 
-export interface TweetParams {
-  author_id: string; // 主用户 A
-  label_id: string | null; // 可选：用户 B，与 A 的交互；为空时按 token 查询 A 自身数据
-  token: string; // 当 label_id 为空时，按 token 筛选
-  ttl: number; // 时间窗口天数
-  page_size: number; // 每页条数
-  page_num: number; // 页码，从 1 开始
-  filter_time: number; // 参考时间戳 ms
-}
+export type TweetParams = TweetRequestParams;
 
 export interface RGBColor {
   r: number;
   g: number;
   b: number;
-}
\ No newline at end of file
+}
@@ -1,3 +1,5 @@
+import type { NodeCentrality, SamplingBucket } from "@/types/graph";
+
 export interface KOL {
   id: string; // 用户的唯一 ID
   username: string; // 用户名
@@ -26,4 +28,13 @@ export interface SimpleKOL {
   username: string; // 用户名
   followers: number; // 粉丝数
   score_metrics: number; // 对币种的情绪分值，范围 -100 到 100
+  centrality?: NodeCentrality; // 来自当前图谱，搜索结果等图外用户没有
+  bucket?: SamplingBucket; // 来自当前图谱的采样来源
+}
+
+// KOL 对某个代币的每日平均情绪
+export interface SentimentPoint {
+  time: number; // 当天 0 点（UTC），毫秒时间戳
+  score: number; // 当天评论情绪分的平均值，范围 -100 到 100
+  count: number; // 当天的评论数
 }
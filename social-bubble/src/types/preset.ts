@@ -0,0 +1,12 @@
+// 命名的筛选预设（关注列表），由 /api/presets 保存在服务端
+export interface ViewPreset {
+  id: string;
+  name: string; // 例如 "ETH devs"
+  token: string;
+  filter_followers: number; // 最小粉丝数
+  ttl: number; // 天数
+  bubble_num: number; // 总节点数
+  add_user_list: string[]; // 关注的 KOL ID
+  sub_user_list: string[]; // 屏蔽的 KOL ID
+  updated: number; // 最后修改时间，毫秒时间戳
+}
@@ -0,0 +1,15 @@
+// 代币及其数据覆盖情况，由 /api/tokens 从 user_graph_detail_score 中统计
+export interface TokenInfo {
+  symbol: string; // user_graph_detail_score.label，例如 "BTC"
+  instId: string; // 对应的 K 线交易对，例如 "BTC-USDT"
+  count: number; // 记录条数
+  first_seen: number; // 最早记录时间，毫秒时间戳
+  last_seen: number; // 最新记录时间，毫秒时间戳
+}
+
+// 代币的数据时间范围，由 /api/meta/data-range 返回
+export interface DataCoverage {
+  symbol: string;
+  min: number; // 最早记录时间，毫秒时间戳
+  max: number; // 最新记录时间，毫秒时间戳
+}